@@ -7,11 +7,14 @@ import { ThemeProvider } from "next-themes";
 import { LanguageProvider } from "@/contexts/LanguageContext";
 import { CompareProvider } from "@/contexts/CompareContext";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { GameDataProvider } from "@/contexts/GameDataContext";
 import Index from "./pages/Index";
 import UnitDetail from "./pages/UnitDetail";
+import AbilityDetail from "./pages/AbilityDetail";
 import Compare from "./pages/Compare";
 import BattleSimulator from "./pages/BattleSimulator";
 import LiveBattleSimulator from "./pages/LiveBattleSimulator";
+import PatchDiff from "./pages/PatchDiff";
 import UploadImages from "./pages/UploadImages";
 import Auth from "./pages/Auth";
 import Admin from "./pages/Admin";
@@ -23,29 +26,34 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
       <LanguageProvider>
-        <CompareProvider>
-          <AuthProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <Routes>
-                  <Route path="/" element={<Index />} />
-                  <Route path="/unit/:id" element={<UnitDetail />} />
-                  <Route path="/compare/:id1/:id2" element={<Compare />} />
-                  <Route path="/battle/:encounterId" element={<BattleSimulator />} />
-                  <Route path="/live-battle/:encounterId" element={<LiveBattleSimulator />} />
-                  <Route path="/upload" element={<UploadImages />} />
-                  <Route path="/auth" element={<Auth />} />
-                  <Route path="/admin" element={<Admin />} />
+        <AuthProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <GameDataProvider>
+              <CompareProvider>
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/unit/:id" element={<UnitDetail />} />
+                    <Route path="/ability/:id" element={<AbilityDetail />} />
+                    <Route path="/compare" element={<Compare />} />
+                    <Route path="/compare/:id1/:id2" element={<Compare />} />
+                    <Route path="/battle/:encounterId" element={<BattleSimulator />} />
+                    <Route path="/live-battle/:encounterId" element={<LiveBattleSimulator />} />
+                    <Route path="/diff" element={<PatchDiff />} />
+                    <Route path="/upload" element={<UploadImages />} />
+                    <Route path="/auth" element={<Auth />} />
+                    <Route path="/admin" element={<Admin />} />
                   
-                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                  <Route path="*" element={<NotFound />} />
-                </Routes>
-              </BrowserRouter>
-            </TooltipProvider>
-          </AuthProvider>
-        </CompareProvider>
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </CompareProvider>
+            </GameDataProvider>
+          </TooltipProvider>
+        </AuthProvider>
       </LanguageProvider>
     </ThemeProvider>
   </QueryClientProvider>
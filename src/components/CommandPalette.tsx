@@ -0,0 +1,95 @@
+import { useState, useMemo, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search } from "lucide-react";
+import { Button } from "./ui/button";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { buildSearchIndex, searchIndex, SEARCH_ENTRY_KINDS } from "@/lib/searchIndex";
+import type { SearchEntry, SearchEntryKind } from "@/lib/searchIndex";
+
+export function CommandPalette() {
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  // Ctrl+K (Cmd+K on Mac) toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Built the first time the palette opens, and again when the language changes
+  const index = useMemo(() => (open ? buildSearchIndex(t) : null), [open, t]);
+
+  const resultGroups = useMemo(() => {
+    const groups = new Map<SearchEntryKind, SearchEntry[]>();
+    if (!index) return groups;
+    for (const entry of searchIndex(index, query)) {
+      groups.set(entry.kind, [...(groups.get(entry.kind) ?? []), entry]);
+    }
+    return groups;
+  }, [index, query]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setQuery("");
+  };
+
+  const handleSelect = (entry: SearchEntry) => {
+    handleOpenChange(false);
+    navigate(entry.path);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="gap-2 text-muted-foreground" onClick={() => setOpen(true)}>
+        <Search className="h-4 w-4" />
+        <span className="hidden md:inline">Search</span>
+        <kbd className="hidden md:inline pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+      </Button>
+      {/* Results come ranked from the search index, so cmdk's own filtering is off */}
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search units, abilities, encounters, boss strikes, status effects..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {query.trim() && <CommandEmpty>No results found.</CommandEmpty>}
+          {[...resultGroups].map(([kind, entries]) => (
+            <CommandGroup key={kind} heading={SEARCH_ENTRY_KINDS[kind].label}>
+              {entries.map(entry => (
+                <CommandItem
+                  key={`${entry.kind}-${entry.id}`}
+                  value={`${entry.kind}-${entry.id}`}
+                  onSelect={() => handleSelect(entry)}
+                  className="gap-2"
+                >
+                  <span className="truncate">{entry.name}</span>
+                  <span className="text-xs text-muted-foreground font-mono">#{entry.id.replace(/^archived-/, "")}</span>
+                  {entry.detail && (
+                    <span className="ml-auto text-xs text-muted-foreground truncate">{entry.detail}</span>
+                  )}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ))}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,150 @@
+import { useRef, useState } from "react";
+import { Database, FileArchive, FolderOpen, Trash2 } from "lucide-react";
+import { useGameData } from "@/hooks/useGameData";
+import { BUNDLED_VERSION_ID } from "@/lib/gameDataVersions";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+// Select value that opens the manage dialog instead of switching versions
+const MANAGE_VALUE = "__manage";
+
+export function DataVersionSelector() {
+  const { versions, activeVersion, isSwitching, setActiveVersion, importVersion, deleteVersion } = useGameData();
+  const [isManageOpen, setIsManageOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [isImporting, setIsImporting] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+
+  const handleValueChange = (value: string) => {
+    if (value === MANAGE_VALUE) setIsManageOpen(true);
+    else if (value !== activeVersion.id) setActiveVersion(value);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    setIsImporting(true);
+    const result = await importVersion(newName, Array.from(fileList));
+    setIsImporting(false);
+    if (folderInputRef.current) folderInputRef.current.value = "";
+    if (zipInputRef.current) zipInputRef.current.value = "";
+
+    if (result.error || !result.version) {
+      toast.error(result.error || "Import failed");
+      return;
+    }
+    toast.success(`Imported ${result.version.name} (${result.version.files.length} files)`);
+    setNewName("");
+  };
+
+  return (
+    <>
+      <Select value={activeVersion.id} onValueChange={handleValueChange} disabled={isSwitching}>
+        <SelectTrigger className="w-[150px] gap-2" title="Game data version">
+          <Database className="h-4 w-4" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((version) => (
+            <SelectItem key={version.id} value={version.id}>
+              {version.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={MANAGE_VALUE}>Manage versions...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={isManageOpen} onOpenChange={setIsManageOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Game Data Versions</DialogTitle>
+            <DialogDescription>
+              Import a folder or zip of game data dumps (battle_units.json, battle_abilities.json, ...).
+              Files it doesn't include are taken from the bundled data.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Input
+              placeholder="Version name (e.g. patch number)"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              disabled={isImporting}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1 gap-2" onClick={() => folderInputRef.current?.click()} disabled={isImporting}>
+                <FolderOpen className="h-4 w-4" />
+                Import Folder
+              </Button>
+              <Button variant="outline" className="flex-1 gap-2" onClick={() => zipInputRef.current?.click()} disabled={isImporting}>
+                <FileArchive className="h-4 w-4" />
+                Import Zip
+              </Button>
+            </div>
+            <input
+              ref={folderInputRef}
+              type="file"
+              className="hidden"
+              multiple
+              {...{ webkitdirectory: "" }}
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <input
+              ref={zipInputRef}
+              type="file"
+              className="hidden"
+              accept=".zip,application/zip"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            {isImporting && <p className="text-xs text-muted-foreground">Importing...</p>}
+          </div>
+
+          <div className="space-y-1">
+            {versions.map((version) => (
+              <div key={version.id} className="flex items-center gap-2 rounded-md border px-3 py-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {version.name}
+                    {version.id === activeVersion.id && <span className="ml-2 text-xs text-muted-foreground">(active)</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate" title={version.files.join(", ")}>
+                    {version.id === BUNDLED_VERSION_ID
+                      ? "Built into the app"
+                      : `${version.files.length} files from ${version.source}${version.importedAt ? `, ${new Date(version.importedAt).toLocaleDateString()}` : ""}`}
+                  </div>
+                </div>
+                {version.id !== activeVersion.id && (
+                  <Button variant="ghost" size="sm" onClick={() => setActiveVersion(version.id)} disabled={isSwitching}>
+                    Use
+                  </Button>
+                )}
+                {version.id !== BUNDLED_VERSION_ID && (
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => deleteVersion(version.id)} title="Delete version">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,7 +1,9 @@
+import { CommandPalette } from "./CommandPalette";
+import { DataVersionSelector } from "./DataVersionSelector";
 import { LanguageSelector } from "./LanguageSelector";
 import { ThemeToggle } from "./ThemeToggle";
 import { Link } from "react-router-dom";
-import { Sword, Upload, Shield, LogIn, LogOut, User } from "lucide-react";
+import { Sword, Upload, Shield, LogIn, LogOut, User, GitCompare } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "./ui/button";
 import {
@@ -23,6 +25,13 @@ export function Header() {
           <span>Battle Nations Toolkit</span>
         </Link>
         <div className="flex items-center gap-2">
+          <CommandPalette />
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/diff" className="gap-2">
+              <GitCompare className="h-4 w-4" />
+              <span className="hidden sm:inline">Patch Diff</span>
+            </Link>
+          </Button>
           {!loading && (
             <>
               {canUpload && (
@@ -71,6 +80,7 @@ export function Header() {
             </>
           )}
           <ThemeToggle />
+          <DataVersionSelector />
           <LanguageSelector />
         </div>
       </div>
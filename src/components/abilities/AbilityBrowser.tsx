@@ -0,0 +1,139 @@
+import { useState, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AbilityFilters } from "./AbilityFilters";
+import { getAbilityIndex, filterAbilities, ABILITY_SHAPES, EMPTY_ABILITY_FILTERS } from "@/lib/abilityIndex";
+import type { AbilityFilterCriteria } from "@/lib/abilityIndex";
+import { getLineOfFireLabel } from "@/lib/abilities";
+import { getAbilityImageUrl } from "@/lib/abilityImages";
+import { getDamageTypeName, getDamageTypeIconUrl } from "@/lib/damageImages";
+import { getStatusEffectDisplayName, getStatusEffectColor } from "@/lib/statusEffectData";
+import { useLanguage } from "@/contexts/LanguageContext";
+
+const ITEMS_PER_PAGE = 60;
+
+const linkState = { from: "/?tab=abilities", fromLabel: "Back to Abilities" };
+
+export function AbilityBrowser() {
+  const { t } = useLanguage();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [criteria, setCriteria] = useState<AbilityFilterCriteria>(EMPTY_ABILITY_FILTERS);
+  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+
+  const allAbilities = useMemo(() => getAbilityIndex(), []);
+  const maxRange = useMemo(() => Math.max(1, ...allAbilities.map(({ ability }) => ability.stats.max_range)), [allAbilities]);
+
+  const filteredAbilities = useMemo(() => {
+    let abilities = filterAbilities(allAbilities, criteria);
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      abilities = abilities.filter(({ id, ability }) =>
+        String(id) === query ||
+        t(ability.name).toLowerCase().includes(query) ||
+        ability.name.toLowerCase().includes(query)
+      );
+    }
+    return abilities;
+  }, [allAbilities, criteria, searchQuery, t]);
+
+  const updateSearchQuery = (query: string) => {
+    setSearchQuery(query);
+    setVisibleCount(ITEMS_PER_PAGE);
+  };
+
+  const updateCriteria = (next: AbilityFilterCriteria) => {
+    setCriteria(next);
+    setVisibleCount(ITEMS_PER_PAGE);
+  };
+
+  return (
+    <div className="space-y-6">
+      <AbilityFilters
+        searchQuery={searchQuery}
+        setSearchQuery={updateSearchQuery}
+        criteria={criteria}
+        setCriteria={updateCriteria}
+        maxRange={maxRange}
+      />
+
+      <div className="text-sm text-muted-foreground">
+        Showing {filteredAbilities.length} of {allAbilities.length} abilities
+      </div>
+
+      {filteredAbilities.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground text-lg">No abilities found matching your criteria.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+          {filteredAbilities.slice(0, visibleCount).map(({ id, ability, shape, statusEffectFamilies, users }) => {
+            const iconUrl = getAbilityImageUrl(ability.icon);
+            const damageTypeIconUrl = getDamageTypeIconUrl(ability.stats.damage_type);
+            return (
+              <Link
+                key={id}
+                to={`/ability/${id}`}
+                state={linkState}
+                className="flex gap-3 p-3 rounded-lg border bg-card hover:bg-muted/50 transition-colors"
+              >
+                {iconUrl && (
+                  <img
+                    src={iconUrl}
+                    alt=""
+                    loading="lazy"
+                    className="h-10 w-10 rounded object-cover shrink-0"
+                    onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                  />
+                )}
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="font-medium truncate">{t(ability.name)}</span>
+                    <span className="text-xs text-muted-foreground font-mono shrink-0">#{id}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    {damageTypeIconUrl && (
+                      <img
+                        src={damageTypeIconUrl}
+                        alt=""
+                        className="h-3.5 w-3.5 object-contain"
+                        onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                      />
+                    )}
+                    <span>{getDamageTypeName(ability.stats.damage_type)}</span>
+                    <span>• {getLineOfFireLabel(ability.stats.line_of_fire) ?? "Contact"}</span>
+                    <span>• Range {ability.stats.min_range}-{ability.stats.max_range}</span>
+                    <span>• {ABILITY_SHAPES[shape].label}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {statusEffectFamilies.map(family => (
+                      <Badge
+                        key={family}
+                        variant="outline"
+                        className="text-[10px] px-1.5 py-0"
+                        style={{ borderColor: getStatusEffectColor(family) }}
+                      >
+                        {getStatusEffectDisplayName(family)}
+                      </Badge>
+                    ))}
+                    <span className="text-xs text-muted-foreground">
+                      {users.length === 1 ? "1 unit" : `${users.length} units`}
+                    </span>
+                  </div>
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+
+      {visibleCount < filteredAbilities.length && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => setVisibleCount(prev => prev + ITEMS_PER_PAGE)}>
+            Show more ({filteredAbilities.length - visibleCount} remaining)
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import type { ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Search, X, Target, Zap, Flame, Crosshair, Grid3x3 } from "lucide-react";
+import { TargetCategories, TargetCategoryLabels } from "@/lib/unitAbilityFilters";
+import { ABILITY_SHAPES, EMPTY_ABILITY_FILTERS } from "@/lib/abilityIndex";
+import type { AbilityFilterCriteria, AbilityShape } from "@/lib/abilityIndex";
+import { getAllStatusEffectFamilies, getStatusEffectDisplayName } from "@/lib/statusEffectData";
+import { DamageType, DamageTypeLabels } from "@/data/gameEnums";
+import { LineOfFireLabels } from "@/types/battleSimulator";
+
+interface AbilityFiltersProps {
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  criteria: AbilityFilterCriteria;
+  setCriteria: (criteria: AbilityFilterCriteria) => void;
+  maxRange: number;
+}
+
+const availableDamageTypes = Object.values(DamageType).filter(dt => dt !== DamageType.None);
+
+type ListCriterion = Exclude<keyof AbilityFilterCriteria, "range">;
+
+interface FilterPopoverProps<T> {
+  icon: ReactNode;
+  label: string;
+  title: string;
+  options: { value: T; label: string }[];
+  selected: T[];
+  onToggle: (value: T) => void;
+}
+
+function FilterPopover<T extends string | number>({ icon, label, title, options, selected, onToggle }: FilterPopoverProps<T>) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          {icon}
+          {label}
+          {selected.length > 0 && (
+            <Badge variant="secondary" className="ml-1">
+              {selected.length}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 max-h-80 overflow-auto" align="end">
+        <div className="space-y-2">
+          <h4 className="font-medium">{title}</h4>
+          <div className="grid grid-cols-2 gap-2">
+            {options.map(option => (
+              <label key={option.value} className="flex items-center gap-2 cursor-pointer text-sm">
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={() => onToggle(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function AbilityFilters({ searchQuery, setSearchQuery, criteria, setCriteria, maxRange }: AbilityFiltersProps) {
+  const toggle = <K extends ListCriterion>(key: K, value: AbilityFilterCriteria[K][number]) => {
+    const values = criteria[key] as AbilityFilterCriteria[K][number][];
+    setCriteria({
+      ...criteria,
+      [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value],
+    });
+  };
+
+  const damageOptions = availableDamageTypes.map(dt => ({ value: dt as number, label: DamageTypeLabels[dt] }));
+  const lineOfFireOptions = Object.entries(LineOfFireLabels).map(([lof, label]) => ({ value: Number(lof), label }));
+  const targetOptions = Object.values(TargetCategories).map(tag => ({ value: tag as number, label: TargetCategoryLabels[tag] }));
+  const statusOptions = getAllStatusEffectFamilies().map(({ id }) => ({ value: id, label: getStatusEffectDisplayName(id) }));
+  const shapeOptions = (Object.keys(ABILITY_SHAPES) as AbilityShape[]).map(shape => ({ value: shape, label: ABILITY_SHAPES[shape].label }));
+
+  const activeFilters = [
+    ...criteria.damageTypes.map(dt => ({ key: `damage-${dt}`, label: `Deals: ${DamageTypeLabels[dt]}`, remove: () => toggle("damageTypes", dt) })),
+    ...criteria.linesOfFire.map(lof => ({ key: `lof-${lof}`, label: `Fire: ${LineOfFireLabels[lof]}`, remove: () => toggle("linesOfFire", lof) })),
+    ...(criteria.range !== null
+      ? [{ key: "range", label: `Reaches range ${criteria.range}`, remove: () => setCriteria({ ...criteria, range: null }) }]
+      : []),
+    ...criteria.targetCategories.map(tag => ({ key: `target-${tag}`, label: `Targets: ${TargetCategoryLabels[tag]}`, remove: () => toggle("targetCategories", tag) })),
+    ...criteria.statusEffects.map(id => ({ key: `status-${id}`, label: `Inflicts: ${getStatusEffectDisplayName(id)}`, remove: () => toggle("statusEffects", id) })),
+    ...criteria.shapes.map(shape => ({ key: `shape-${shape}`, label: ABILITY_SHAPES[shape].label, remove: () => toggle("shapes", shape) })),
+  ];
+
+  const clearFilters = () => {
+    setSearchQuery("");
+    setCriteria(EMPTY_ABILITY_FILTERS);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3 flex-wrap">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by ID or name..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <FilterPopover
+          icon={<Zap className="h-4 w-4" />}
+          label="Damage"
+          title="Damage Type"
+          options={damageOptions}
+          selected={criteria.damageTypes}
+          onToggle={(dt) => toggle("damageTypes", dt)}
+        />
+        <FilterPopover
+          icon={<Crosshair className="h-4 w-4" />}
+          label="Line of Fire"
+          title="Line of Fire"
+          options={lineOfFireOptions}
+          selected={criteria.linesOfFire}
+          onToggle={(lof) => toggle("linesOfFire", lof)}
+        />
+
+        <Select
+          value={criteria.range === null ? "any" : String(criteria.range)}
+          onValueChange={(v) => setCriteria({ ...criteria, range: v === "any" ? null : Number(v) })}
+        >
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Range" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any Range</SelectItem>
+            {Array.from({ length: maxRange }, (_, i) => i + 1).map(range => (
+              <SelectItem key={range} value={String(range)}>Reaches {range}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <FilterPopover
+          icon={<Target className="h-4 w-4" />}
+          label="Targets"
+          title="Can Target"
+          options={targetOptions}
+          selected={criteria.targetCategories}
+          onToggle={(tag) => toggle("targetCategories", tag)}
+        />
+        <FilterPopover
+          icon={<Flame className="h-4 w-4" />}
+          label="Status"
+          title="Inflicts Status Effect"
+          options={statusOptions}
+          selected={criteria.statusEffects}
+          onToggle={(id) => toggle("statusEffects", id)}
+        />
+        <FilterPopover
+          icon={<Grid3x3 className="h-4 w-4" />}
+          label="AOE"
+          title="Area of Effect"
+          options={shapeOptions}
+          selected={criteria.shapes}
+          onToggle={(shape) => toggle("shapes", shape)}
+        />
+
+        {(searchQuery || activeFilters.length > 0) && (
+          <Button variant="ghost" onClick={clearFilters} className="gap-2">
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {activeFilters.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {activeFilters.map(filter => (
+            <Badge key={filter.key} variant="outline" className="cursor-pointer" onClick={filter.remove}>
+              {filter.label}
+              <X className="h-3 w-3 ml-1" />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
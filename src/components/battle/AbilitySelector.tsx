@@ -155,12 +155,24 @@ export function AbilitySelector({
                     <span>{Math.round(info.armorPiercing * 100)}%</span>
                     <span>Crit:</span>
                     <span>{info.critPercent}%</span>
-                    {info.suppressionMultiplier !== 1 && (
+                    {(info.suppressionMultiplier > 0 || info.suppressionBonus > 0) && (
                       <>
                         <span>Suppression:</span>
                         <span>{info.suppressionMultiplier}x {info.suppressionBonus > 0 && `+${info.suppressionBonus}`}</span>
                       </>
                     )}
+                    {info.minHpPercent > 0 && (
+                      <>
+                        <span>Non-lethal:</span>
+                        <span>Stops at {info.minHpPercent}% HP</span>
+                      </>
+                    )}
+                    {info.capture && (
+                      <>
+                        <span>Capture:</span>
+                        <span className="text-sky-400">Captures on a lethal hit</span>
+                      </>
+                    )}
                     {info.isFixed && (
                       <>
                         <span>Pattern:</span>
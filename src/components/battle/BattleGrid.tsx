@@ -6,8 +6,8 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from "@/components/ui/tooltip";
 import { Crosshair } from "lucide-react";
 import type { EncounterUnit } from "@/types/encounters";
-import type { PartyUnit, DamagePreview, SelectedUnit, TargetArea, DamageAreaPosition } from "@/types/battleSimulator";
-import { ENEMY_GRID_LAYOUT, FRIENDLY_GRID_LAYOUT, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, getAffectedGridPositions } from "@/types/battleSimulator";
+import type { PartyUnit, DamagePreview, SelectedUnit, TargetArea, DamageAreaPosition, BattleGridShape } from "@/types/battleSimulator";
+import { ENEMY_GRID_LAYOUT, FRIENDLY_GRID_LAYOUT, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, getAffectedGridPositions, isGridCellOpen, hasWallInColumn } from "@/types/battleSimulator";
 import { DamageBreakdown } from "@/components/battle/DamageBreakdown";
 
 interface BattleGridProps {
@@ -30,6 +30,8 @@ interface BattleGridProps {
   fixedAttackPositions?: { gridId: number; damagePercent: number }[];
   // Valid reticle positions based on range/line of fire
   validReticlePositions?: Set<number>;
+  // Battlefield layout for this side (unavailable cells and defender wall)
+  gridShape?: BattleGridShape;
 }
 
 const DAMAGE_TYPE_NAMES: Record<number, string> = {
@@ -58,6 +60,7 @@ export function BattleGrid({
   showReticle = false,
   fixedAttackPositions = [],
   validReticlePositions,
+  gridShape,
 }: BattleGridProps) {
   const { t } = useLanguage();
   const layout = isEnemy ? ENEMY_GRID_LAYOUT : FRIENDLY_GRID_LAYOUT;
@@ -206,6 +209,13 @@ export function BattleGrid({
     }
     
     if (isEnemy) return;
+
+    // Units can't be placed on cells the layout leaves out
+    if (gridShape && !isGridCellOpen(gridShape, targetGridId)) {
+      setDraggedGridId(null);
+      setDragOverGridId(null);
+      return;
+    }
     
     // Check if it's a unit being dragged from the party selector
     const selectorData = e.dataTransfer.getData("application/x-selector-unit");
@@ -249,6 +259,18 @@ export function BattleGrid({
 
   const renderSlot = (gridId: number) => {
     const encounterUnit = getUnitAtPosition(gridId);
+
+    // Cells the layout leaves out (a unit already placed there is still shown so it can be moved off)
+    if (!encounterUnit && gridShape && !isGridCellOpen(gridShape, gridId)) {
+      return (
+        <div
+          key={gridId}
+          title="Unavailable in this layout"
+          className="w-16 h-16 sm:w-18 sm:h-18 rounded-md bg-muted/30 opacity-40"
+        />
+      );
+    }
+
     const damagePreview = getDamagePreview(gridId);
     const isDragging = draggedGridId === gridId;
     const isDragOver = dragOverGridId === gridId;
@@ -629,6 +651,11 @@ export function BattleGrid({
                 <span className="text-muted-foreground">
                   Crit: <span className={cn("font-medium", damagePreview.critChance > 0 && "text-orange-500 dark:text-orange-400")}>{damagePreview.critChance}%</span>
                 </span>
+                {damagePreview.distribution && (
+                  <span className="text-muted-foreground">
+                    Kill: <span className={cn("font-medium", damagePreview.distribution.killChance > 0 && "text-emerald-500 dark:text-emerald-400")}>{Math.round(damagePreview.distribution.killChance * 100)}%</span>
+                  </span>
+                )}
               </div>
 
               {/* Status Effects */}
@@ -658,6 +685,7 @@ export function BattleGrid({
                   damageResult={damagePreview.maxDamage}
                   damageType={damagePreview.damageType}
                   label="Max Damage Breakdown"
+                  distribution={damagePreview.distribution}
                 />
               )}
             </div>
@@ -669,6 +697,25 @@ export function BattleGrid({
     return <div key={gridId}>{slotContent}</div>;
   };
 
+  // Defender wall in front of the front row, one segment per column
+  const renderWall = () => {
+    if (!gridShape?.wall) return null;
+    return (
+      <div className="flex gap-1">
+        {layout.ROW_1.map(gridId => (
+          <div
+            key={gridId}
+            title={hasWallInColumn(gridShape, GRID_ID_TO_COORDS[gridId].x) ? "Wall - blocks contact attacks" : undefined}
+            className={cn(
+              "w-16 sm:w-18 h-2 rounded-sm",
+              hasWallInColumn(gridShape, GRID_ID_TO_COORDS[gridId].x) && "bg-stone-500/70"
+            )}
+          />
+        ))}
+      </div>
+    );
+  };
+
   return (
     <TooltipProvider>
       <div 
@@ -695,9 +742,11 @@ export function BattleGrid({
             <div className="flex gap-1">
               {layout.ROW_1.map(gridId => renderSlot(gridId))}
             </div>
+            {renderWall()}
           </>
         ) : (
           <>
+            {renderWall()}
             <div className="flex gap-1">
               {layout.ROW_1.map(gridId => renderSlot(gridId))}
             </div>
@@ -1,7 +1,7 @@
 import { useRef, useEffect } from "react";
 import { cn } from "@/lib/utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Sword, Shield, Skull, Zap, Wind, Target, Flame, Droplets, TrendingUp } from "lucide-react";
+import { Sword, Shield, Skull, Zap, Wind, Target, Flame, Droplets, TrendingUp, History, UserPlus, Lock } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
 import type { BattleAction, BattleTurn, TurnSummary } from "@/types/liveBattle";
 
@@ -9,6 +9,10 @@ interface BattleLogProps {
   turns: BattleTurn[];
   currentTurn: number;
   className?: string;
+  // Rewind the battle to just before the turn at this log index
+  onRewindToTurn?: (turnIndex: number) => void;
+  // Turns before this log index are no longer in the undo history
+  earliestRewindableTurn?: number;
 }
 
 function ActionIcon({ type, statusEffectName }: { type: BattleAction["type"]; statusEffectName?: string }) {
@@ -21,6 +25,10 @@ function ActionIcon({ type, statusEffectName }: { type: BattleAction["type"]; st
       return <Target className="h-3 w-3 text-yellow-500" />;
     case "death":
       return <Skull className="h-3 w-3 text-red-600" />;
+    case "unit_spawned":
+      return <UserPlus className="h-3 w-3 text-amber-500" />;
+    case "capture":
+      return <Lock className="h-3 w-3 text-sky-500" />;
     case "status_applied":
       return <Zap className="h-3 w-3 text-purple-500" />;
     case "status_tick":
@@ -36,6 +44,9 @@ function ActionIcon({ type, statusEffectName }: { type: BattleAction["type"]; st
   }
 }
 
+// Actions logged against a unit on its own, without an attacker
+const TARGET_ONLY_ACTIONS: BattleAction["type"][] = ["death", "unit_spawned", "capture"];
+
 function formatUnitWithGrid(name: string | undefined, gridId: number | undefined, t: (key: string) => string): string {
   if (!name) return "";
   const localizedName = t(name);
@@ -78,7 +89,7 @@ function TurnSummaryDisplay({ summary, isPlayerTurn }: { summary: TurnSummary; i
   );
 }
 
-export function BattleLog({ turns, currentTurn, className }: BattleLogProps) {
+export function BattleLog({ turns, currentTurn, className, onRewindToTurn, earliestRewindableTurn = 0 }: BattleLogProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const { t } = useLanguage();
 
@@ -134,7 +145,7 @@ export function BattleLog({ turns, currentTurn, className }: BattleLogProps) {
               <div
                 key={turnIndex}
                 className={cn(
-                  "space-y-1",
+                  "group space-y-1",
                   turn.turnNumber === currentTurn && "bg-primary/10 -mx-2 px-2 py-1 rounded"
                 )}
               >
@@ -148,6 +159,17 @@ export function BattleLog({ turns, currentTurn, className }: BattleLogProps) {
                   <span className="text-muted-foreground">
                     {turn.isPlayerTurn ? "Player" : "Enemy"}
                   </span>
+                  {onRewindToTurn && turnIndex >= earliestRewindableTurn && (
+                    <button
+                      type="button"
+                      onClick={() => onRewindToTurn(turnIndex)}
+                      className="ml-auto flex items-center gap-1 text-muted-foreground opacity-0 group-hover:opacity-100 hover:text-foreground transition-opacity"
+                      title="Rewind to before this turn"
+                    >
+                      <History className="h-3 w-3" />
+                      Rewind
+                    </button>
+                  )}
                 </div>
                 <div className="space-y-0.5 ml-2">
                   {turn.actions.map((action, actionIndex) => {
@@ -178,8 +200,8 @@ export function BattleLog({ turns, currentTurn, className }: BattleLogProps) {
                               {targetDisplay} → {action.statusEffectName}:{" "}
                             </span>
                           )}
-                          {/* Death by status effect */}
-                          {action.type === 'death' && !attackerDisplay && targetDisplay && (
+                          {/* Death by status effect, death spawns and captures */}
+                          {TARGET_ONLY_ACTIONS.includes(action.type) && !attackerDisplay && targetDisplay && (
                             <span className="font-medium text-foreground">
                               {targetDisplay}:{" "}
                             </span>
@@ -1,10 +1,12 @@
-import type { DamageResult } from "@/types/battleSimulator";
+import type { DamageDistribution, DamageResult } from "@/types/battleSimulator";
 import { DAMAGE_TYPE_MAP } from "@/types/battleSimulator";
 
 interface DamageBreakdownProps {
   damageResult: DamageResult;
   damageType: number;
   label?: string;
+  // Outcome of the whole attack (all shots, dodge, crits, armor depletion)
+  distribution?: DamageDistribution;
 }
 
 // Get damage type name from ID
@@ -21,7 +23,12 @@ function formatModifier(modifier: number): string {
   return `${percentage}%`;
 }
 
-export function DamageBreakdown({ damageResult, damageType, label = "Damage Calculation" }: DamageBreakdownProps) {
+// Format a 0-1 probability as a percentage
+function formatChance(chance: number): string {
+  return `${(chance * 100).toFixed(chance > 0 && chance < 0.01 ? 1 : 0)}%`;
+}
+
+export function DamageBreakdown({ damageResult, damageType, label = "Damage Calculation", distribution }: DamageBreakdownProps) {
   const { breakdown } = damageResult;
 
   // If no breakdown available, don't render anything
@@ -177,6 +184,57 @@ export function DamageBreakdown({ damageResult, damageType, label = "Damage Calc
           <span className="font-mono text-orange-400">{damageResult.armorDamage + damageResult.hpDamage}</span>
         </div>
       </div>
+
+      {/* Attack Outcome - all shots with dodge, crits and armor depletion */}
+      {distribution && (
+        <div className="space-y-0.5 border-l-2 border-emerald-500/50 pl-2">
+          <p className="text-xs font-medium text-emerald-400">Attack Outcome ({distribution.samples} samples):</p>
+
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Expected HP Loss:</span>
+            <span className="font-mono text-red-300">{distribution.expectedHpLoss.toFixed(1)}</span>
+          </div>
+
+          {distribution.expectedArmorLoss > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Expected Armor Loss:</span>
+              <span className="font-mono text-yellow-300">{distribution.expectedArmorLoss.toFixed(1)}</span>
+            </div>
+          )}
+
+          <div className="flex justify-between font-medium">
+            <span>Kill Chance:</span>
+            <span className={distribution.killChance > 0 ? "font-mono text-emerald-300" : "font-mono text-muted-foreground"}>
+              {formatChance(distribution.killChance)}
+            </span>
+          </div>
+
+          {/* HP loss histogram */}
+          <div className="space-y-px pt-0.5">
+            {distribution.buckets.map(bucket => (
+              <div key={bucket.from} className="flex items-center gap-1.5">
+                <span className="w-16 shrink-0 font-mono text-[10px] text-muted-foreground">
+                  {bucket.from === bucket.to ? bucket.from : `${bucket.from}-${bucket.to}`}
+                </span>
+                <div className="h-1.5 flex-1 rounded-sm bg-muted">
+                  <div
+                    className="h-full rounded-sm bg-emerald-500/70"
+                    style={{ width: `${bucket.probability * 100}%` }}
+                  />
+                </div>
+                <span className="w-8 shrink-0 text-right font-mono text-[10px]">{formatChance(bucket.probability)}</span>
+              </div>
+            ))}
+          </div>
+
+          {distribution.statusProcChances.map(proc => (
+            <div key={proc.effectId} className="flex justify-between">
+              <span style={{ color: proc.color }}>{proc.name}:</span>
+              <span className="font-mono">{formatChance(proc.chance)}</span>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
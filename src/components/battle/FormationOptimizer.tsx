@@ -0,0 +1,290 @@
+import { useMemo, useState } from "react";
+import { Save, Sparkles, Square, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UnitImage } from "@/components/units/UnitImage";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useFormationOptimizer } from "@/hooks/useFormationOptimizer";
+import { PLAYER_POLICIES } from "@/lib/battlePolicies";
+import type { PlayerPolicyId } from "@/lib/battlePolicies";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import { DEFAULT_FORMATION_SEARCH, FORMATION_OBJECTIVES, getEligiblePoolUnits } from "@/lib/formationOptimizer";
+import type { FormationObjective, PoolUnit } from "@/lib/formationOptimizer";
+import { getEncounterUnitLimit } from "@/lib/unitRestrictions";
+import { getUnitById } from "@/lib/units";
+import type { Party, PartyUnit } from "@/types/battleSimulator";
+import type { Encounter, EncounterUnit } from "@/types/encounters";
+import { toast } from "sonner";
+
+interface FormationOptimizerProps {
+  // Saved parties and the formation being edited - their units make up the pool
+  parties: Party[];
+  formation: PartyUnit[];
+  encounter: Encounter | null | undefined;
+  waves: EncounterUnit[][];
+  // Base seed for the search; a fresh one is generated if omitted
+  seed?: number | null;
+  enemyAi: EnemyAiTypeId;
+  onUseFormation: (units: PartyUnit[]) => void;
+  onSaveParty: (party: Party) => void;
+}
+
+const FORMATION_SOURCE = "formation";
+const MAX_CANDIDATES = 500;
+const MAX_SEARCH_ITERATIONS = 1000;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function FormationOptimizer({ parties, formation, encounter, waves, seed, enemyAi, onUseFormation, onSaveParty }: FormationOptimizerProps) {
+  const { t } = useLanguage();
+  const [sources, setSources] = useState<Set<string>>(() => new Set([FORMATION_SOURCE]));
+  const [objective, setObjective] = useState<FormationObjective>(DEFAULT_FORMATION_SEARCH.objective);
+  const [policy, setPolicy] = useState<PlayerPolicyId>("greedy_damage");
+  const [candidatesInput, setCandidatesInput] = useState(String(DEFAULT_FORMATION_SEARCH.candidates));
+  const [iterationsInput, setIterationsInput] = useState(String(DEFAULT_FORMATION_SEARCH.searchIterations));
+  const [savedPartyIds, setSavedPartyIds] = useState<Set<string>>(new Set());
+  const { run, cancel, isRunning, progress, results } = useFormationOptimizer();
+
+  // Units from the chosen sources, without counting a unit twice because it's in several of them
+  // (the formation is usually built from a saved party) - each unit+rank appears as often as
+  // the source holding the most copies of it has it
+  const pool = useMemo<PoolUnit[]>(() => {
+    const sourceUnits = [
+      ...(sources.has(FORMATION_SOURCE) ? [formation] : []),
+      ...parties.filter(p => sources.has(p.id)).map(p => p.units),
+    ];
+    const copies = new Map<string, PoolUnit & { count: number }>();
+    for (const units of sourceUnits) {
+      const counts = new Map<string, number>();
+      for (const { unitId, rank } of units) {
+        const key = `${unitId}-${rank}`;
+        const count = (counts.get(key) ?? 0) + 1;
+        counts.set(key, count);
+        if (count > (copies.get(key)?.count ?? 0)) copies.set(key, { unitId, rank, count });
+      }
+    }
+    return [...copies.values()].flatMap(({ unitId, rank, count }) => Array.from({ length: count }, () => ({ unitId, rank })));
+  }, [sources, formation, parties]);
+
+  const eligibleCount = useMemo(() => getEligiblePoolUnits(pool, encounter).length, [pool, encounter]);
+
+  const toggleSource = (id: string, checked: boolean) => {
+    setSources(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleRun = () => {
+    setSavedPartyIds(new Set());
+    run(pool, encounter, waves, {
+      ...DEFAULT_FORMATION_SEARCH,
+      objective,
+      policy,
+      candidates: Math.min(MAX_CANDIDATES, Math.max(1, parseInt(candidatesInput) || 0)),
+      searchIterations: Math.min(MAX_SEARCH_ITERATIONS, Math.max(1, parseInt(iterationsInput) || 0)),
+      seed: seed ?? undefined,
+      enemyAi,
+      partyName: encounter?.name ? `${t(encounter.name)} Formation` : undefined,
+    });
+  };
+
+  const handleSave = (party: Party) => {
+    onSaveParty(party);
+    setSavedPartyIds(prev => new Set(prev).add(party.id));
+    toast.success(`Saved party: ${party.name}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm">Unit Pool</Label>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={sources.has(FORMATION_SOURCE)}
+              onCheckedChange={(checked) => toggleSource(FORMATION_SOURCE, checked === true)}
+              disabled={isRunning}
+            />
+            Current formation ({formation.length})
+          </label>
+          {parties.map(party => (
+            <label key={party.id} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={sources.has(party.id)}
+                onCheckedChange={(checked) => toggleSource(party.id, checked === true)}
+                disabled={isRunning}
+              />
+              {party.name} ({party.units.length})
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {pool.length} units in the pool
+          {eligibleCount < pool.length && `, ${pool.length - eligibleCount} not allowed in this encounter`}
+          {encounter && ` - up to ${getEncounterUnitLimit(encounter)} can be deployed`}
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-sm">Goal</Label>
+          <Select value={objective} onValueChange={(v) => setObjective(v as FormationObjective)} disabled={isRunning}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FORMATION_OBJECTIVES) as FormationObjective[]).map(id => (
+                <SelectItem key={id} value={id}>
+                  {FORMATION_OBJECTIVES[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label className="text-sm">Player Policy</Label>
+          <Select value={policy} onValueChange={(v) => setPolicy(v as PlayerPolicyId)} disabled={isRunning}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PLAYER_POLICIES) as PlayerPolicyId[]).map(id => (
+                <SelectItem key={id} value={id}>
+                  {PLAYER_POLICIES[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="optimizer-candidates" className="text-sm">Formations to Try</Label>
+          <Input
+            id="optimizer-candidates"
+            type="number"
+            min={1}
+            max={MAX_CANDIDATES}
+            value={candidatesInput}
+            onChange={(e) => setCandidatesInput(e.target.value)}
+            disabled={isRunning}
+            className="w-[120px]"
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="optimizer-iterations" className="text-sm">Battles Each</Label>
+          <Input
+            id="optimizer-iterations"
+            type="number"
+            min={1}
+            max={MAX_SEARCH_ITERATIONS}
+            value={iterationsInput}
+            onChange={(e) => setIterationsInput(e.target.value)}
+            disabled={isRunning}
+            className="w-[120px]"
+          />
+        </div>
+
+        {isRunning ? (
+          <Button variant="outline" onClick={cancel}>
+            <Square className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleRun} disabled={eligibleCount === 0 || waves.length === 0}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            Find Formations
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {FORMATION_OBJECTIVES[objective].description}. The best formations are re-simulated
+        with {DEFAULT_FORMATION_SEARCH.finalIterations} battles each before they are ranked.
+      </p>
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.evaluated / progress.total) * 100 : 0} />
+          <div className="text-xs text-muted-foreground text-right">
+            {progress.evaluated} / {progress.total} formations
+          </div>
+        </div>
+      )}
+
+      {results && (
+        results.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No formation could be built from this pool.</p>
+        ) : (
+          <div className="space-y-2">
+            {results.map(({ party, result, expectedLosses }) => (
+              <div key={party.id} className="flex flex-wrap items-center gap-3 rounded-md border p-3">
+                <div className="flex-1 min-w-[200px] space-y-1">
+                  <div className="text-sm font-medium">{party.name}</div>
+                  <div className="flex flex-wrap gap-1">
+                    {party.units.map(unit => {
+                      const unitData = getUnitById(unit.unitId);
+                      const unitName = unitData ? t(unitData.identity.name) : `Unit ${unit.unitId}`;
+                      return (
+                        <span key={unit.gridId} title={`${unitName} (Rank ${unit.rank})`}>
+                          {unitData ? (
+                            <UnitImage iconName={unitData.identity.icon} alt={unitName} className="w-8 h-8 rounded" />
+                          ) : (
+                            <span className="text-xs">{unitName}</span>
+                          )}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs text-muted-foreground">Win Rate</div>
+                    <div className="font-bold">{formatPercent(result.winRate)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Units Lost</div>
+                    <div className="font-bold">{expectedLosses.toFixed(2)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs text-muted-foreground">Avg Turns</div>
+                    <div className="font-bold">{result.avgTurns.toFixed(1)}</div>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onUseFormation(party.units)}>
+                    <Upload className="h-4 w-4 mr-1" />
+                    Use
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSave(party)}
+                    disabled={savedPartyIds.has(party.id)}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {savedPartyIds.has(party.id) ? "Saved" : "Save"}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
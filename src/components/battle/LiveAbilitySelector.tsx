@@ -292,12 +292,24 @@ export function LiveAbilitySelector({
                     <span className="text-foreground">{Math.round(ability.armorPiercing * 100)}%</span>
                     <span>Crit:</span>
                     <span className="text-foreground">{ability.critPercent}%</span>
-                    {ability.suppressionMultiplier !== 1 && (
+                    {(ability.suppressionMultiplier > 0 || ability.suppressionBonus > 0) && (
                       <>
                         <span>Suppression:</span>
                         <span className="text-foreground">{ability.suppressionMultiplier}x {ability.suppressionBonus > 0 && `+${ability.suppressionBonus}`}</span>
                       </>
                     )}
+                    {ability.minHpPercent > 0 && (
+                      <>
+                        <span>Non-lethal:</span>
+                        <span className="text-foreground">Stops at {ability.minHpPercent}% HP</span>
+                      </>
+                    )}
+                    {ability.capture && (
+                      <>
+                        <span>Capture:</span>
+                        <span className="text-sky-400">Captures on a lethal hit</span>
+                      </>
+                    )}
                     {ability.isFixed && (
                       <>
                         <span>Pattern:</span>
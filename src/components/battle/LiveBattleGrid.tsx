@@ -8,8 +8,8 @@ import { Skull, Zap, Crosshair, Shuffle, ShieldOff } from "lucide-react";
 import { getStatusEffectDisplayName, getStatusEffectColor, getEffectIconUrl } from "@/lib/statusEffects";
 import { DamageBreakdown } from "@/components/battle/DamageBreakdown";
 import type { LiveBattleUnit } from "@/types/liveBattle";
-import type { DamagePreview, TargetArea, DamageAreaPosition, StatusEffectPreview } from "@/types/battleSimulator";
-import { ENEMY_GRID_LAYOUT, FRIENDLY_GRID_LAYOUT, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, getAffectedGridPositions } from "@/types/battleSimulator";
+import type { DamagePreview, TargetArea, DamageAreaPosition, StatusEffectPreview, BattleGridShape } from "@/types/battleSimulator";
+import { ENEMY_GRID_LAYOUT, FRIENDLY_GRID_LAYOUT, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, getAffectedGridPositions, isGridCellOpen, hasWallInColumn } from "@/types/battleSimulator";
 
 interface LiveBattleGridProps {
   isEnemy: boolean;
@@ -18,6 +18,8 @@ interface LiveBattleGridProps {
   onUnitClick?: (unit: LiveBattleUnit) => void;
   highlightedGridIds?: Set<number>;
   lastActionGridIds?: { attacker?: number; targets?: number[] };
+  // Suggested move being hovered in the turn planner
+  suggestedGridIds?: { attacker?: number; targets?: number[] };
   // Damage preview support (like BattleGrid)
   damagePreviews?: DamagePreview[];
   // Targeting reticle props
@@ -39,6 +41,8 @@ interface LiveBattleGridProps {
   recentlyDeadGridIds?: Set<number>;
   // Collapsed rows (rows with no alive units that should be visually hidden)
   collapsedRows?: Set<number>;
+  // Battlefield layout for this side (unavailable cells and defender wall)
+  gridShape?: BattleGridShape;
 }
 
 export function LiveBattleGrid({
@@ -48,6 +52,7 @@ export function LiveBattleGrid({
   onUnitClick,
   highlightedGridIds,
   lastActionGridIds,
+  suggestedGridIds,
   damagePreviews = [],
   targetArea,
   damageArea,
@@ -61,6 +66,7 @@ export function LiveBattleGrid({
   attackAnimationTrigger = 0,
   recentlyDeadGridIds = new Set(),
   collapsedRows = new Set(),
+  gridShape,
 }: LiveBattleGridProps) {
   const { t } = useLanguage();
   const layout = isEnemy ? ENEMY_GRID_LAYOUT : FRIENDLY_GRID_LAYOUT;
@@ -184,7 +190,21 @@ export function LiveBattleGrid({
   };
 
   const renderSlot = (gridId: number) => {
-    const unit = units.find(u => u.gridId === gridId);
+    const slotSize = "w-16 h-16 sm:w-18 sm:h-18";
+
+    // Cells the layout leaves out can't hold units or be targeted
+    if (gridShape && !isGridCellOpen(gridShape, gridId)) {
+      return (
+        <div
+          key={gridId}
+          title="Unavailable in this layout"
+          className={cn(slotSize, "rounded-md bg-muted/30 opacity-40")}
+        />
+      );
+    }
+
+    // A unit spawned on death shares its slot with the dead unit
+    const unit = units.find(u => u.gridId === gridId && !u.isDead) ?? units.find(u => u.gridId === gridId);
     const unitData = unit ? getUnitById(unit.unitId) : null;
     const unitName = unitData ? t(unitData.identity.name) : "";
     const damagePreview = getDamagePreview(gridId);
@@ -193,6 +213,7 @@ export function LiveBattleGrid({
     const isHighlighted = highlightedGridIds?.has(gridId);
     const isAttacker = lastActionGridIds?.attacker === gridId;
     const isTarget = lastActionGridIds?.targets?.includes(gridId);
+    const isSuggested = suggestedGridIds?.attacker === gridId || suggestedGridIds?.targets?.includes(gridId);
     const isDragOver = dragOverGridId === gridId;
     const isAnimatingAttack = animatingTargets.has(gridId);
     
@@ -204,8 +225,6 @@ export function LiveBattleGrid({
     const isValidReticleTarget = showReticle && validReticlePositions?.has(gridId) && !isReticleCenter;
     const isInvalidReticleTarget = showReticle && validReticlePositions && !validReticlePositions.has(gridId) && !isReticleCenter;
 
-    const slotSize = "w-16 h-16 sm:w-18 sm:h-18";
-
     const getDamageLabel = () => {
       if (!affectedPos) return null;
       const hitCount = (affectedPos as any).hitCount;
@@ -253,6 +272,7 @@ export function LiveBattleGrid({
             showReticle && isAffectedByPattern && !isReticleCenter && "border-orange-500 border-solid bg-orange-500/10",
             isFixedPatternTile && affectedPos?.damagePercent === 100 && "border-red-500 border-solid border-2 bg-red-500/20",
             isFixedPatternTile && affectedPos?.damagePercent !== 100 && "border-orange-500 border-solid bg-orange-500/15",
+            isSuggested && "border-sky-400 border-solid bg-sky-500/10",
             isDraggingReticle && isReticleCenter && "opacity-50"
           )}
         >
@@ -340,6 +360,7 @@ export function LiveBattleGrid({
           showReticle && isAffectedByPattern && !isReticleCenter && "ring-2 ring-orange-500/70",
           isFixedPatternTile && affectedPos?.damagePercent === 100 && "ring-2 ring-red-500 ring-offset-1",
           isFixedPatternTile && affectedPos?.damagePercent !== 100 && "ring-2 ring-orange-500/70",
+          isSuggested && "ring-2 ring-sky-400 ring-offset-1",
           isDraggingReticle && isReticleCenter && "opacity-50"
         )}
       >
@@ -609,6 +630,9 @@ export function LiveBattleGrid({
                   <div className="flex gap-4 text-xs">
                     <span>Dodge: <span className={cn(damagePreview.dodgeChance > 0 && "text-yellow-500")}>{damagePreview.dodgeChance}%</span></span>
                     <span>Crit: <span className={cn(damagePreview.critChance > 0 && "text-orange-500")}>{damagePreview.critChance}%</span></span>
+                    {damagePreview.distribution && (
+                      <span>Kill: <span className={cn(damagePreview.distribution.killChance > 0 && "text-emerald-500")}>{Math.round(damagePreview.distribution.killChance * 100)}%</span></span>
+                    )}
                   </div>
                   
                   {/* Status Effects */}
@@ -647,6 +671,7 @@ export function LiveBattleGrid({
                       damageResult={damagePreview.maxDamage}
                       damageType={damagePreview.damageType}
                       label="Max Damage Breakdown"
+                      distribution={damagePreview.distribution}
                     />
                   )}
                 </div>
@@ -707,6 +732,25 @@ export function LiveBattleGrid({
     );
   };
 
+  // Defender wall in front of the front row, one segment per column
+  const renderWall = () => {
+    if (!gridShape?.wall) return null;
+    return (
+      <div className="flex gap-1">
+        {layout.ROW_1.map(gridId => (
+          <div
+            key={gridId}
+            title={hasWallInColumn(gridShape, GRID_ID_TO_COORDS[gridId].x) ? "Wall - blocks contact attacks" : undefined}
+            className={cn(
+              "w-16 sm:w-18 h-2 rounded-sm",
+              hasWallInColumn(gridShape, GRID_ID_TO_COORDS[gridId].x) && "bg-stone-500/70"
+            )}
+          />
+        ))}
+      </div>
+    );
+  };
+
   return (
     <TooltipProvider>
       <div 
@@ -749,9 +793,11 @@ export function LiveBattleGrid({
                 {layout.ROW_1.map(gridId => renderSlot(gridId))}
               </div>
             )}
+            {renderWall()}
           </>
         ) : (
           <>
+            {renderWall()}
             {/* Row 1 (front row for friendlies, displayed at top) - hide if collapsed */}
             {!collapsedRows.has(0) && (
               <div className="flex gap-1">
@@ -0,0 +1,85 @@
+import { Lightbulb, Play, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { UnitImage } from "@/components/units/UnitImage";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getAbilityById } from "@/lib/abilities";
+import { getUnitById } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type { MoveSuggestion } from "@/lib/battlePlanner";
+import type { LiveBattleUnit } from "@/types/liveBattle";
+
+interface MoveSuggestionsProps {
+  suggestions: MoveSuggestion[];
+  // Friendly units, to name the attacker of each suggestion
+  units: LiveBattleUnit[];
+  hoveredIndex: number | null;
+  onHover: (index: number | null) => void;
+  onUse: (suggestion: MoveSuggestion) => void;
+  onClose: () => void;
+  disabled?: boolean;
+}
+
+export function MoveSuggestions({ suggestions, units, hoveredIndex, onHover, onUse, onClose, disabled }: MoveSuggestionsProps) {
+  const { t } = useLanguage();
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Lightbulb className="h-4 w-4 text-sky-400" />
+            Suggested Moves
+          </span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} title="Close suggestions">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {suggestions.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No attacks available this turn.</p>
+        ) : (
+          suggestions.map((suggestion, index) => {
+            const attacker = units.find(u => u.gridId === suggestion.command.attackerGridId && !u.isDead);
+            const unitData = attacker ? getUnitById(attacker.unitId) : null;
+            const unitName = unitData ? t(unitData.identity.name) : `Unit ${attacker?.unitId}`;
+            const abilityData = getAbilityById(suggestion.command.abilityId);
+            const abilityName = abilityData ? t(abilityData.name) : `Ability ${suggestion.command.abilityId}`;
+            return (
+              <div
+                key={index}
+                onMouseEnter={() => onHover(index)}
+                onMouseLeave={() => onHover(null)}
+                className={cn(
+                  "rounded-md border p-2 space-y-1 transition-colors",
+                  hoveredIndex === index && "border-sky-400 bg-sky-500/10"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-[10px] px-1 py-0">#{index + 1}</Badge>
+                  {unitData && (
+                    <UnitImage iconName={unitData.identity.icon} alt={unitName} className="w-6 h-6 rounded" />
+                  )}
+                  <span className="flex-1 text-xs font-medium truncate">
+                    {unitName} - {abilityName}
+                  </span>
+                  <Button size="sm" variant="outline" className="h-6 px-2" disabled={disabled} onClick={() => onUse(suggestion)}>
+                    <Play className="h-3 w-3 mr-1" />
+                    Use
+                  </Button>
+                </div>
+                <ul className="text-[11px] text-muted-foreground list-disc pl-4">
+                  {suggestion.reasons.map((reason, i) => (
+                    <li key={i}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,194 @@
+import { useMemo, useState } from "react";
+import { Play, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { BattleGrid } from "@/components/battle/BattleGrid";
+import { UnitImage } from "@/components/units/UnitImage";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getNextAvailablePosition } from "@/lib/battleCalculations";
+import { getStatusEffectDisplayName } from "@/lib/statusEffectData";
+import { checkDeployLimits } from "@/lib/unitRestrictions";
+import { getUnitById } from "@/lib/units";
+import { isGridCellOpen } from "@/types/battleSimulator";
+import type { BattleGridShape, PartyUnit } from "@/types/battleSimulator";
+import { ALL_GRID_POSITIONS } from "@/types/encounters";
+import type { LiveBattleUnit, RedeployMove } from "@/types/liveBattle";
+
+interface RedeployPanelProps {
+  // Friendly units at the end of the cleared wave, including the fallen
+  units: LiveBattleUnit[];
+  // Party units that have not been deployed yet
+  reserveUnits: PartyUnit[];
+  unitLimit?: number;
+  gridShape: BattleGridShape;
+  // 1-based number of the wave about to start
+  nextWave: number;
+  onConfirm: (moves: RedeployMove[], reinforcements: PartyUnit[]) => void;
+}
+
+// A unit in the planned formation: a survivor keeps its original position, a reinforcement its reserve slot
+interface PlannedUnit extends PartyUnit {
+  fromGridId?: number;
+  reserveIndex?: number;
+}
+
+export function RedeployPanel({ units, reserveUnits, unitLimit, gridShape, nextWave, onConfirm }: RedeployPanelProps) {
+  const { t } = useLanguage();
+  const survivors = useMemo(() => units.filter(u => !u.isDead), [units]);
+  const fallenCount = units.length - survivors.length;
+
+  const [planned, setPlanned] = useState<PlannedUnit[]>(() =>
+    survivors.map(u => ({ unitId: u.unitId, gridId: u.gridId, rank: u.rank, fromGridId: u.gridId }))
+  );
+
+  const unavailableGridIds = useMemo(
+    () => ALL_GRID_POSITIONS.filter(id => !isGridCellOpen(gridShape, id)),
+    [gridShape]
+  );
+
+  const moveUnit = (fromGridId: number, toGridId: number) => {
+    setPlanned(prev => prev.map(u => {
+      if (u.gridId === fromGridId) return { ...u, gridId: toGridId };
+      if (u.gridId === toGridId) return { ...u, gridId: fromGridId };
+      return u;
+    }));
+  };
+
+  // Only reinforcements can be sent back to the reserve
+  const removeUnit = (gridId: number) => {
+    setPlanned(prev => prev.filter(u => u.gridId !== gridId || u.reserveIndex === undefined));
+  };
+
+  const getDeployError = (reserve: PartyUnit): string | null => {
+    if (unitLimit !== undefined && planned.length >= unitLimit) {
+      return `Unit limit reached: ${planned.length}/${unitLimit}`;
+    }
+    const deployCheck = checkDeployLimits(reserve.unitId, planned);
+    if (!deployCheck.allowed) {
+      const violation = deployCheck.violations[0];
+      return `Deploy limit reached for ${violation.stringId}: ${violation.current}/${violation.limit}`;
+    }
+    return null;
+  };
+
+  const deployReserve = (reserve: PartyUnit, reserveIndex: number) => {
+    const occupied = [...planned.map(u => u.gridId), ...unavailableGridIds];
+    const gridId = isGridCellOpen(gridShape, reserve.gridId) && !occupied.includes(reserve.gridId)
+      ? reserve.gridId
+      : getNextAvailablePosition(getUnitById(reserve.unitId)?.statsConfig?.preferred_row || 1, occupied);
+    if (gridId === null) return;
+    setPlanned(prev => [...prev, { unitId: reserve.unitId, rank: reserve.rank, gridId, reserveIndex }]);
+  };
+
+  const handleConfirm = () => {
+    const moves = planned
+      .filter(u => u.fromGridId !== undefined && u.fromGridId !== u.gridId)
+      .map(u => ({ fromGridId: u.fromGridId!, toGridId: u.gridId }));
+    const reinforcements = planned
+      .filter(u => u.reserveIndex !== undefined)
+      .map(u => ({ unitId: u.unitId, gridId: u.gridId, rank: u.rank }));
+    onConfirm(moves, reinforcements);
+  };
+
+  const totalHpLost = survivors.reduce((sum, u) => sum + (u.maxHp - u.currentHp), 0);
+  const totalArmorLost = survivors.reduce((sum, u) => sum + (u.maxArmor - u.currentArmor), 0);
+
+  return (
+    <Card className="border-2 border-primary/50">
+      <CardHeader>
+        <CardTitle className="text-lg">Prepare for Wave {nextWave}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">
+              Formation ({planned.length}{unitLimit !== undefined ? `/${unitLimit}` : ""} units) - drag to rearrange
+            </div>
+            <BattleGrid
+              isEnemy={false}
+              units={planned}
+              selectedUnit={null}
+              onUnitClick={() => {}}
+              damagePreviews={[]}
+              onMoveUnit={moveUnit}
+              onRemoveUnit={removeUnit}
+              gridShape={gridShape}
+            />
+          </div>
+
+          <div className="space-y-4">
+            {/* Damage carried over into the next wave */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Damage Carried Over</div>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline">HP lost: {totalHpLost}</Badge>
+                <Badge variant="outline">Armor lost: {totalArmorLost}</Badge>
+                <Badge variant={fallenCount > 0 ? "destructive" : "outline"}>Fallen: {fallenCount}</Badge>
+              </div>
+              <div className="space-y-1 max-h-48 overflow-y-auto">
+                {survivors.map(u => {
+                  const unitData = getUnitById(u.unitId);
+                  return (
+                    <div key={u.gridId} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="truncate">{unitData ? t(unitData.identity.name) : `Unit ${u.unitId}`}</span>
+                      <span className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                        <span>HP {u.currentHp}/{u.maxHp}</span>
+                        {u.maxArmor > 0 && <span>Armor {u.currentArmor}/{u.maxArmor}</span>}
+                        {u.activeStatusEffects.map((effect, i) => (
+                          <Badge key={i} variant="secondary" className="text-[10px] px-1 py-0">
+                            {getStatusEffectDisplayName(effect.effectId)} ({effect.remainingDuration})
+                          </Badge>
+                        ))}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Reserve units from the party */}
+            <div className="space-y-2">
+              <div className="text-sm font-medium">Reserves</div>
+              {reserveUnits.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No reserve units left in the party.</p>
+              ) : (
+                <div className="space-y-1">
+                  {reserveUnits.map((reserve, index) => {
+                    const unitData = getUnitById(reserve.unitId);
+                    const unitName = unitData ? t(unitData.identity.name) : `Unit ${reserve.unitId}`;
+                    const isDeployed = planned.some(u => u.reserveIndex === index);
+                    const deployError = isDeployed ? null : getDeployError(reserve);
+                    return (
+                      <div key={index} className="flex items-center gap-2 text-xs">
+                        {unitData && (
+                          <UnitImage iconName={unitData.identity.icon} alt={unitName} className="w-8 h-8 rounded" />
+                        )}
+                        <span className="flex-1 truncate">{unitName} (Rank {reserve.rank})</span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isDeployed || deployError !== null}
+                          title={deployError ?? undefined}
+                          onClick={() => deployReserve(reserve, index)}
+                        >
+                          <Plus className="h-3 w-3 mr-1" />
+                          {isDeployed ? "Deployed" : "Deploy"}
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <Button className="w-full" size="lg" onClick={handleConfirm} disabled={planned.length === 0}>
+          <Play className="h-5 w-5 mr-2" />
+          Start Wave {nextWave}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { Play, Pause, SkipBack, SkipForward, StepBack, StepForward, Swords, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import type { BattleCommand } from "@/lib/battleReducer";
+
+interface ReplayControlsProps {
+  frameIndex: number;
+  frameCount: number;
+  isPlaying: boolean;
+  // Command that produced the current frame (null for the starting position)
+  command: BattleCommand | null;
+  moveCount: number;
+  seed: number;
+  onSeek: (frameIndex: number) => void;
+  onPlayingChange: (isPlaying: boolean) => void;
+  onContinue: () => void;
+  onClose: () => void;
+}
+
+function describeCommand(command: BattleCommand | null): string {
+  if (!command) return "Battle start";
+  switch (command.type) {
+    case "player_attack":
+      return "Player attack";
+    case "skip_turn":
+      return "Player skipped turn";
+    case "enemy_turn":
+      return "Enemy turn";
+    case "advance_wave":
+      return "Next wave";
+    case "start_player_turn":
+      return "Player turn start";
+    case "redeploy":
+      return "Redeployed units";
+  }
+}
+
+export function ReplayControls({
+  frameIndex,
+  frameCount,
+  isPlaying,
+  command,
+  moveCount,
+  seed,
+  onSeek,
+  onPlayingChange,
+  onContinue,
+  onClose,
+}: ReplayControlsProps) {
+  const lastFrame = frameCount - 1;
+
+  return (
+    <Card>
+      <CardHeader className="py-3">
+        <CardTitle className="text-sm flex items-center justify-between">
+          Replay
+          <span className="text-xs font-normal text-muted-foreground">
+            {moveCount} moves · seed {seed}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>{describeCommand(command)}</span>
+          <span>Step {frameIndex} / {lastFrame}</span>
+        </div>
+
+        <Slider
+          value={[frameIndex]}
+          min={0}
+          max={Math.max(0, lastFrame)}
+          step={1}
+          onValueChange={([value]) => onSeek(value)}
+        />
+
+        <div className="flex justify-center gap-1">
+          <Button variant="outline" size="icon" onClick={() => onSeek(0)} disabled={frameIndex === 0} title="First step">
+            <SkipBack className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => onSeek(frameIndex - 1)} disabled={frameIndex === 0} title="Step back">
+            <StepBack className="h-4 w-4" />
+          </Button>
+          <Button size="icon" onClick={() => onPlayingChange(!isPlaying)} title={isPlaying ? "Pause" : "Play"}>
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => onSeek(frameIndex + 1)} disabled={frameIndex >= lastFrame} title="Step forward">
+            <StepForward className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => onSeek(lastFrame)} disabled={frameIndex >= lastFrame} title="Last step">
+            <SkipForward className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Button variant="outline" className="w-full" onClick={onContinue}>
+          <Swords className="h-4 w-4 mr-2" />
+          Play On From Here
+        </Button>
+        <Button variant="ghost" className="w-full" onClick={onClose}>
+          <X className="h-4 w-4 mr-2" />
+          Close Replay
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
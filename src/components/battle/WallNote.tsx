@@ -0,0 +1,30 @@
+import { BrickWall } from "lucide-react";
+import { getWallColumns } from "@/types/battleSimulator";
+import type { BattleGridShape } from "@/types/battleSimulator";
+
+interface WallNoteProps {
+  // The defending side's grid
+  gridShape: BattleGridShape;
+  // Whether the wall protects the enemy (the player is attacking)
+  isEnemy: boolean;
+}
+
+// Explains what the defender wall does, since it can leave a side's contact abilities with no targets
+export function WallNote({ gridShape, isEnemy }: WallNoteProps) {
+  const columns = getWallColumns(gridShape);
+  if (columns.length === 0) return null;
+
+  const attackers = isEnemy ? "your" : "enemy";
+  const defenders = isEnemy ? "enemies" : "your units";
+  return (
+    <p className="flex items-start gap-2 text-xs text-muted-foreground">
+      <BrickWall className="h-4 w-4 shrink-0" />
+      <span>
+        {columns.length === 5
+          ? `A wall covers the whole front, so ${attackers} contact (melee) abilities can't hit ${defenders}.`
+          : `A wall covers ${columns.length} of 5 columns - ${attackers} contact (melee) abilities can't hit ${defenders} behind it.`}
+        {" "}Other lines of fire aren't blocked by the wall.
+      </span>
+    </p>
+  );
+}
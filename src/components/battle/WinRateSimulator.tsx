@@ -0,0 +1,196 @@
+import { useMemo, useState } from "react";
+import { BarChart3, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useBatchSimulation } from "@/hooks/useBatchSimulation";
+import { DEFAULT_MAX_TURNS } from "@/lib/battleMonteCarlo";
+import { PLAYER_POLICIES } from "@/lib/battlePolicies";
+import type { PlayerPolicyId } from "@/lib/battlePolicies";
+import { createBattleContext } from "@/lib/battleReducer";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import { getUnitById } from "@/lib/units";
+import { DEFAULT_BATTLE_LAYOUT, isGridCellOpen } from "@/types/battleSimulator";
+import type { PartyUnit } from "@/types/battleSimulator";
+import type { Encounter, EncounterUnit } from "@/types/encounters";
+
+interface WinRateSimulatorProps {
+  party: PartyUnit[];
+  encounter: Encounter | null | undefined;
+  waves: EncounterUnit[][];
+  // Base seed for the run; a fresh one is generated if omitted
+  seed?: number | null;
+  enemyAi: EnemyAiTypeId;
+}
+
+const MAX_ITERATIONS = 100000;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function WinRateSimulator({ party, encounter, waves, seed, enemyAi }: WinRateSimulatorProps) {
+  const { t } = useLanguage();
+  const [policy, setPolicy] = useState<PlayerPolicyId>("greedy_damage");
+  const [iterationsInput, setIterationsInput] = useState("1000");
+  const { run, cancel, isRunning, progress, result } = useBatchSimulation();
+
+  const context = useMemo(() => createBattleContext(encounter, waves, enemyAi), [encounter, waves, enemyAi]);
+  // Units on cells the battlefield doesn't have would sit every battle out
+  const closedCellCount = party.filter(u => !isGridCellOpen((context.layout ?? DEFAULT_BATTLE_LAYOUT).friendly, u.gridId)).length;
+
+  // Battles run on background workers, so the page stays usable during large runs
+  const handleRun = () => {
+    run({
+      party: party.map(u => ({ ...u })),
+      context,
+      policy,
+      iterations: Math.min(MAX_ITERATIONS, Math.max(1, parseInt(iterationsInput) || 0)),
+      seed: seed ?? undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1.5">
+          <Label className="text-sm">Player Policy</Label>
+          <Select value={policy} onValueChange={(v) => setPolicy(v as PlayerPolicyId)} disabled={isRunning}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PLAYER_POLICIES) as PlayerPolicyId[]).map(id => (
+                <SelectItem key={id} value={id}>
+                  {PLAYER_POLICIES[id].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="sim-iterations" className="text-sm">Battles</Label>
+          <Input
+            id="sim-iterations"
+            type="number"
+            min={1}
+            max={MAX_ITERATIONS}
+            value={iterationsInput}
+            onChange={(e) => setIterationsInput(e.target.value)}
+            disabled={isRunning}
+            className="w-[120px]"
+          />
+        </div>
+
+        {isRunning ? (
+          <Button variant="outline" onClick={cancel}>
+            <Square className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleRun} disabled={party.length === 0 || waves.length === 0 || closedCellCount > 0}>
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Simulate
+          </Button>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {PLAYER_POLICIES[policy].description}. Battles lasting over {DEFAULT_MAX_TURNS} turns count as timeouts.
+      </p>
+      {closedCellCount > 0 && (
+        <p className="text-xs text-destructive">
+          Move the formation's units off the cells this battlefield doesn't have to simulate it.
+        </p>
+      )}
+
+      {progress && (
+        <div className="space-y-1">
+          <Progress value={progress.total > 0 ? (progress.completed / progress.total) * 100 : 0} />
+          <div className="text-xs text-muted-foreground text-right">
+            {progress.completed} / {progress.total} battles
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+            <div>
+              <div className="text-muted-foreground">Win Rate</div>
+              <div className="text-lg font-bold">{formatPercent(result.winRate)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Wins / Losses / Timeouts</div>
+              <div className="text-lg font-bold">{result.wins} / {result.losses} / {result.timeouts}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Avg Turns</div>
+              <div className="text-lg font-bold">
+                {result.avgTurns.toFixed(1)}
+                {result.avgTurnsToWin !== null && (
+                  <span className="text-xs font-normal text-muted-foreground ml-1">
+                    ({result.avgTurnsToWin.toFixed(1)} to win)
+                  </span>
+                )}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Base Seed</div>
+              <div className="text-lg font-bold font-mono">{result.seed}</div>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Unit</TableHead>
+                <TableHead className="text-right">Survival</TableHead>
+                <TableHead className="text-right">Avg Damage Dealt</TableHead>
+                <TableHead className="text-right">Avg Damage Taken</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.units.map(unit => {
+                const unitName = getUnitById(unit.unitId)?.identity.name;
+                return (
+                  <TableRow key={unit.gridId}>
+                    <TableCell>
+                      {unitName ? t(unitName) : `Unit ${unit.unitId}`}
+                      <span className="text-xs text-muted-foreground ml-1">(Rank {unit.rank})</span>
+                    </TableCell>
+                    <TableCell className="text-right">{formatPercent(unit.survivalRate)}</TableCell>
+                    <TableCell className="text-right">{unit.avgDamageDealt.toFixed(0)}</TableCell>
+                    <TableCell className="text-right">{unit.avgDamageTaken.toFixed(0)}</TableCell>
+                  </TableRow>
+                );
+              })}
+              <TableRow className="font-medium">
+                <TableCell>Party Total</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{result.avgDamageDealt.toFixed(0)}</TableCell>
+                <TableCell className="text-right">{result.avgDamageTaken.toFixed(0)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,86 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Search, ChevronDown, Archive, Sparkles } from "lucide-react";
 import { BossStrikeViewer } from "./BossStrikeViewer";
+import { EncounterViewer } from "@/components/encounters/EncounterViewer";
 import { getBossStrikeById, getAllCurrentBossStrikeIds, getAllArchivedBossStrikeIds, getBossStrikeName } from "@/lib/bossStrikes";
+import { BOSS_STRIKE_SEARCH_MODES, searchBossStrikes } from "@/lib/bossStrikeSearch";
+import type { BossStrikeQuery, BossStrikeSearchMode } from "@/lib/bossStrikeSearch";
+import { getDamageTypeName } from "@/lib/damageImages";
+import { getEncounterById } from "@/lib/encounters";
+import { getAllStatusEffectFamilies, getStatusEffectDisplayName } from "@/lib/statusEffectData";
+import { allUnits } from "@/lib/units";
+import { DAMAGE_TYPE_MAP } from "@/types/battleSimulator";
 import { getBossStrikeBackgroundById, getBossStrikeNameById } from "@/lib/bossStrikeImages";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { cn } from "@/lib/utils";
 
-export function BossStrikeLookup() {
+// Matched encounters shown per search result before the rest are collapsed into a count
+const MAX_ENCOUNTER_CHIPS = 12;
+
+interface SelectedSearchEncounter {
+  encounterId: number;
+  bossStrikeId: string;
+  archived: boolean;
+}
+
+interface BossStrikeLookupProps {
+  // Boss strike to open, e.g. from a link
+  initialBossStrikeId?: string | null;
+  initialArchived?: boolean;
+}
+
+export function BossStrikeLookup({ initialBossStrikeId, initialArchived = false }: BossStrikeLookupProps) {
   const { t } = useLanguage();
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedBossStrikeId, setSelectedBossStrikeId] = useState<string | null>(null);
-  const [selectedIsArchived, setSelectedIsArchived] = useState(false);
-  const [isGridOpen, setIsGridOpen] = useState(true);
-  const [activeTab, setActiveTab] = useState<"current" | "archived">("current");
+  const [selectedBossStrikeId, setSelectedBossStrikeId] = useState<string | null>(initialBossStrikeId ?? null);
+  const [selectedIsArchived, setSelectedIsArchived] = useState(initialArchived);
+  const [isGridOpen, setIsGridOpen] = useState(!initialBossStrikeId);
+  const [activeTab, setActiveTab] = useState<"current" | "archived">(initialArchived ? "archived" : "current");
+  const [searchMode, setSearchMode] = useState<BossStrikeSearchMode>("name");
+  // "damage:<type>" or "status:<family>"
+  const [immunityValue, setImmunityValue] = useState<string>("");
+  const [selectedSearchEncounter, setSelectedSearchEncounter] = useState<SelectedSearchEncounter | null>(null);
+
+  const immunityOptions = useMemo(() => [
+    ...Object.keys(DAMAGE_TYPE_MAP).map(type => ({ value: `damage:${type}`, label: `${getDamageTypeName(Number(type))} damage` })),
+    ...getAllStatusEffectFamilies().map(({ id }) => ({ value: `status:${id}`, label: `${getStatusEffectDisplayName(id)} status` })),
+  ], []);
+
+  const searchResults = useMemo(() => {
+    if (searchMode === "name") return null;
+    const text = searchQuery.trim();
+    // Unit IDs typed directly, or every unit whose name contains the text
+    const resolveUnitIds = (): number[] => {
+      if (/^\d+$/.test(text)) return [parseInt(text)];
+      if (text.length < 2) return [];
+      return allUnits.filter(unit => t(unit.identity.name).toLowerCase().includes(text.toLowerCase())).map(unit => unit.id);
+    };
+    let query: BossStrikeQuery | null = null;
+    if (searchMode === "immunity") {
+      const [kind, id] = immunityValue.split(":");
+      if (kind === "damage" || kind === "status") query = { mode: "immunity", immunity: { kind, id: parseInt(id) } };
+    } else if (searchMode === "encounter") {
+      const encounterIds = text.split(/[\s,]+/).filter(id => /^\d+$/.test(id)).map(id => parseInt(id));
+      if (encounterIds.length > 0) query = { mode: "encounter", encounterIds };
+    } else if (text) {
+      const unitIds = resolveUnitIds();
+      if (unitIds.length > 0) query = { mode: searchMode, unitIds };
+      else return [];
+    }
+    return query ? searchBossStrikes(query) : null;
+  }, [searchMode, searchQuery, immunityValue, t]);
 
   const currentBossStrikes = useMemo(() => {
     const ids = getAllCurrentBossStrikeIds();
@@ -38,7 +101,7 @@ export function BossStrikeLookup() {
   }, []);
   
   const filteredCurrentBossStrikes = useMemo(() => {
-    if (!searchQuery) return currentBossStrikes;
+    if (!searchQuery || searchMode !== "name") return currentBossStrikes;
     const query = searchQuery.toLowerCase();
     return currentBossStrikes.filter(bs => {
       const idMatch = bs.id.includes(query);
@@ -47,10 +110,10 @@ export function BossStrikeLookup() {
       const mappedMatch = mappedName && mappedName.toLowerCase().includes(query);
       return idMatch || nameMatch || mappedMatch;
     });
-  }, [searchQuery, currentBossStrikes, t]);
+  }, [searchQuery, searchMode, currentBossStrikes, t]);
 
   const filteredArchivedBossStrikes = useMemo(() => {
-    if (!searchQuery) return archivedBossStrikes;
+    if (!searchQuery || searchMode !== "name") return archivedBossStrikes;
     const query = searchQuery.toLowerCase();
     return archivedBossStrikes.filter(bs => {
       const idMatch = bs.id.includes(query);
@@ -59,18 +122,30 @@ export function BossStrikeLookup() {
       const mappedMatch = mappedName && mappedName.toLowerCase().includes(query);
       return idMatch || nameMatch || mappedMatch;
     });
-  }, [searchQuery, archivedBossStrikes, t]);
+  }, [searchQuery, searchMode, archivedBossStrikes, t]);
 
   const selectedBossStrike = selectedBossStrikeId 
     ? getBossStrikeById(selectedBossStrikeId, selectedIsArchived) 
     : null;
 
+  const searchEncounter = selectedSearchEncounter ? getEncounterById(selectedSearchEncounter.encounterId) : null;
+
   const handleSelectBossStrike = (id: string, archived: boolean) => {
+    setSelectedSearchEncounter(null);
     setSelectedBossStrikeId(id);
     setSelectedIsArchived(archived);
     setIsGridOpen(false);
   };
 
+  useEffect(() => {
+    if (!initialBossStrikeId) return;
+    setSelectedSearchEncounter(null);
+    setSelectedBossStrikeId(initialBossStrikeId);
+    setSelectedIsArchived(initialArchived);
+    setActiveTab(initialArchived ? "archived" : "current");
+    setIsGridOpen(false);
+  }, [initialBossStrikeId, initialArchived]);
+
   const getBackgroundImage = (id: string, archived: boolean): string | undefined => {
     return getBossStrikeBackgroundById(id, archived) || undefined;
   };
@@ -143,18 +218,110 @@ export function BossStrikeLookup() {
 
   return (
     <div className="space-y-6">
-      <div className="flex gap-2 max-w-md">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search by ID or name..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9"
-          />
-        </div>
+      <div className="flex flex-wrap gap-2 max-w-2xl">
+        <Select value={searchMode} onValueChange={(v) => setSearchMode(v as BossStrikeSearchMode)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(BOSS_STRIKE_SEARCH_MODES) as BossStrikeSearchMode[]).map(mode => (
+              <SelectItem key={mode} value={mode}>
+                {BOSS_STRIKE_SEARCH_MODES[mode].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {searchMode === "immunity" ? (
+          <Select value={immunityValue} onValueChange={setImmunityValue}>
+            <SelectTrigger className="flex-1 min-w-[200px]">
+              <SelectValue placeholder="Choose an immunity" />
+            </SelectTrigger>
+            <SelectContent>
+              {immunityOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder={BOSS_STRIKE_SEARCH_MODES[searchMode].placeholder}
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+        )}
       </div>
 
+      {searchResults && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {searchResults.length} {searchResults.length === 1 ? "event" : "events"} across current and archived boss strikes
+          </p>
+          {searchResults.map(result => {
+            const isSelected = selectedBossStrikeId === result.bossStrikeId && selectedIsArchived === result.archived;
+            return (
+              <Card
+                key={`${result.archived ? 'archived' : 'current'}-${result.bossStrikeId}`}
+                className={cn("transition-all", isSelected && "ring-2 ring-primary")}
+              >
+                <CardContent className="p-3 space-y-2">
+                  <button
+                    className="flex items-center gap-2 text-left hover:text-primary transition-colors"
+                    onClick={() => handleSelectBossStrike(result.bossStrikeId, result.archived)}
+                  >
+                    <span className="text-sm font-medium">
+                      {getDisplayName(result.name, result.bossStrikeId, result.archived)}
+                    </span>
+                    <Badge variant="secondary" className="text-xs">#{result.bossStrikeId}</Badge>
+                    <Badge variant="outline" className="text-xs gap-1">
+                      {result.archived ? <Archive className="h-3 w-3" /> : <Sparkles className="h-3 w-3" />}
+                      {result.archived ? "Archived" : "Current"}
+                    </Badge>
+                  </button>
+                  {result.encounterIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                      {result.encounterIds.slice(0, MAX_ENCOUNTER_CHIPS).map(encounterId => {
+                        const isEncounterSelected = selectedSearchEncounter?.encounterId === encounterId
+                          && selectedSearchEncounter.bossStrikeId === result.bossStrikeId
+                          && selectedSearchEncounter.archived === result.archived;
+                        return (
+                          <Badge
+                            key={encounterId}
+                            variant={isEncounterSelected ? "default" : "outline"}
+                            className="cursor-pointer text-xs hover:bg-primary/20 transition-colors"
+                            onClick={() => setSelectedSearchEncounter({ encounterId, bossStrikeId: result.bossStrikeId, archived: result.archived })}
+                          >
+                            Encounter {encounterId}
+                          </Badge>
+                        );
+                      })}
+                      {result.encounterIds.length > MAX_ENCOUNTER_CHIPS && (
+                        <span className="text-xs text-muted-foreground self-center">
+                          +{result.encounterIds.length - MAX_ENCOUNTER_CHIPS} more
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedSearchEncounter && searchEncounter && (
+        <EncounterViewer
+          encounter={searchEncounter}
+          encounterId={selectedSearchEncounter.encounterId}
+          bossStrike={getBossStrikeById(selectedSearchEncounter.bossStrikeId, selectedSearchEncounter.archived)}
+        />
+      )}
+
       <Collapsible open={isGridOpen} onOpenChange={setIsGridOpen}>
         <CollapsibleTrigger className="flex items-center gap-2 text-sm font-medium hover:text-primary transition-colors">
           <ChevronDown className={cn("h-4 w-4 transition-transform", isGridOpen && "rotate-180")} />
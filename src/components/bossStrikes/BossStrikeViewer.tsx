@@ -5,11 +5,14 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { EncounterViewer } from "@/components/encounters/EncounterViewer";
 import { getEncounterById, getEncounterWaves } from "@/lib/encounters";
-import { formatRewards, getBossStrikeName } from "@/lib/bossStrikes";
+import { formatRewards, getBossStrikeName, getGuildWeight, planBossStrike } from "@/lib/bossStrikes";
+import type { FormattedReward } from "@/lib/bossStrikes";
 import { getUnitById } from "@/lib/units";
-import { getEventRewardIconUrl, getEncounterIconUrl } from "@/lib/resourceImages";
+import { getEventRewardIconUrl, getEncounterIconUrl, getResourceIconUrl } from "@/lib/resourceImages";
 import { getBossStrikeBackgroundById, getBossStrikeNameById } from "@/lib/bossStrikeImages";
 import { useLanguage } from "@/contexts/LanguageContext";
 import type { BossStrike, TierInfo } from "@/types/bossStrike";
@@ -68,6 +71,7 @@ export function BossStrikeViewer({ bossStrike, bossStrikeId }: BossStrikeViewerP
           <TabsTrigger value="tiers">Tier Rewards</TabsTrigger>
           <TabsTrigger value="encounters">Encounters</TabsTrigger>
           <TabsTrigger value="guild">Guild Weights</TabsTrigger>
+          <TabsTrigger value="planner">Planner</TabsTrigger>
         </TabsList>
 
         <TabsContent value="tiers" className="mt-4">
@@ -105,6 +109,10 @@ export function BossStrikeViewer({ bossStrike, bossStrikeId }: BossStrikeViewerP
         <TabsContent value="guild" className="mt-4">
           <GuildWeightsSection guildWeights={bossStrike.guild_weights} />
         </TabsContent>
+
+        <TabsContent value="planner" className="mt-4">
+          <PlannerSection bossStrike={bossStrike} backPath={backPath} backLabel={backLabel} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -151,7 +159,7 @@ function TierRewardsSection({ tierInfo, backPath, backLabel }: { tierInfo?: Tier
   );
 }
 
-function RewardItem({ reward, t, backPath, backLabel }: { reward: { type: string; key: string; amount: number }; t: (key: string) => string; backPath: string; backLabel: string }) {
+function RewardItem({ reward, t, backPath, backLabel }: { reward: FormattedReward; t: (key: string) => string; backPath: string; backLabel: string }) {
   if (reward.type === "unit") {
     const unit = getUnitById(parseInt(reward.key));
     const unitName = unit?.identity?.name ? t(unit.identity.name) : `Unit ${reward.key}`;
@@ -397,4 +405,120 @@ function GuildWeightsSection({ guildWeights }: { guildWeights?: BossStrike["guil
   );
 }
 
+const DEFAULT_GUILD_SIZE = 50;
+
+function ResourceCost({ cost }: { cost: Record<string, number> }) {
+  const entries = Object.entries(cost);
+  if (entries.length === 0) return <span className="text-muted-foreground">-</span>;
+  return (
+    <div className="flex flex-wrap justify-end gap-x-3 gap-y-1">
+      {entries.map(([resource, amount]) => (
+        <span key={resource} className="flex items-center gap-1" title={resource}>
+          <img
+            src={getResourceIconUrl(resource)}
+            alt=""
+            className="h-4 w-4 object-contain"
+            onError={(e) => (e.currentTarget.style.display = 'none')}
+          />
+          {Number.isFinite(amount) ? amount.toLocaleString() : "-"}
+          <span className="capitalize text-muted-foreground">{resource}</span>
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function PlannerSection({ bossStrike, backPath, backLabel }: { bossStrike: BossStrike; backPath: string; backLabel: string }) {
+  const { t } = useLanguage();
+  const [guildSizeInput, setGuildSizeInput] = useState(String(DEFAULT_GUILD_SIZE));
+  const [participantsInput, setParticipantsInput] = useState(String(DEFAULT_GUILD_SIZE));
+
+  const guildSize = Math.max(1, parseInt(guildSizeInput) || 0);
+  const participants = Math.min(guildSize, Math.max(1, parseInt(participantsInput) || 0));
+  const plans = useMemo(() => planBossStrike(bossStrike, guildSize, participants), [bossStrike, guildSize, participants]);
+  const unreachable = <span className="text-muted-foreground">-</span>;
+
+  if (plans.length === 0) {
+    return <p className="text-muted-foreground">No tier information available</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <CardTitle className="text-base">Point and Resource Planner</CardTitle>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="planner-guild-size" className="text-sm">Guild Size</Label>
+            <Input
+              id="planner-guild-size"
+              type="number"
+              min={1}
+              value={guildSizeInput}
+              onChange={(e) => setGuildSizeInput(e.target.value)}
+              className="w-[120px]"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="planner-participants" className="text-sm">Members Taking Part</Label>
+            <Input
+              id="planner-participants"
+              type="number"
+              min={1}
+              max={guildSize}
+              value={participantsInput}
+              onChange={(e) => setParticipantsInput(e.target.value)}
+              className="w-[120px]"
+            />
+          </div>
+          <Badge variant="outline" className="mb-2">Guild weight {getGuildWeight(bossStrike, guildSize)}%</Badge>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Each clear awards the tier's progress points, scaled by the guild weight, and costs its resources.
+          Tiers whose clears award no points can't be reached by clearing encounters.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tier</TableHead>
+              <TableHead className="text-right">Points</TableHead>
+              <TableHead className="text-right">Clears</TableHead>
+              <TableHead className="text-right">Per Member</TableHead>
+              <TableHead className="text-right">Cost</TableHead>
+              <TableHead className="text-right">Total Cost</TableHead>
+              <TableHead>Rewards So Far</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {plans.map(plan => (
+              <TableRow key={plan.tier} className="align-top">
+                <TableCell className="font-medium">{plan.tier}</TableCell>
+                <TableCell className="text-right">
+                  {plan.requiredPoints.toLocaleString()}
+                  <div className="text-xs text-muted-foreground">{plan.pointsPerClear.toLocaleString()} per clear</div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {plan.reachable ? plan.clears.toLocaleString() : unreachable}
+                  {plan.reachable && (
+                    <div className="text-xs text-muted-foreground">{plan.cumulativeClears.toLocaleString()} total</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{plan.reachable ? plan.clearsPerMember.toLocaleString() : unreachable}</TableCell>
+                <TableCell className="text-right"><ResourceCost cost={plan.cost} /></TableCell>
+                <TableCell className="text-right">{plan.reachable ? <ResourceCost cost={plan.cumulativeCost} /> : unreachable}</TableCell>
+                <TableCell className="min-w-[180px] space-y-1">
+                  {plan.cumulativeRewards.map(reward => (
+                    <RewardItem key={`${reward.type}:${reward.key}`} reward={reward} t={t} backPath={backPath} backLabel={backLabel} />
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
 export { bsPointsIcon };
@@ -3,21 +3,48 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, ArrowUpDown, ArrowUp, ArrowDown } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { EncounterViewer } from "./EncounterViewer";
 import { getEncounterById, getAllEncounterIds, getEncounterWaves } from "@/lib/encounters";
+import { getEncounterDifficulty, getDifficultyThresholds, getDifficultyTier, DIFFICULTY_TIERS } from "@/lib/encounterDifficulty";
+import type { DifficultyTier, EncounterDifficulty } from "@/lib/encounterDifficulty";
 import { getEncounterIconUrl } from "@/lib/resourceImages";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useLanguage } from "@/contexts/LanguageContext";
 
 const ITEMS_PER_PAGE = 50;
 
-export function EncounterLookup() {
+type SortOrder = "id" | "difficulty_desc" | "difficulty_asc";
+
+function describeDifficulty(difficulty: EncounterDifficulty): string {
+  return [
+    `${difficulty.enemies} enemies over ${difficulty.waves} wave${difficulty.waves === 1 ? "" : "s"}`,
+    `HP ${difficulty.totalHp}, armor ${difficulty.totalArmor}`,
+    `Damage potential ${difficulty.damagePotential} (${difficulty.damageTypes} damage types)`,
+    `Immunities ${difficulty.immunities}, blockers ${difficulty.blockers}`,
+  ].join("\n");
+}
+
+interface EncounterLookupProps {
+  // Encounter to open, e.g. from a link
+  initialEncounterId?: string | null;
+}
+
+export function EncounterLookup({ initialEncounterId }: EncounterLookupProps) {
   const { t } = useLanguage();
   const [searchQuery, setSearchQuery] = useState("");
-  const [selectedEncounterId, setSelectedEncounterId] = useState<string | null>(null);
+  const [selectedEncounterId, setSelectedEncounterId] = useState<string | null>(initialEncounterId ?? null);
   const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+  const [sortOrder, setSortOrder] = useState<SortOrder>("id");
+  const [tierFilter, setTierFilter] = useState<DifficultyTier | "all">("all");
   const scrollRef = useRef<HTMLDivElement>(null);
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
@@ -25,25 +52,55 @@ export function EncounterLookup() {
     const ids = getAllEncounterIds();
     return ids.map(id => {
       const encounter = getEncounterById(id);
-      return { id, encounter };
+      const difficulty = encounter ? getEncounterDifficulty(encounter) : null;
+      return { id, encounter, difficulty };
     });
   }, []);
+
+  // Tiers split all rated encounters into quarters
+  const difficultyThresholds = useMemo(
+    () => getDifficultyThresholds(allEncounters.flatMap(({ difficulty }) => difficulty ? [difficulty.score] : [])),
+    [allEncounters]
+  );
   
   const filteredEncounters = useMemo(() => {
-    if (!searchQuery) return allEncounters;
-    
-    const query = searchQuery.toLowerCase();
-    return allEncounters.filter(({ id, encounter }) => {
-      const idMatch = id.includes(query);
-      const nameMatch = encounter?.name && t(encounter.name).toLowerCase().includes(query);
-      return idMatch || nameMatch;
-    });
-  }, [searchQuery, allEncounters, t]);
+    let encounters = allEncounters;
+
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      encounters = encounters.filter(({ id, encounter }) => {
+        const idMatch = id.includes(query);
+        const nameMatch = encounter?.name && t(encounter.name).toLowerCase().includes(query);
+        return idMatch || nameMatch;
+      });
+    }
+
+    if (tierFilter !== "all") {
+      encounters = encounters.filter(({ difficulty }) =>
+        difficulty && getDifficultyTier(difficulty.score, difficultyThresholds) === tierFilter
+      );
+    }
+
+    // Unrated encounters sort last either way
+    if (sortOrder !== "id") {
+      const direction = sortOrder === "difficulty_desc" ? -1 : 1;
+      encounters = [...encounters].sort((a, b) => {
+        if (!a.difficulty || !b.difficulty) return (a.difficulty ? 0 : 1) - (b.difficulty ? 0 : 1);
+        return direction * (a.difficulty.score - b.difficulty.score);
+      });
+    }
+
+    return encounters;
+  }, [searchQuery, tierFilter, sortOrder, allEncounters, difficultyThresholds, t]);
 
-  // Reset visible count when search changes
+  useEffect(() => {
+    if (initialEncounterId) setSelectedEncounterId(initialEncounterId);
+  }, [initialEncounterId]);
+
+  // Reset visible count when search, filter or sort changes
   useEffect(() => {
     setVisibleCount(ITEMS_PER_PAGE);
-  }, [searchQuery]);
+  }, [searchQuery, tierFilter, sortOrder]);
 
   const visibleEncounters = useMemo(() => {
     return filteredEncounters.slice(0, visibleCount);
@@ -71,6 +128,13 @@ export function EncounterLookup() {
 
   const selectedEncounter = selectedEncounterId ? getEncounterById(selectedEncounterId) : null;
 
+  // Clicking the difficulty column cycles hardest first -> easiest first -> by ID
+  const toggleDifficultySort = () => {
+    setSortOrder(prev => prev === "id" ? "difficulty_desc" : prev === "difficulty_desc" ? "difficulty_asc" : "id");
+  };
+
+  const SortIcon = sortOrder === "difficulty_desc" ? ArrowDown : sortOrder === "difficulty_asc" ? ArrowUp : ArrowUpDown;
+
   const handleSearch = () => {
     if (searchQuery && getEncounterById(searchQuery)) {
       setSelectedEncounterId(searchQuery);
@@ -91,14 +155,40 @@ export function EncounterLookup() {
               onChange={(e) => setSearchQuery(e.target.value)}
               onKeyDown={(e) => e.key === "Enter" && handleSearch()}
             />
+            <Select value={tierFilter} onValueChange={(v) => setTierFilter(v as DifficultyTier | "all")}>
+              <SelectTrigger className="w-[140px] shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All difficulties</SelectItem>
+                {(Object.keys(DIFFICULTY_TIERS) as DifficultyTier[]).map(tier => (
+                  <SelectItem key={tier} value={tier}>
+                    {DIFFICULTY_TIERS[tier].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button onClick={handleSearch}>
               <Search className="h-4 w-4" />
             </Button>
           </div>
+
+          <div className="flex items-center justify-between px-2 text-xs font-medium text-muted-foreground">
+            <span>Encounter</span>
+            <button
+              type="button"
+              className="flex items-center gap-1 hover:text-foreground transition-colors"
+              onClick={toggleDifficultySort}
+              title="Sort by difficulty"
+            >
+              Difficulty
+              <SortIcon className="h-3 w-3" />
+            </button>
+          </div>
           
           <ScrollArea className="h-[400px] border rounded-md" ref={scrollRef}>
             <div className="p-2 space-y-1">
-              {visibleEncounters.map(({ id, encounter }) => {
+              {visibleEncounters.map(({ id, encounter, difficulty }) => {
                 const encounterName = encounter?.name ? t(encounter.name) : null;
                 const displayName = encounterName && encounterName !== encounter?.name ? encounterName : null;
                 const encounterIcon = encounter?.icon;
@@ -133,6 +223,15 @@ export function EncounterLookup() {
                         )}
                       </div>
                     </div>
+                    {difficulty && (
+                      <Badge
+                        variant="outline"
+                        className={cn("text-xs shrink-0", DIFFICULTY_TIERS[getDifficultyTier(difficulty.score, difficultyThresholds)].className)}
+                        title={describeDifficulty(difficulty)}
+                      >
+                        {difficulty.score}
+                      </Badge>
+                    )}
                   </div>
                 );
               })}
@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Swords } from "lucide-react";
 import { EncounterGrid } from "./EncounterGrid";
+import { RecommendedCounters } from "./RecommendedCounters";
 import { getEncounterWaves } from "@/lib/encounters";
 import type { Encounter } from "@/types/encounters";
 import type { BossStrike } from "@/types/bossStrike";
@@ -103,6 +104,12 @@ export function EncounterViewer({ encounter, encounterId, bossStrike, backPath,
             ))}
           </Tabs>
         )}
+
+        {waves.length > 0 && (
+          <div className="border-t mt-4 pt-4">
+            <RecommendedCounters encounter={encounter} backPath={backPath} backLabel={backLabel} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
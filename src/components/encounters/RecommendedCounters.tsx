@@ -0,0 +1,64 @@
+import { useMemo } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { UnitImage } from "@/components/units/UnitImage";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { getAbilityById } from "@/lib/abilities";
+import { getCounterPicks } from "@/lib/counterPicks";
+import { getUnitById } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type { Encounter } from "@/types/encounters";
+
+interface RecommendedCountersProps {
+  encounter: Encounter;
+  backPath?: string;
+  backLabel?: string;
+}
+
+export function RecommendedCounters({ encounter, backPath, backLabel }: RecommendedCountersProps) {
+  const { t } = useLanguage();
+  const location = useLocation();
+  const picks = useMemo(() => getCounterPicks(encounter), [encounter]);
+
+  if (picks.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">Recommended Counters</h3>
+      <div className="space-y-1">
+        {picks.map(pick => {
+          const unitData = getUnitById(pick.unitId);
+          const unitName = unitData ? t(unitData.identity.name) : `Unit ${pick.unitId}`;
+          const abilityData = getAbilityById(pick.abilityId);
+          const abilityName = abilityData ? t(abilityData.name) : `Ability ${pick.abilityId}`;
+          return (
+            <Link
+              key={pick.unitId}
+              to={`/unit/${pick.unitId}`}
+              state={{ from: backPath || location.pathname, fromLabel: backLabel || "Back" }}
+              className="flex items-start gap-3 p-2 rounded-md hover:bg-muted transition-colors"
+            >
+              {unitData && (
+                <UnitImage iconName={unitData.identity.icon} alt={unitName} className="w-10 h-10 rounded shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{unitName}</span>
+                  <span className="text-xs text-muted-foreground truncate">{abilityName}</span>
+                  <Badge
+                    variant="outline"
+                    className={cn("ml-auto text-xs shrink-0", pick.effectiveness > 1 && "border-green-500/50 text-green-600 dark:text-green-400")}
+                    title="Average damage multiplier over all enemies, counting enemies it can't hit as 0"
+                  >
+                    ×{pick.effectiveness.toFixed(2)}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{pick.reasons.join(", ")}</p>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useCompare } from "@/contexts/CompareContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { X, GitCompare } from "lucide-react";
 import { Link } from "react-router-dom";
+import { getComparePath, getMaxRank } from "@/lib/unitComparison";
 
 export function CompareBar() {
   const { compareUnits, removeFromCompare, clearCompare } = useCompare();
@@ -40,10 +41,10 @@ export function CompareBar() {
           <Button
             asChild
             size="sm"
-            disabled={compareUnits.length !== 2}
+            disabled={compareUnits.length < 2}
             className="gap-2"
           >
-            <Link to={`/compare/${compareUnits[0]?.id}/${compareUnits[1]?.id}`}>
+            <Link to={getComparePath(compareUnits.map(unit => ({ unitId: unit.id, rank: getMaxRank(unit) })))}>
               <GitCompare className="h-4 w-4" />
               Compare
             </Link>
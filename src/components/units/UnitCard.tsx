@@ -6,6 +6,7 @@ import { useCompare } from "@/contexts/CompareContext";
 import { UnitImage } from "./UnitImage";
 import { getClassDisplayName } from "@/lib/battleConfig";
 import { statIcons } from "@/lib/statIcons";
+import { MAX_COMPARE_UNITS } from "@/lib/unitComparison";
 import type { ParsedUnit } from "@/types/units";
 import { Plus, Check } from "lucide-react";
 import { Link } from "react-router-dom";
@@ -25,7 +26,7 @@ export function UnitCard({ unit }: UnitCardProps) {
   const stats = maxRank > 0 ? allStats[maxRank - 1] : undefined;
   
   const inCompare = isInCompare(unit.id);
-  const canAddToCompare = compareUnits.length < 2;
+  const canAddToCompare = compareUnits.length < MAX_COMPARE_UNITS;
   
   // Check if unit costs nanopods
   const isNanopodUnit = unit.requirements?.cost?.nanopods && unit.requirements.cost.nanopods > 0;
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, ReactNode } from "react";
 import type { ParsedUnit } from "@/types/units";
+import { MAX_COMPARE_UNITS } from "@/lib/unitComparison";
 
 interface CompareContextType {
   compareUnits: ParsedUnit[];
@@ -15,7 +16,7 @@ export function CompareProvider({ children }: { children: ReactNode }) {
   const [compareUnits, setCompareUnits] = useState<ParsedUnit[]>([]);
 
   const addToCompare = (unit: ParsedUnit) => {
-    if (compareUnits.length < 2 && !compareUnits.find((u) => u.id === unit.id)) {
+    if (compareUnits.length < MAX_COMPARE_UNITS && !compareUnits.find((u) => u.id === unit.id)) {
       setCompareUnits([...compareUnits, unit]);
     }
   };
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, Fragment, ReactNode } from "react";
+import { GameDataContext } from "@/hooks/useGameData";
+import { setGameData } from "@/lib/gameData";
+import {
+  BUNDLED_VERSION,
+  BUNDLED_VERSION_ID,
+  deleteDataVersion,
+  getActiveVersionId,
+  importDataVersion,
+  listDataVersions,
+  loadDataVersion,
+  setActiveVersionId,
+} from "@/lib/gameDataVersions";
+import type { GameDataSnapshot, GameDataVersion } from "@/lib/gameDataVersions";
+import { setGameText } from "@/lib/localization";
+import { toast } from "sonner";
+
+function applySnapshot(snapshot: GameDataSnapshot | null) {
+  setGameData(snapshot?.data ?? null);
+  setGameText(snapshot?.text ?? null);
+}
+
+// Loads the remembered data version before rendering, and remounts everything below it whenever
+// the version changes so no page keeps showing data from the previous one
+export function GameDataProvider({ children }: { children: ReactNode }) {
+  const [importedVersions, setImportedVersions] = useState<GameDataVersion[]>([]);
+  const [activeVersionId, setActiveVersionIdState] = useState(BUNDLED_VERSION_ID);
+  const [isReady, setIsReady] = useState(false);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        setImportedVersions(await listDataVersions());
+        const storedId = getActiveVersionId();
+        if (storedId !== BUNDLED_VERSION_ID) {
+          const snapshot = await loadDataVersion(storedId);
+          if (snapshot) {
+            applySnapshot(snapshot);
+            setActiveVersionIdState(storedId);
+          } else {
+            setActiveVersionId(BUNDLED_VERSION_ID);
+          }
+        }
+      } catch (err) {
+        console.error("Failed to load data versions:", err);
+      } finally {
+        setIsReady(true);
+      }
+    };
+    init();
+  }, []);
+
+  const setActiveVersion = useCallback(async (id: string) => {
+    setIsSwitching(true);
+    try {
+      const snapshot = id === BUNDLED_VERSION_ID ? null : await loadDataVersion(id);
+      if (id !== BUNDLED_VERSION_ID && !snapshot) {
+        toast.error("That data version no longer exists");
+        return;
+      }
+      applySnapshot(snapshot);
+      setActiveVersionId(id);
+      setActiveVersionIdState(id);
+      setRevision(r => r + 1);
+    } catch (err) {
+      console.error("Failed to load data version:", err);
+      toast.error("Failed to load data version");
+    } finally {
+      setIsSwitching(false);
+    }
+  }, []);
+
+  const importVersion = useCallback(async (name: string, files: File[]) => {
+    const result = await importDataVersion(name, files);
+    const imported = result.version;
+    if (imported) setImportedVersions(prev => [...prev, imported]);
+    return result;
+  }, []);
+
+  const deleteVersion = useCallback(async (id: string) => {
+    try {
+      await deleteDataVersion(id);
+      setImportedVersions(prev => prev.filter(v => v.id !== id));
+      if (id === activeVersionId) await setActiveVersion(BUNDLED_VERSION_ID);
+    } catch (err) {
+      console.error("Failed to delete data version:", err);
+      toast.error("Failed to delete data version");
+    }
+  }, [activeVersionId, setActiveVersion]);
+
+  const versions = [BUNDLED_VERSION, ...importedVersions];
+  const activeVersion = versions.find(v => v.id === activeVersionId) ?? BUNDLED_VERSION;
+
+  return (
+    <GameDataContext.Provider value={{ versions, activeVersion, isSwitching, setActiveVersion, importVersion, deleteVersion }}>
+      {isReady ? (
+        <Fragment key={revision}>{children}</Fragment>
+      ) : (
+        <div className="min-h-screen flex items-center justify-center text-muted-foreground">
+          Loading game data...
+        </div>
+      )}
+    </GameDataContext.Provider>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { createSimulationPool } from "@/lib/battleSimulationPool";
+import type { BatchSimulationJob, BatchSimulationRun, SimulationPool } from "@/lib/battleSimulationPool";
+import { aggregateOutcomes } from "@/lib/battleMonteCarlo";
+import type { BattleOutcome, MonteCarloResult } from "@/lib/battleMonteCarlo";
+import { generateSeed, normalizeSeed } from "@/lib/battleRng";
+import { toast } from "sonner";
+
+// Minimum time between live result updates while a batch is running
+const PARTIAL_RESULT_INTERVAL_MS = 250;
+
+export interface BatchSimulationProgress {
+  completed: number;
+  total: number;
+}
+
+// Run batch battle simulations on a worker pool owned by the calling component
+export function useBatchSimulation() {
+  const poolRef = useRef<SimulationPool | null>(null);
+  const runRef = useRef<BatchSimulationRun | null>(null);
+  const [progress, setProgress] = useState<BatchSimulationProgress | null>(null);
+  // Live aggregate over the battles finished so far, replaced by the final result when done
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+
+  const isRunning = progress !== null;
+
+  // Workers are only spawned on the first run, and shut down with the component
+  useEffect(() => () => {
+    poolRef.current?.terminate();
+    poolRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    runRef.current?.cancel();
+    runRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(async (options: BatchSimulationJob): Promise<MonteCarloResult | null> => {
+    runRef.current?.cancel();
+    if (!poolRef.current) poolRef.current = createSimulationPool();
+
+    // Fix the seed up front so live results report the same base seed as the final one
+    const job = { ...options, seed: normalizeSeed(options.seed ?? generateSeed()) };
+
+    const outcomes: BattleOutcome[] = [];
+    let lastPartialUpdate = 0;
+
+    setResult(null);
+    setProgress({ completed: 0, total: job.iterations });
+
+    const batch = poolRef.current.run(job, {
+      onOutcomes: (batchOutcomes) => {
+        outcomes.push(...batchOutcomes);
+        const now = performance.now();
+        if (now - lastPartialUpdate >= PARTIAL_RESULT_INTERVAL_MS) {
+          lastPartialUpdate = now;
+          setResult(aggregateOutcomes(job.party, outcomes, job.policy, job.seed));
+        }
+      },
+      onProgress: (completed, total) => {
+        if (runRef.current === batch) setProgress({ completed, total });
+      },
+    });
+    runRef.current = batch;
+
+    try {
+      const finalResult = await batch.result;
+      if (runRef.current === batch) {
+        runRef.current = null;
+        setProgress(null);
+        if (finalResult) setResult(finalResult);
+      }
+      return finalResult;
+    } catch (err) {
+      console.error("Batch simulation failed:", err);
+      toast.error("Simulation failed");
+      if (runRef.current === batch) {
+        runRef.current = null;
+        setProgress(null);
+      }
+      return null;
+    }
+  }, []);
+
+  return {
+    run,
+    cancel,
+    isRunning,
+    progress,
+    result,
+  };
+}
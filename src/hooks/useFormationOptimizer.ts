@@ -0,0 +1,99 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { createSimulationPool } from "@/lib/battleSimulationPool";
+import type { BatchSimulationRun, SimulationPool } from "@/lib/battleSimulationPool";
+import { createBattleContext } from "@/lib/battleReducer";
+import { optimizeFormations } from "@/lib/formationOptimizer";
+import type { FormationSearchOptions, OptimizedFormation, PoolUnit } from "@/lib/formationOptimizer";
+import type { Encounter, EncounterUnit } from "@/types/encounters";
+import { toast } from "sonner";
+
+export interface FormationSearchProgress {
+  evaluated: number;
+  total: number;
+}
+
+// Run formation searches, simulating candidates on a worker pool owned by the calling component
+export function useFormationOptimizer() {
+  const poolRef = useRef<SimulationPool | null>(null);
+  // Simulations in flight for the current search, and the search they belong to
+  const runsRef = useRef(new Set<BatchSimulationRun>());
+  const searchIdRef = useRef(0);
+  const [progress, setProgress] = useState<FormationSearchProgress | null>(null);
+  const [results, setResults] = useState<OptimizedFormation[] | null>(null);
+
+  const isRunning = progress !== null;
+
+  // Workers are only spawned on the first search, and shut down with the component
+  useEffect(() => () => {
+    poolRef.current?.terminate();
+    poolRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    searchIdRef.current++;
+    for (const run of runsRef.current) run.cancel();
+    runsRef.current.clear();
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(async (
+    pool: PoolUnit[],
+    encounter: Encounter | null | undefined,
+    waves: EncounterUnit[][],
+    options: FormationSearchOptions
+  ): Promise<OptimizedFormation[] | null> => {
+    cancel();
+    if (!poolRef.current) poolRef.current = createSimulationPool();
+    const simulationPool = poolRef.current;
+    const searchId = searchIdRef.current;
+    const context = createBattleContext(encounter, waves, options.enemyAi);
+
+    setResults(null);
+    setProgress({ evaluated: 0, total: options.candidates });
+
+    try {
+      const found = await optimizeFormations(
+        pool,
+        encounter,
+        context,
+        options,
+        async (party, iterations, seed) => {
+          if (searchIdRef.current !== searchId) return null;
+          const batch = simulationPool.run({ party, context, policy: options.policy, iterations, seed });
+          runsRef.current.add(batch);
+          try {
+            return await batch.result;
+          } finally {
+            runsRef.current.delete(batch);
+          }
+        },
+        (evaluated, total) => {
+          if (searchIdRef.current === searchId) setProgress({ evaluated, total });
+        }
+      );
+      if (searchIdRef.current === searchId) {
+        setProgress(null);
+        if (found) setResults(found);
+      }
+      return found;
+    } catch (err) {
+      console.error("Formation search failed:", err);
+      toast.error("Formation search failed");
+      if (searchIdRef.current === searchId) {
+        searchIdRef.current++;
+        for (const batch of runsRef.current) batch.cancel();
+        runsRef.current.clear();
+        setProgress(null);
+      }
+      return null;
+    }
+  }, [cancel]);
+
+  return {
+    run,
+    cancel,
+    isRunning,
+    progress,
+    results,
+  };
+}
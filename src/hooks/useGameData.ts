@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+import type { DataVersionImportResult, GameDataVersion } from "@/lib/gameDataVersions";
+
+export interface GameDataContextType {
+  // The bundled version first, then imported ones
+  versions: GameDataVersion[];
+  activeVersion: GameDataVersion;
+  isSwitching: boolean;
+  setActiveVersion: (id: string) => Promise<void>;
+  importVersion: (name: string, files: File[]) => Promise<DataVersionImportResult>;
+  deleteVersion: (id: string) => Promise<void>;
+}
+
+// Provided by GameDataProvider (src/contexts/GameDataContext.tsx)
+export const GameDataContext = createContext<GameDataContextType | undefined>(undefined);
+
+export function useGameData() {
+  const context = useContext(GameDataContext);
+  if (!context) {
+    throw new Error("useGameData must be used within a GameDataProvider");
+  }
+  return context;
+}
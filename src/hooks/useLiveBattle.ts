@@ -4,39 +4,64 @@ import {
   initializeBattle,
   getAvailableAbilities,
   getValidTargets,
-  executeAttack,
-  executeRandomAttack,
-  isRandomAttack,
-  processStatusEffects,
-  reduceCooldowns,
+  getAttackRange,
+  hasSingleSelectionSplash,
+  getStatusEffectDamageMods,
+  getStatusEffectArmorDamageMods,
   isUnitStunned,
-  checkBattleEnd,
-  aiSelectAction,
-  createLiveBattleUnit,
-  collapseGrid,
-  calculateTurnSummary,
 } from "@/lib/liveBattleEngine";
-import { getUnitAbilities, calculateDodgeChance, calculateDamageWithArmor, canTargetUnit, calculateCritChance } from "@/lib/battleCalculations";
-import { getBlockingUnits, checkLineOfFire, calculateRange, findFrontmostUnblockedPosition, getTargetingInfo } from "@/lib/battleTargeting";
-import { getStatusEffect, getStatusEffectDisplayName, getStatusEffectColor, getEffectDisplayNameTranslated } from "@/lib/statusEffects";
+import { applyBattleCommand, createBattleContext, getAvailableReserve, getValidReticlePositions, shouldAdvanceWave } from "@/lib/battleReducer";
+import type { BattleCommand } from "@/lib/battleReducer";
+import {
+  createBattleHistory,
+  pushCheckpoint,
+  getCurrentCheckpoint,
+  jumpToCheckpoint,
+  canRedo,
+  findCheckpointBeforeTurn,
+} from "@/lib/battleHistory";
+import type { BattleHistory } from "@/lib/battleHistory";
+import type { MoveSuggestion } from "@/lib/battlePlanner";
+import { createSimulationPool } from "@/lib/battleSimulationPool";
+import type { MoveSuggestionRun, SimulationPool } from "@/lib/battleSimulationPool";
+import { buildReplayFrames, createBattleReplay, getReplayParty, getReplayReserve } from "@/lib/battleReplay";
+import type { BattleReplay, BattleSetup, ReplayFrame } from "@/lib/battleReplay";
+import { DEFAULT_ENEMY_AI } from "@/lib/enemyAi";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import { getUnitAbilities, calculateDodgeChance, calculateDamageWithArmor, canTargetUnit, calculateCritChance, calculateDamageDistribution, getOffenseAtRange } from "@/lib/battleCalculations";
+import { getBlockingUnits, checkLineOfFire, calculateRange, findFrontmostUnblockedPosition } from "@/lib/battleTargeting";
+import { getStatusEffect, getStatusEffectColor, getEffectDisplayNameTranslated } from "@/lib/statusEffects";
 import { getUnitById } from "@/lib/units";
-import { UnitTag } from "@/data/gameEnums";
-import { getAbilityById } from "@/lib/abilities";
 import { getFixedAttackPositions, getAffectedGridPositions } from "@/types/battleSimulator";
-import { useLanguage } from "@/contexts/LanguageContext";
 import type { PartyUnit, AbilityInfo, DamagePreview, DamageResult, StatusEffectPreview, TargetArea } from "@/types/battleSimulator";
 import type { EncounterUnit, Encounter } from "@/types/encounters";
-import type { LiveBattleState, LiveBattleUnit, BattleAction, BattleTurn, TurnSummary } from "@/types/liveBattle";
+import type { LiveBattleState, LiveBattleUnit, RedeployMove } from "@/types/liveBattle";
+
+// Delay between replay steps during playback
+const REPLAY_STEP_MS = 800;
+
+// Default for battles without a party reserve, kept stable so the start callback isn't recreated
+const NO_RESERVE: PartyUnit[] = [];
+
+export interface ReplayPlayback {
+  replay: BattleReplay;
+  frames: ReplayFrame[];
+  frameIndex: number;
+  isPlaying: boolean;
+}
 
 interface UseLiveBattleOptions {
   encounter?: Encounter | null;
   waves: EncounterUnit[][];
   friendlyParty: PartyUnit[];
   startingWave?: number;
+  // How enemies pick their actions in battles started from now on
+  enemyAi?: EnemyAiTypeId;
+  // Party units left out of the formation, which can come in as reinforcements between waves
+  reserve?: PartyUnit[];
 }
 
-export function useLiveBattle({ encounter, waves, friendlyParty, startingWave = 0 }: UseLiveBattleOptions) {
-  const { t } = useLanguage();
+export function useLiveBattle({ encounter, waves, friendlyParty, startingWave = 0, enemyAi = DEFAULT_ENEMY_AI, reserve = NO_RESERVE }: UseLiveBattleOptions) {
   const [battleState, setBattleState] = useState<LiveBattleState | null>(null);
   const [selectedUnitGridId, setSelectedUnitGridId] = useState<number | null>(null);
   const [selectedUnitIsEnemy, setSelectedUnitIsEnemy] = useState<boolean>(false);
@@ -44,102 +69,80 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
   const [isProcessing, setIsProcessing] = useState(false);
   // Track if the current player turn has had its start-of-turn processing done
   const [playerTurnStartProcessed, setPlayerTurnStartProcessed] = useState(false);
+  // Checkpoints at each player decision point, for undo/redo and rewinding from the battle log
+  const [history, setHistory] = useState<BattleHistory | null>(null);
+  // Party, reserve, starting wave and enemy AI of the current battle, for exporting replays
+  const [battleSetup, setBattleSetup] = useState<BattleSetup | null>(null);
+  // Loaded replay being played back - player actions are disabled while it is set
+  const [replayPlayback, setReplayPlayback] = useState<ReplayPlayback | null>(null);
+  // Move suggestions are planned on a worker pool, spawned on first use and shut down with the component
+  const plannerPoolRef = useRef<SimulationPool | null>(null);
+  const planningRef = useRef<MoveSuggestionRun | null>(null);
+
+  useEffect(() => () => {
+    plannerPoolRef.current?.terminate();
+    plannerPoolRef.current = null;
+  }, []);
+
+  // Suggestions only apply to the position they were planned for
+  useEffect(() => {
+    planningRef.current?.cancel();
+    planningRef.current = null;
+  }, [battleState]);
   
-  // Get environmental damage mods
-  const environmentalDamageMods = useMemo(() => {
-    if (!encounter?.environmental_status_effect) return undefined;
-    const envEffect = getStatusEffect(encounter.environmental_status_effect);
-    return envEffect?.stun_damage_mods;
-  }, [encounter?.environmental_status_effect]);
+  // Static battle inputs: waves, environmental damage mods and the enemy AI
+  // A battle keeps the enemy AI and reserve it was started with, even if the selection changes mid-battle
+  const battleEnemyAi = battleSetup?.enemyAi ?? enemyAi;
+  const battleReserve = battleSetup?.reserve;
+  const battleContext = useMemo(
+    () => ({ ...createBattleContext(encounter, waves, battleEnemyAi), reserve: battleReserve }),
+    [encounter, waves, battleEnemyAi, battleReserve]
+  );
+  const environmentalDamageMods = battleContext.environmentalDamageMods;
 
   // Start or restart battle
-  const startBattle = useCallback(() => {
+  // seed: Optional RNG seed to reproduce a specific battle (a fresh seed is generated otherwise)
+  const startBattle = useCallback((seed?: number) => {
     console.log("Starting battle with party:", friendlyParty.map(u => ({ unitId: u.unitId, gridId: u.gridId, rank: u.rank })));
-    const state = initializeBattle(friendlyParty, waves, startingWave);
+    const state = initializeBattle(friendlyParty, waves, startingWave, seed, battleContext.layout);
     console.log("Battle initialized, friendly units:", state.friendlyUnits.map(u => ({ unitId: u.unitId, gridId: u.gridId })));
     setBattleState(state);
+    setHistory(createBattleHistory(state));
+    setBattleSetup({ party: friendlyParty.map(u => ({ ...u })), reserve: reserve.map(u => ({ ...u })), startingWave, enemyAi });
+    setReplayPlayback(null);
     setSelectedUnitGridId(null);
     setSelectedUnitIsEnemy(false);
     setSelectedAbilityId(null);
     setIsProcessing(false);
     // First turn is already ready - no DOT to process yet
     setPlayerTurnStartProcessed(true);
-  }, [friendlyParty, waves, startingWave]);
+  }, [friendlyParty, reserve, waves, startingWave, enemyAi, battleContext.layout]);
+
+  // Run a command through the battle reducer and surface rejections to the player
+  const dispatchCommand = useCallback((state: LiveBattleState, command: BattleCommand): LiveBattleState => {
+    // A replay drives the battle on its own
+    if (replayPlayback) return state;
+    const result = applyBattleCommand(state, command, battleContext);
+    for (const event of result.events) {
+      if (event.type === "command_rejected" && (command.type === "player_attack" || command.type === "redeploy")) {
+        toast.error(event.reason);
+      }
+    }
+    setBattleState(result.state);
+    return result.state;
+  }, [battleContext, replayPlayback]);
 
   // Execute player turn start phase: DoT -> deaths -> collapse -> cooldowns
   // Called automatically when player turn begins (after enemy turn ends)
   const executePlayerTurnStart = useCallback(() => {
     if (!battleState || !battleState.isPlayerTurn || battleState.isBattleOver || isProcessing) return;
     if (playerTurnStartProcessed) return; // Already processed this turn
-    
-    console.log('[executePlayerTurnStart] Processing player turn start');
+
     setIsProcessing(true);
-    
-    setBattleState(prev => {
-      if (!prev) return prev;
-      
-      // Deep clone state
-      const newState: LiveBattleState = {
-        ...prev,
-        friendlyUnits: prev.friendlyUnits.map(u => ({
-          ...u,
-          abilityCooldowns: { ...u.abilityCooldowns },
-          weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-          weaponAmmo: { ...u.weaponAmmo },
-          weaponReloadCooldown: { ...u.weaponReloadCooldown },
-          activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-          abilityChargeProgress: { ...u.abilityChargeProgress },
-        })),
-        enemyUnits: prev.enemyUnits.map(u => ({
-          ...u,
-          abilityCooldowns: { ...u.abilityCooldowns },
-          weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-          weaponAmmo: { ...u.weaponAmmo },
-          weaponReloadCooldown: { ...u.weaponReloadCooldown },
-          activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-          abilityChargeProgress: { ...u.abilityChargeProgress },
-        })),
-        friendlyCollapsedRows: new Set(prev.friendlyCollapsedRows),
-        enemyCollapsedRows: new Set(prev.enemyCollapsedRows),
-        battleLog: [...prev.battleLog],
-      };
-      
-      const actions: BattleAction[] = [];
-      
-      // 1. Collapse rows if needed
-      newState.friendlyCollapsedRows = collapseGrid(newState.friendlyUnits, newState.friendlyCollapsedRows);
-      newState.enemyCollapsedRows = collapseGrid(newState.enemyUnits, newState.enemyCollapsedRows);
-      
-      // 2. Process status effects (DoT damage)
-      actions.push(...processStatusEffects([...newState.friendlyUnits, ...newState.enemyUnits], environmentalDamageMods));
-      
-      // 3. Reduce cooldowns for player units (before action selection) - stunned units skip this
-      reduceCooldowns(newState.friendlyUnits);
-      
-      // 4. Check if battle ended from status effects
-      const endCheck = checkBattleEnd(newState);
-      
-      // If there were status effect actions, add them to the log
-      if (actions.length > 0) {
-        const turn: BattleTurn = {
-          turnNumber: newState.currentTurn,
-          isPlayerTurn: true,
-          actions,
-          summary: calculateTurnSummary(actions),
-        };
-        newState.battleLog = [...newState.battleLog, turn];
-      }
-      
-      return {
-        ...newState,
-        isBattleOver: endCheck.isOver,
-        isPlayerVictory: endCheck.playerWon,
-      };
-    });
-    
+    dispatchCommand(battleState, { type: "start_player_turn" });
     setPlayerTurnStartProcessed(true);
     setIsProcessing(false);
-  }, [battleState, isProcessing, playerTurnStartProcessed, environmentalDamageMods]);
+  }, [battleState, isProcessing, playerTurnStartProcessed, dispatchCommand]);
 
   // Reset playerTurnStartProcessed when turn changes to enemy
   useEffect(() => {
@@ -148,6 +151,133 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
     }
   }, [battleState?.isPlayerTurn]);
 
+  // Record a checkpoint whenever the player is about to act, and when the battle ends
+  useEffect(() => {
+    if (!battleState || replayPlayback) return;
+    const isDecisionPoint = battleState.isPlayerTurn && playerTurnStartProcessed && !shouldAdvanceWave(battleState);
+    if (battleState.isBattleOver || isDecisionPoint) {
+      setHistory(prev => prev ? pushCheckpoint(prev, battleState) : createBattleHistory(battleState));
+    }
+  }, [battleState, playerTurnStartProcessed, replayPlayback]);
+
+  // Restore the battle to a checkpoint; later checkpoints stay available for redo until a new move is made
+  const restoreCheckpoint = useCallback((index: number) => {
+    if (!history) return;
+    const nextHistory = jumpToCheckpoint(history, index);
+    setHistory(nextHistory);
+    setBattleState(getCurrentCheckpoint(nextHistory).state);
+    setSelectedUnitGridId(null);
+    setSelectedUnitIsEnemy(false);
+    setSelectedAbilityId(null);
+    setIsProcessing(false);
+    // Checkpoints are taken after start-of-turn processing
+    setPlayerTurnStartProcessed(true);
+  }, [history]);
+
+  // The battle is mid-way between checkpoints while the player's move is being resolved
+  const isAtCheckpoint = !!history && !!battleState && getCurrentCheckpoint(history).state === battleState;
+  const canUndoMove = !!history && !isProcessing && !replayPlayback && (history.index > 0 || !isAtCheckpoint);
+  const canRedoMove = !!history && !isProcessing && !replayPlayback && isAtCheckpoint && canRedo(history);
+
+  // Undo the last move - goes back to the previous point where the player could act
+  const undoMove = useCallback(() => {
+    if (!history || !canUndoMove) return;
+    restoreCheckpoint(isAtCheckpoint ? history.index - 1 : history.index);
+  }, [history, canUndoMove, isAtCheckpoint, restoreCheckpoint]);
+
+  const redoMove = useCallback(() => {
+    if (!history || !canRedoMove) return;
+    restoreCheckpoint(history.index + 1);
+  }, [history, canRedoMove, restoreCheckpoint]);
+
+  // Rewind to just before a turn in the battle log
+  // Returns false if the turn is older than the oldest kept checkpoint
+  const rewindToTurn = useCallback((logIndex: number): boolean => {
+    if (!history || isProcessing || replayPlayback) return false;
+    const index = findCheckpointBeforeTurn(history, logIndex);
+    if (index < 0) return false;
+    restoreCheckpoint(index);
+    return true;
+  }, [history, isProcessing, replayPlayback, restoreCheckpoint]);
+
+  // Save the current battle as a replay
+  const createReplay = useCallback((encounterId: number): BattleReplay | null => {
+    if (!battleState || !battleSetup) return null;
+    return createBattleReplay(encounterId, battleSetup, battleState);
+  }, [battleState, battleSetup]);
+
+  // Load a replay for this encounter and show its first frame
+  // Returns an error message if the replay can't be played back
+  const loadReplay = useCallback((replay: BattleReplay): string | null => {
+    const { frames, error } = buildReplayFrames(replay, battleContext);
+    if (error && frames.length <= 1) return error;
+
+    setReplayPlayback({ replay, frames, frameIndex: 0, isPlaying: false });
+    setBattleState(frames[0].state);
+    setHistory(null);
+    setBattleSetup({
+      party: getReplayParty(replay),
+      reserve: getReplayReserve(replay),
+      startingWave: replay.startingWave,
+      enemyAi: replay.enemyAi,
+    });
+    setSelectedUnitGridId(null);
+    setSelectedUnitIsEnemy(false);
+    setSelectedAbilityId(null);
+    setIsProcessing(false);
+    setPlayerTurnStartProcessed(true);
+    return error ?? null;
+  }, [battleContext]);
+
+  const seekReplay = useCallback((frameIndex: number) => {
+    if (!replayPlayback) return;
+    const index = Math.max(0, Math.min(replayPlayback.frames.length - 1, frameIndex));
+    setReplayPlayback({ ...replayPlayback, frameIndex: index, isPlaying: replayPlayback.isPlaying && index < replayPlayback.frames.length - 1 });
+    setBattleState(replayPlayback.frames[index].state);
+  }, [replayPlayback]);
+
+  const stepReplay = useCallback((delta: number) => {
+    if (!replayPlayback) return;
+    seekReplay(replayPlayback.frameIndex + delta);
+  }, [replayPlayback, seekReplay]);
+
+  const setReplayPlaying = useCallback((isPlaying: boolean) => {
+    if (!replayPlayback) return;
+    // Playing from the last frame starts over
+    const atEnd = replayPlayback.frameIndex >= replayPlayback.frames.length - 1;
+    if (isPlaying && atEnd) {
+      setReplayPlayback({ ...replayPlayback, frameIndex: 0, isPlaying: true });
+      setBattleState(replayPlayback.frames[0].state);
+      return;
+    }
+    setReplayPlayback({ ...replayPlayback, isPlaying });
+  }, [replayPlayback]);
+
+  // Advance playback one frame at a time
+  useEffect(() => {
+    if (!replayPlayback?.isPlaying) return;
+    const timer = setTimeout(() => stepReplay(1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [replayPlayback, stepReplay]);
+
+  // Leave replay mode
+  // continueBattle: keep the current frame and play on from it, otherwise clear the battle
+  const exitReplay = useCallback((continueBattle: boolean) => {
+    if (!replayPlayback) return;
+    const state = replayPlayback.frames[replayPlayback.frameIndex].state;
+    setReplayPlayback(null);
+    if (continueBattle) {
+      setBattleState(state);
+      setHistory(createBattleHistory(state));
+      // Frames on the player's turn already include start-of-turn processing
+      setPlayerTurnStartProcessed(state.isPlayerTurn);
+    } else {
+      setBattleState(null);
+      setHistory(null);
+      setBattleSetup(null);
+    }
+  }, [replayPlayback]);
+
   // Get currently selected unit - use both gridId AND isEnemy to find the right unit
   const selectedUnit = useMemo(() => {
     if (!battleState || selectedUnitGridId === null) return null;
@@ -169,7 +299,8 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
       battleState.enemyUnits,
       battleState.friendlyUnits,
       battleState.friendlyCollapsedRows,
-      battleState.enemyCollapsedRows
+      battleState.enemyCollapsedRows,
+      battleState.layout
     );
   }, [battleState, selectedUnit]);
 
@@ -201,7 +332,8 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
       selectedAbility.maxRange,
       selectedAbility.lineOfFire,
       selectedUnit.isEnemy,
-      blockingUnits
+      blockingUnits,
+      battleState.layout
     );
     
     if (frontmostPosition !== null) {
@@ -235,33 +367,8 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
 
   // Calculate valid reticle positions
   const validReticlePositions = useMemo(() => {
-    if (!selectedUnit || !selectedAbility || !battleState || selectedAbility.isSingleTarget || selectedAbility.isFixed) {
-      return undefined;
-    }
-    
-    const targetUnits = selectedUnit.isEnemy 
-      ? battleState.friendlyUnits 
-      : battleState.enemyUnits;
-    
-    const blockingUnits = getBlockingUnits(
-      targetUnits.filter(u => !u.isDead).map(u => ({ unit_id: u.unitId, grid_id: u.gridId })),
-      true // Always use EncounterUnit format (grid_id) since we're mapping with grid_id
-    );
-    
-    const targetingInfo = getTargetingInfo(
-      selectedUnit.gridId,
-      selectedAbility.minRange,
-      selectedAbility.maxRange,
-      selectedAbility.lineOfFire,
-      selectedUnit.isEnemy,
-      blockingUnits
-    );
-    
-    return new Set(
-      targetingInfo
-        .filter(t => t.inRange && !t.isBlocked)
-        .map(t => t.gridId)
-    );
+    if (!selectedUnit || !selectedAbility || !battleState) return undefined;
+    return getValidReticlePositions(battleState, selectedUnit, selectedAbility);
   }, [selectedUnit, selectedAbility, battleState]);
 
   // Calculate damage previews for live battle (uses current HP/armor)
@@ -299,15 +406,11 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
     // Get affected positions based on ability type
     let affectedPositions: { gridId: number; damagePercent: number }[];
     
-    // Check if this is a "single-selection with splash" ability:
-    // - Has damageArea with non-center positions (splash)
-    // - targetArea is either missing, or only has center position (no movable reticle)
-    const hasNonCenterSplash = selectedAbility.damageArea?.some(d => d.x !== 0 || d.y !== 0) ?? false;
-    const targetAreaHasOnlyCenter = !selectedAbility.targetArea || 
-      (selectedAbility.targetArea.data.length === 1 && 
-       selectedAbility.targetArea.data[0].x === 0 && 
-       selectedAbility.targetArea.data[0].y === 0);
-    const isSingleSelectionWithSplash = hasNonCenterSplash && targetAreaHasOnlyCenter;
+    // Single-selection abilities with splash hit around the selected target, like in the engine
+    const isSingleSelectionWithSplash = hasSingleSelectionSplash(selectedAbility);
+    // Movable AOE attacks are aimed at the reticle, everything else at the target
+    const isReticleAttack = !isRandom && !selectedAbility.isFixed && !isSingleSelectionWithSplash &&
+      !selectedAbility.isSingleTarget && !!selectedAbility.targetArea;
     
     if (isRandom) {
       // For random attacks, all enemy positions are potentially affected
@@ -356,7 +459,6 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
         
         const canTarget = canTargetUnit(target.unitId, selectedAbility.targets);
         const defense = targetStats?.defense || 0;
-        const dodgeChance = calculateDodgeChance(defense, selectedAbility.offense);
 
         // Calculate crit chance with bonuses (includes unit base crit + ability crit + tag bonuses with hierarchy)
         const critChance = calculateCritChance(
@@ -367,7 +469,10 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
         );
         
         // Check range (not applicable for random attacks)
-        const range = calculateRange(selectedUnit.gridId, target.gridId, false);
+        const range = calculateRange(selectedUnit.gridId, target.gridId, false, undefined, undefined, battleState.layout);
+        // As in the engine, the max range offense modifier uses the range to where the attack is aimed
+        const aimRange = getAttackRange(selectedUnit, isReticleAttack ? enemyReticleGridId : target.gridId, battleState);
+        const dodgeChance = calculateDodgeChance(defense, isRandom ? selectedAbility.offense : getOffenseAtRange(selectedAbility, aimRange));
         const inRange = isRandom ? true : (range >= selectedAbility.minRange && range <= selectedAbility.maxRange);
         
         // Check line of fire blocking (not applicable for random attacks)
@@ -378,7 +483,8 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
               target.gridId,
               selectedAbility.lineOfFire,
               false,
-              blockingUnits
+              blockingUnits,
+              battleState.layout
             );
         
         // Calculate damage using current HP/armor values
@@ -496,6 +602,30 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
           isRandomAttack: isRandom,
           expectedHits: isRandom ? effectiveShots : undefined,
           damageType: selectedAbility.damageType,
+          distribution: shouldShow && canTarget
+            ? calculateDamageDistribution(
+                selectedAbility,
+                {
+                  hp: target.currentHp,
+                  maxHp: target.maxHp,
+                  armor: target.currentArmor,
+                  stats: targetStats,
+                  statusDamageMods: getStatusEffectDamageMods(target),
+                  statusArmorDamageMods: getStatusEffectArmorDamageMods(target),
+                  // Stunned units with active armor take the full hit to HP
+                  bypassArmor: targetStats?.armor_def_style === 2 && isUnitStunned(target),
+                },
+                {
+                  damagePercent,
+                  // Stunned units are easier to hit
+                  dodgeChance: isUnitStunned(target) ? Math.max(0, dodgeChance - 20) : dodgeChance,
+                  critChance,
+                  statusEffects,
+                  shotLandChance: isRandom ? effectiveShots / totalShots : undefined,
+                },
+                environmentalDamageMods
+              )
+            : undefined,
         };
       });
   }, [battleState, selectedUnit, selectedAbility, fixedAttackPositions, enemyReticleGridId, environmentalDamageMods]);
@@ -511,169 +641,30 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
       battleState.friendlyUnits,
       battleState.friendlyCollapsedRows,
       battleState.enemyCollapsedRows,
-      false // Players can target any position within range/LoF
+      false, // Players can target any position within range/LoF
+      battleState.layout
     );
   }, [battleState, selectedUnit, selectedAbility]);
 
   // Execute player action
   const executePlayerAction = useCallback((targetGridId: number) => {
     if (!battleState || !selectedUnit || !selectedAbility || isProcessing) return;
-    
-    // Guard: Check if selected ability is actually available (respects cooldowns, ammo, charge time)
-    const currentAvailableAbilities = getAvailableAbilities(
-      selectedUnit,
-      battleState.enemyUnits,
-      battleState.friendlyUnits,
-      battleState.friendlyCollapsedRows,
-      battleState.enemyCollapsedRows
-    );
-    
-    if (!currentAvailableAbilities.some(a => a.abilityId === selectedAbility.abilityId)) {
-      // Check specifically for charge time issue to give helpful message
-      const chargeProgress = selectedUnit.abilityChargeProgress[selectedAbility.abilityId] ?? 0;
-      if (selectedAbility.chargeTime > 0 && chargeProgress < selectedAbility.chargeTime) {
-        const turnsLeft = selectedAbility.chargeTime - chargeProgress;
-        toast.error(`Ability is still charging (${turnsLeft} turn${turnsLeft > 1 ? 's' : ''} remaining)`);
-      } else {
-        toast.error("Ability is not available");
-      }
-      return;
-    }
-    
-    // For random attacks, we don't need a specific target validation
-    const isRandom = isRandomAttack(selectedAbility);
-    
-    // For AOE attacks (not single target, not fixed), validate against valid reticle positions
-    const isAOE = !selectedAbility.isSingleTarget && !selectedAbility.isFixed;
-    
-    // Recalculate valid targets fresh to ensure we're using current state
-    // Players use relaxed targeting (can place ability anywhere in range/LoF)
-    const freshValidTargets = getValidTargets(
-      selectedUnit,
-      selectedAbility,
-      battleState.enemyUnits,
-      battleState.friendlyUnits,
-      battleState.friendlyCollapsedRows,
-      battleState.enemyCollapsedRows,
-      false // Players can target any position within range/LoF
-    );
-    
-    console.log(`[executePlayerAction] Fresh valid targets for ability ${selectedAbility.abilityId}:`, 
-      freshValidTargets.map(t => t.gridId));
-    
-    // Validate target based on attack type
-    if (isRandom) {
-      // Random attacks don't need target validation
-    } else if (isAOE && validReticlePositions) {
-      // AOE attacks can target any valid reticle position (including empty tiles)
-      if (!validReticlePositions.has(targetGridId)) return;
-    } else {
-      // Single target and fixed attacks need a valid target unit
-      if (!freshValidTargets.some(t => t.gridId === targetGridId)) {
-        console.log(`[executePlayerAction] Target grid ${targetGridId} not in fresh valid targets, rejecting`);
-        return;
-      }
-    }
 
     setIsProcessing(true);
-
-    setBattleState(prev => {
-      if (!prev) return prev;
-
-      // Deep clone state to avoid mutation issues in StrictMode
-      const clonedState: LiveBattleState = {
-        ...prev,
-        friendlyUnits: prev.friendlyUnits.map(u => ({
-          ...u,
-          abilityCooldowns: { ...u.abilityCooldowns },
-          weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-          weaponAmmo: { ...u.weaponAmmo },
-          weaponReloadCooldown: { ...u.weaponReloadCooldown },
-          activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-          abilityChargeProgress: { ...u.abilityChargeProgress },
-        })),
-        enemyUnits: prev.enemyUnits.map(u => ({
-          ...u,
-          abilityCooldowns: { ...u.abilityCooldowns },
-          weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-          weaponAmmo: { ...u.weaponAmmo },
-          weaponReloadCooldown: { ...u.weaponReloadCooldown },
-          activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-          abilityChargeProgress: { ...u.abilityChargeProgress },
-        })),
-        friendlyCollapsedRows: new Set(prev.friendlyCollapsedRows),
-        enemyCollapsedRows: new Set(prev.enemyCollapsedRows),
-        battleLog: [...prev.battleLog],
-      };
-
-      // Find the attacker in cloned state
-      const clonedAttacker = clonedState.friendlyUnits.find(u => u.gridId === selectedUnit.gridId);
-      if (!clonedAttacker) return prev;
-
-      // Get localized names
-      const attackerUnit = getUnitById(selectedUnit.unitId);
-      const attackerName = attackerUnit ? t(attackerUnit.identity.name) : `Unit ${selectedUnit.unitId}`;
-      const abilityData = getAbilityById(selectedAbility.abilityId);
-      const localizedAbilityName = abilityData ? t(abilityData.name) : `Ability ${selectedAbility.abilityId}`;
-
-      // Execute the attack (random or normal) on cloned state
-      let actions: BattleAction[];
-      if (isRandom) {
-        actions = executeRandomAttack(
-          clonedAttacker,
-          selectedAbility,
-          clonedState,
-          environmentalDamageMods
-        );
-      } else {
-        actions = executeAttack(
-          clonedAttacker,
-          selectedAbility,
-          targetGridId,
-          clonedState,
-          environmentalDamageMods
-        );
-      }
-
-      // Add attacker name and localized ability name to actions
-      actions = actions.map(a => ({
-        ...a,
-        attackerName,
-        abilityName: a.abilityName ? localizedAbilityName : a.abilityName,
-      }));
-
-      // Add turn to log with summary
-      const turn: BattleTurn = {
-        turnNumber: clonedState.currentTurn,
-        isPlayerTurn: true,
-        actions,
-        summary: calculateTurnSummary(actions),
-      };
-
-      // Check battle end
-      const endCheck = checkBattleEnd(clonedState);
-
-      // Update collapsed rows after attack (units may have died)
-      // Pass previous collapsed rows to ensure only 1 row collapses per turn
-      clonedState.friendlyCollapsedRows = collapseGrid(clonedState.friendlyUnits, clonedState.friendlyCollapsedRows);
-      clonedState.enemyCollapsedRows = collapseGrid(clonedState.enemyUnits, clonedState.enemyCollapsedRows);
-
-      // Cooldowns will be reduced at the START of next player turn, not here
-
-      return {
-        ...clonedState,
-        battleLog: [...clonedState.battleLog, turn],
-        isBattleOver: endCheck.isOver,
-        isPlayerVictory: endCheck.playerWon,
-        isPlayerTurn: !endCheck.isOver ? false : clonedState.isPlayerTurn,
-        currentEnemyIndex: 0, // Reset enemy index when transitioning to enemy turn
-      };
+    const nextState = dispatchCommand(battleState, {
+      type: "player_attack",
+      attackerGridId: selectedUnit.gridId,
+      abilityId: selectedAbility.abilityId,
+      targetGridId,
     });
 
-    setSelectedUnitGridId(null);
-    setSelectedAbilityId(null);
+    // Keep the selection if the action was rejected so the player can retarget
+    if (nextState !== battleState) {
+      setSelectedUnitGridId(null);
+      setSelectedAbilityId(null);
+    }
     setIsProcessing(false);
-  }, [battleState, selectedUnit, selectedAbility, validTargets, validReticlePositions, isProcessing, environmentalDamageMods, t]);
+  }, [battleState, selectedUnit, selectedAbility, isProcessing, dispatchCommand]);
 
   // Helper to select a unit by grid and enemy flag
   const selectUnit = useCallback((gridId: number, isEnemy: boolean) => {
@@ -682,302 +673,96 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
     setSelectedAbilityId(null);
   }, []);
 
-  // Execute enemy turn - NEW SIMPLER APPROACH:
-  // 1. Gather ALL available abilities from ALL alive enemies
-  // 2. Pick ONE random ability from the pool
-  // 3. Execute it
-  // 4. Return control to player
+  // Execute enemy turn: one random ability from the pool of all enemies' available abilities
   const executeEnemyTurn = useCallback(() => {
-    console.log('[executeEnemyTurn] Called. isPlayerTurn:', battleState?.isPlayerTurn, 'isProcessing:', isProcessing);
-    
     // Guard: only execute if it's enemy turn and not already processing
-    if (!battleState || battleState.isPlayerTurn || battleState.isBattleOver || isProcessing) {
-      console.log('[executeEnemyTurn] Early return - guard failed');
-      return;
-    }
+    if (!battleState || battleState.isPlayerTurn || battleState.isBattleOver || isProcessing) return;
+    // A cleared wave waits for the next one (and any redeployment) instead
+    if (shouldAdvanceWave(battleState)) return;
 
-    console.log('[executeEnemyTurn] Starting enemy turn');
     setIsProcessing(true);
-
-    // 1. Clone state as working copy
-    const newState: LiveBattleState = {
-      ...battleState,
-      friendlyUnits: battleState.friendlyUnits.map(u => ({
-        ...u,
-        abilityCooldowns: { ...u.abilityCooldowns },
-        weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-        weaponAmmo: { ...u.weaponAmmo },
-        weaponReloadCooldown: { ...u.weaponReloadCooldown },
-        activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-        abilityChargeProgress: { ...u.abilityChargeProgress },
-      })),
-      enemyUnits: battleState.enemyUnits.map(u => ({
-        ...u,
-        abilityCooldowns: { ...u.abilityCooldowns },
-        weaponGlobalCooldown: { ...u.weaponGlobalCooldown },
-        weaponAmmo: { ...u.weaponAmmo },
-        weaponReloadCooldown: { ...u.weaponReloadCooldown },
-        activeStatusEffects: u.activeStatusEffects.map(e => ({ ...e })),
-        abilityChargeProgress: { ...u.abilityChargeProgress },
-      })),
-      friendlyCollapsedRows: new Set(battleState.friendlyCollapsedRows),
-      enemyCollapsedRows: new Set(battleState.enemyCollapsedRows),
-      battleLog: [...battleState.battleLog],
-    };
-
-    const actions: BattleAction[] = [];
-
-    // 2. Detect collapsed rows and process status effects (with environmental mods for DOT damage)
-    // Pass previous collapsed rows to ensure only 1 row collapses per turn
-    newState.friendlyCollapsedRows = collapseGrid(newState.friendlyUnits, newState.friendlyCollapsedRows);
-    newState.enemyCollapsedRows = collapseGrid(newState.enemyUnits, newState.enemyCollapsedRows);
-    actions.push(...processStatusEffects([...newState.friendlyUnits, ...newState.enemyUnits], environmentalDamageMods));
-
-    // 2b. Reduce cooldowns for enemies (before ability selection) - stunned units skip this
-    reduceCooldowns(newState.enemyUnits);
-
-    // 3. Check if battle ended from status effects
-    let endCheck = checkBattleEnd(newState);
-    if (endCheck.isOver) {
-      const turn: BattleTurn = { turnNumber: newState.currentTurn, isPlayerTurn: false, actions };
-      setBattleState({
-        ...newState,
-        battleLog: [...newState.battleLog, turn],
-        isBattleOver: true,
-        isPlayerVictory: endCheck.playerWon,
-      });
-      setIsProcessing(false);
-      return;
-    }
-
-    // 3b. Check if wave should advance due to DoT kills
-    // If all non-ignorable enemies died from DoT, advance wave and continue with new enemies
-    const allNonIgnorableEnemiesDead = newState.enemyUnits.every(u => {
-      if (u.isDead) return true;
-      const unit = getUnitById(u.unitId);
-      const tags = unit?.identity?.tags || [];
-      const isIgnorable = tags.includes(UnitTag.Ignorable);
-      const isUnimportant = unit?.statsConfig?.unimportant === true;
-      return isIgnorable || isUnimportant;
-    });
-    
-    if (allNonIgnorableEnemiesDead && newState.currentWave < newState.totalWaves - 1) {
-      console.log('[executeEnemyTurn] All enemies dead from DoT, advancing wave inline');
-      const nextWave = newState.currentWave + 1;
-      const nextWaveUnits = waves[nextWave] || [];
-      const newEnemyUnits = nextWaveUnits
-        .filter(u => u.grid_id !== undefined)
-        .map(u => {
-          const unit = createLiveBattleUnit(u.unit_id, u.grid_id!, 1, true);
-          return unit;
-        })
-        .filter((u): u is LiveBattleUnit => u !== null);
-      
-      newState.enemyUnits = newEnemyUnits;
-      newState.enemyCollapsedRows = new Set<number>(); // Reset enemy grid layout for new wave
-      newState.currentWave = nextWave;
-      newState.currentEnemyIndex = 0;
-      actions.push({ type: "skip", message: `Wave ${nextWave + 1} begins! Enemies attack first.` });
-    }
-
-    // 4. Get alive enemies, filter to non-stunned
-    // Filter AGAIN after DoT processing (and potential wave advance) to exclude any enemies that died from DoT
-    const aliveEnemies = newState.enemyUnits.filter(e => !e.isDead);
-    const activeEnemies = aliveEnemies.filter(e => !e.activeStatusEffects.some(s => s.isStun));
-    
-    // Also get alive friendlies AFTER DoT processing
-    const aliveFriendlies = newState.friendlyUnits.filter(f => !f.isDead);
-    
-    console.log('[executeEnemyTurn] After DoT: aliveEnemies=', aliveEnemies.length, 'aliveFriendlies=', aliveFriendlies.length);
-
-    // Log stunned enemies
-    for (const enemy of aliveEnemies.filter(e => e.activeStatusEffects.some(s => s.isStun))) {
-      const unit = getUnitById(enemy.unitId);
-      actions.push({
-        type: "skip",
-        attackerGridId: enemy.gridId,
-        attackerName: unit?.identity?.name || `Unit ${enemy.unitId}`,
-        message: `Stunned and cannot act`,
-      });
-    }
-
-    // 5. Build ability pool: each active enemy's available abilities with valid targets
-    // IMPORTANT: Pass only ALIVE units to ability/target checks
-    const abilityPool: { enemy: LiveBattleUnit; ability: AbilityInfo; targets: LiveBattleUnit[] }[] = [];
-    for (const enemy of activeEnemies) {
-      for (const ability of getAvailableAbilities(
-        enemy,
-        aliveEnemies,
-        aliveFriendlies,
-        newState.friendlyCollapsedRows,
-        newState.enemyCollapsedRows
-      )) {
-        // Enemies use strict targeting - must match ability's target tags
-        const targets = getValidTargets(
-          enemy,
-          ability,
-          aliveEnemies,
-          aliveFriendlies,
-          newState.friendlyCollapsedRows,
-          newState.enemyCollapsedRows,
-          true // Enemies require valid target tags
-        );
-        if (targets.length > 0) {
-          abilityPool.push({ enemy, ability, targets });
-        }
-      }
-    }
-    console.log('[executeEnemyTurn] Ability pool size:', abilityPool.length);
-
-    // 6. If no valid abilities, skip turn
-    if (abilityPool.length === 0) {
-      for (const enemy of activeEnemies) {
-        const unit = getUnitById(enemy.unitId);
-        actions.push({
-          type: "skip",
-          attackerGridId: enemy.gridId,
-          attackerName: unit?.identity?.name || `Unit ${enemy.unitId}`,
-          message: `No valid targets`,
-        });
-      }
-
-      // Ensure the enemy turn always produces at least one log entry
-      if (actions.length === 0) {
-        actions.push({ type: "skip", message: "Enemy skipped turn" });
-      }
-    } else {
-      // 7. Pick one random ability from pool
-      const { enemy, ability, targets } = abilityPool[Math.floor(Math.random() * abilityPool.length)];
-      const target = targets[Math.floor(Math.random() * targets.length)];
-
-      // 8. Execute attack and get actions
-      let attackActions: BattleAction[];
-      if (isRandomAttack(ability)) {
-        attackActions = executeRandomAttack(enemy, ability, newState, environmentalDamageMods);
-      } else {
-        attackActions = executeAttack(enemy, ability, target.gridId, newState, environmentalDamageMods);
-      }
-
-      // Add localized names
-      const unit = getUnitById(enemy.unitId);
-      const abilityData = getAbilityById(ability.abilityId);
-      attackActions = attackActions.map(a => ({
-        ...a,
-        attackerName: unit ? t(unit.identity.name) : a.attackerName,
-        abilityName: abilityData ? t(abilityData.name) : a.abilityName,
-      }));
-      actions.push(...attackActions);
-    }
-
-    // Ensure the enemy turn always produces at least one log entry
-    if (actions.length === 0) {
-      actions.push({ type: "skip", message: "Enemy skipped turn" });
-    }
-
-    // Cooldowns already reduced at turn start (before ability selection)
-
-    // 10. Check battle end
-    endCheck = checkBattleEnd(newState);
-
-    // 11. Create turn log with summary and set final state
-    const turn: BattleTurn = { turnNumber: newState.currentTurn, isPlayerTurn: false, actions, summary: calculateTurnSummary(actions) };
-    
-    setBattleState({
-      ...newState,
-      currentTurn: newState.currentTurn + 1,
-      isPlayerTurn: true,
-      currentEnemyIndex: 0,
-      battleLog: [...newState.battleLog, turn],
-      isBattleOver: endCheck.isOver,
-      isPlayerVictory: endCheck.playerWon,
-    });
-
+    dispatchCommand(battleState, { type: "enemy_turn" });
     setIsProcessing(false);
-  }, [battleState, isProcessing, environmentalDamageMods, t]);
+  }, [battleState, isProcessing, dispatchCommand]);
 
   // Check if all enemies are dead and auto-advance wave
   const checkWaveAdvance = useCallback(() => {
     if (!battleState) return false;
-    
-    // Check if all non-ignorable/non-unimportant enemies are dead
-    // Units with the Ignorable tag (like Stone Slab) or unimportant flag don't count for wave completion
-    const allNonIgnorableEnemiesDead = battleState.enemyUnits.every(u => {
-      if (u.isDead) return true;
-      const unit = getUnitById(u.unitId);
-      const tags = unit?.identity?.tags || [];
-      const isIgnorable = tags.includes(UnitTag.Ignorable);
-      const isUnimportant = unit?.statsConfig?.unimportant === true;
-      return isIgnorable || isUnimportant;
-    });
-    
-    if (allNonIgnorableEnemiesDead && battleState.currentWave < battleState.totalWaves - 1) {
-      return true;
-    }
-    return false;
+    return shouldAdvanceWave(battleState);
   }, [battleState]);
 
   // Advance to next wave (enemies go first on subsequent waves)
   const advanceWave = useCallback(() => {
     if (!battleState || battleState.currentWave >= battleState.totalWaves - 1) return;
-
-    setBattleState(prev => {
-      if (!prev) return prev;
-
-      const nextWave = prev.currentWave + 1;
-      const nextWaveUnits = waves[nextWave] || [];
-      const enemyUnits = nextWaveUnits
-        .filter(u => u.grid_id !== undefined)
-        .map(u => {
-          const unit = createLiveBattleUnit(u.unit_id, u.grid_id!, 1, true);
-          return unit;
-        })
-        .filter((u): u is LiveBattleUnit => u !== null);
-
-      // On subsequent waves, enemies go first
-      // Reset enemy collapsed rows since new enemies spawn on the full grid
-      return {
-        ...prev,
-        enemyUnits,
-        enemyCollapsedRows: new Set<number>(), // Reset enemy grid layout for new wave
-        currentWave: nextWave,
-        currentEnemyIndex: 0, // Reset enemy index for new wave
-        isPlayerTurn: false, // Enemy goes first on wave 2+
-        battleLog: [...prev.battleLog, {
-          turnNumber: prev.currentTurn,
-          isPlayerTurn: true,
-          actions: [{ type: "skip", message: `Wave ${nextWave + 1} begins! Enemies attack first.` }],
-        }],
-      };
-    });
-  }, [battleState, waves]);
+    dispatchCommand(battleState, { type: "advance_wave" });
+  }, [battleState, dispatchCommand]);
+
+  // Rearrange survivors and bring in reinforcements, then start the next wave.
+  // Returns false if the redeployment was rejected so the player can fix it.
+  const redeployAndAdvanceWave = useCallback((moves: RedeployMove[], reinforcements: PartyUnit[]): boolean => {
+    if (!battleState || !shouldAdvanceWave(battleState)) return false;
+    let state = battleState;
+    if (moves.length > 0 || reinforcements.length > 0) {
+      state = dispatchCommand(state, { type: "redeploy", moves, reinforcements });
+      if (state === battleState) return false;
+    }
+    dispatchCommand(state, { type: "advance_wave" });
+    return true;
+  }, [battleState, dispatchCommand]);
+
+  // Rank the player's available actions for the turn planner
+  // Only once start-of-turn effects have resolved, so the planner sees the state the action will run against
+  // Resolves with null if the battle moves on before planning finishes
+  const getMoveSuggestions = useCallback(async (count: number, getName?: (unitId: number) => string): Promise<MoveSuggestion[] | null> => {
+    if (!battleState || replayPlayback || isProcessing || !playerTurnStartProcessed) return [];
+
+    planningRef.current?.cancel();
+    // Requests are planned one at a time, so a single worker is enough
+    if (!plannerPoolRef.current) plannerPoolRef.current = createSimulationPool(1);
+    const unitNames: Record<number, string> = {};
+    if (getName) {
+      for (const unit of battleState.enemyUnits) unitNames[unit.unitId] = getName(unit.unitId);
+    }
+    const planning = plannerPoolRef.current.suggestMoves({ state: battleState, context: battleContext, count, unitNames });
+    planningRef.current = planning;
+
+    try {
+      return await planning.result;
+    } catch (err) {
+      console.error("Move planning failed:", err);
+      toast.error("Couldn't plan moves");
+      return null;
+    } finally {
+      if (planningRef.current === planning) planningRef.current = null;
+    }
+  }, [battleState, battleContext, replayPlayback, isProcessing, playerTurnStartProcessed]);
+
+  // Play a suggested move as if the player had selected it
+  const executeSuggestedMove = useCallback((suggestion: MoveSuggestion) => {
+    if (!battleState || !battleState.isPlayerTurn || isProcessing) return;
+    const nextState = dispatchCommand(battleState, suggestion.command);
+    if (nextState !== battleState) {
+      setSelectedUnitGridId(null);
+      setSelectedAbilityId(null);
+    }
+  }, [battleState, isProcessing, dispatchCommand]);
 
   // Skip player turn
   const skipTurn = useCallback(() => {
     if (!battleState || !battleState.isPlayerTurn || battleState.isBattleOver || isProcessing) return;
+    dispatchCommand(battleState, { type: "skip_turn" });
+  }, [battleState, isProcessing, dispatchCommand]);
 
-    setBattleState(prev => {
-      if (!prev) return prev;
-
-      const turn: BattleTurn = {
-        turnNumber: prev.currentTurn,
-        isPlayerTurn: true,
-        actions: [{ type: "skip", message: "Player skipped turn" }],
-      };
-
-      // Cooldowns are reduced at turn START, not when skipping
-      // (they were already reduced in executePlayerTurnStart)
-
-      return {
-        ...prev,
-        battleLog: [...prev.battleLog, turn],
-        isPlayerTurn: false,
-        currentEnemyIndex: 0, // Reset enemy index when transitioning to enemy turn
-      };
-    });
-  }, [battleState, isProcessing]);
+  // Reserve units that can still come in as reinforcements
+  const reserveUnits = useMemo(
+    () => (battleState && battleReserve ? getAvailableReserve(battleState, battleReserve) : []),
+    [battleState, battleReserve]
+  );
 
   return {
     battleState,
+    battleEnemyAi,
+    reserveUnits,
     selectedUnit,
     selectedUnitGridId,
     selectedUnitIsEnemy,
@@ -995,8 +780,27 @@ export function useLiveBattle({ encounter, waves, friendlyParty, startingWave =
     playerTurnStartProcessed,
     executeEnemyTurn,
     advanceWave,
+    redeployAndAdvanceWave,
+    unitLimit: battleContext.unitLimit,
     skipTurn,
     checkWaveAdvance,
+    // Turn planner
+    getMoveSuggestions,
+    executeSuggestedMove,
+    // History
+    history,
+    undoMove,
+    redoMove,
+    canUndoMove,
+    canRedoMove,
+    rewindToTurn,
+    // Replays
+    createReplay,
+    loadReplay,
+    replayPlayback,
+    seekReplay,
+    setReplayPlaying,
+    exitReplay,
     // Targeting support
     damagePreviews,
     enemyReticleGridId,
@@ -1,4 +1,5 @@
-import abilitiesData from "@/data/battle_abilities.json";
+import { getGameData } from "@/lib/gameData";
+import type { TargetArea } from "@/types/battleSimulator";
 
 export interface AbilityStats {
   ability_cooldown: number;
@@ -6,15 +7,48 @@ export interface AbilityStats {
   armor_piercing_percent: number;
   attack: number;
   attack_direction: number;
+  // How much of the unit's and weapon's stats the ability uses (1 = all, 0 = none)
+  attack_from_unit: number;
+  attack_from_weapon: number;
+  damage_from_unit: number;
+  damage_from_weapon: number;
+  // Crit sources are on (non-zero) or off (0)
+  crit_from_unit: number;
+  crit_from_weapon: number;
+  // Captures the target instead of killing it
+  capture: boolean;
   critical_hit_percent: number;
+  // Almost always 0 and its meaning is unknown, so it isn't added to ability damage
   damage: number;
   damage_type: number;
+  // Suppression (distraction) multiplier and bonus - shown for reference, not simulated
+  damage_distraction: number;
+  damage_distraction_bonus: number;
+  // Non-lethal abilities can't take the target below this percentage of its max HP
+  min_hp_percent: number;
   line_of_fire?: number;
   max_range: number;
+  // Offense modifier when the target is at max range
+  max_range_mod_atk: number;
   min_range: number;
+  // Not the splash percentage: most abilities with it have no damage_area, and most damage_area
+  // splash percentages differ from it. Splash damage comes from damage_area; this is shown as-is.
+  secondary_damage_percent: number | null;
   shots_per_attack: number;
   targets?: number[];
   status_effects?: Record<string, number>;
+  attacks_per_use?: number;
+  charge_time?: number;
+  global_cooldown?: number;
+  // Where the ability can be aimed; absent for plain single target abilities
+  target_area?: {
+    target_type: number;
+    data: { pos?: { x: number; y: number }; damage_percent?: number; weight?: number; order?: number }[];
+    random?: boolean;
+    aoe_order_delay?: number;
+  };
+  // Splash pattern around each impact point
+  damage_area?: { pos?: { x: number; y: number }; damage_percent?: number }[];
 }
 
 export function getLineOfFireLabel(lof: number | undefined): string | null {
@@ -27,19 +61,25 @@ export function getLineOfFireLabel(lof: number | undefined): string | null {
   }
 }
 
+export interface AbilityRequirement {
+  build_time: number;
+  cost: Record<string, number>;
+  prereqs: { _t: string; level?: number; unit_type?: number }[];
+}
+
 export interface Ability {
   damage_animation_type?: string;
   icon: string;
   name: string;
   stats: AbilityStats;
+  // Unlock cost for abilities that have to be trained, keyed by unit ID
+  reqs?: Record<string, AbilityRequirement>;
   inf_hitsound?: string;
   veh_hitsound?: string;
 }
 
-const rawAbilities = abilitiesData as unknown as Record<string, Ability>;
-
 export function getAbilityById(id: number): Ability | undefined {
-  return rawAbilities[id.toString()];
+  return getGameData().abilities[id.toString()];
 }
 
 export function getAbilityName(id: number, t: (key: string) => string): string {
@@ -49,5 +89,27 @@ export function getAbilityName(id: number, t: (key: string) => string): string {
 }
 
 export function getAllAbilities(): Record<string, Ability> {
-  return rawAbilities;
+  return getGameData().abilities;
+}
+
+// Fixed attacks have target_type 1 but have multiple positions in data
+// (single target uses target_type 1 with just the center position)
+export function getAbilityTargetArea(ability: Ability): { targetArea?: TargetArea; isFixed: boolean } {
+  const rawTargetArea = ability.stats.target_area;
+  if (!rawTargetArea) return { isFixed: false };
+
+  const targetArea: TargetArea = {
+    targetType: rawTargetArea.target_type || 1,
+    data: (rawTargetArea.data || []).map(d => ({
+      x: d.pos?.x || 0,
+      y: d.pos?.y || 0,
+      damagePercent: d.damage_percent,
+      weight: d.weight,
+      order: d.order,
+    })),
+    random: rawTargetArea.random || false,
+    aoeOrderDelay: rawTargetArea.aoe_order_delay,
+  };
+  const isFixed = rawTargetArea.target_type === 1 && targetArea.data.some(d => d.x !== 0 || d.y !== 0);
+  return { targetArea, isFixed };
 }
@@ -0,0 +1,116 @@
+// Every ability with the units and weapons that have it, for the ability browser
+import { getAllAbilities, getAbilityTargetArea } from "@/lib/abilities";
+import type { Ability } from "@/lib/abilities";
+import { onGameDataChange } from "@/lib/gameData";
+import { getStatusEffect } from "@/lib/statusEffectData";
+import { expandTargetTags } from "@/lib/tagHierarchy";
+import { allUnits } from "@/lib/units";
+
+export type AbilityShape = "single" | "splash" | "aoe" | "fixed";
+
+export const ABILITY_SHAPES: Record<AbilityShape, { label: string; description: string }> = {
+  single: { label: "Single Target", description: "Hits one position" },
+  splash: { label: "Splash", description: "Single target with splash damage around it" },
+  aoe: { label: "AOE Pattern", description: "Aimed pattern covering several positions" },
+  fixed: { label: "Fixed", description: "Preset positions, no aiming" },
+};
+
+export interface AbilityUser {
+  unitId: number;
+  weaponName: string;
+}
+
+export interface AbilityIndexEntry {
+  id: number;
+  ability: Ability;
+  shape: AbilityShape;
+  // Families of the status effects the ability can inflict
+  statusEffectFamilies: number[];
+  users: AbilityUser[];
+}
+
+export interface AbilityFilterCriteria {
+  damageTypes: number[]; // Deals any of these damage types
+  linesOfFire: number[];
+  range: number | null; // Can hit at this range
+  targetCategories: number[]; // Can target any of these categories
+  statusEffects: number[]; // Inflicts any of these status effect families
+  shapes: AbilityShape[];
+}
+
+export const EMPTY_ABILITY_FILTERS: AbilityFilterCriteria = {
+  damageTypes: [],
+  linesOfFire: [],
+  range: null,
+  targetCategories: [],
+  statusEffects: [],
+  shapes: [],
+};
+
+// Built on first use and dropped when the game data changes
+let abilityIndex: AbilityIndexEntry[] | null = null;
+
+onGameDataChange(() => {
+  abilityIndex = null;
+});
+
+function getAbilityShape(ability: Ability): AbilityShape {
+  const { targetArea, isFixed } = getAbilityTargetArea(ability);
+  if (isFixed) return "fixed";
+  if (targetArea?.targetType === 2 && targetArea.data.some(d => d.x !== 0 || d.y !== 0)) return "aoe";
+  if (ability.stats.damage_area?.some(d => (d.pos?.x || 0) !== 0 || (d.pos?.y || 0) !== 0)) return "splash";
+  return "single";
+}
+
+export function getAbilityIndex(): AbilityIndexEntry[] {
+  if (abilityIndex) return abilityIndex;
+
+  const users = new Map<number, AbilityUser[]>();
+  for (const unit of allUnits) {
+    Object.entries(unit.weapons?.weapons ?? {}).forEach(([weaponName, weapon]) => {
+      weapon.abilities.forEach(abilityId => {
+        users.set(abilityId, [...(users.get(abilityId) ?? []), { unitId: unit.id, weaponName }]);
+      });
+    });
+  }
+
+  abilityIndex = Object.entries(getAllAbilities())
+    .map(([id, ability]) => {
+      const families = Object.keys(ability.stats.status_effects ?? {})
+        .map(effectId => getStatusEffect(parseInt(effectId))?.family)
+        .filter((family): family is number => family !== undefined);
+      return {
+        id: parseInt(id),
+        ability,
+        shape: getAbilityShape(ability),
+        statusEffectFamilies: [...new Set(families)],
+        users: users.get(parseInt(id)) ?? [],
+      };
+    })
+    .sort((a, b) => a.id - b.id);
+  return abilityIndex;
+}
+
+export function getAbilityIndexEntry(id: number): AbilityIndexEntry | undefined {
+  return getAbilityIndex().find(entry => entry.id === id);
+}
+
+// No target restrictions means the ability can target anything
+export function abilityCanTargetCategory(ability: Ability, targetTag: number): boolean {
+  const targets = ability.stats.targets || [];
+  return targets.length === 0 || expandTargetTags(targets).includes(targetTag);
+}
+
+// Each criterion matches any of its selected values; criteria combine with AND
+export function filterAbilities(entries: AbilityIndexEntry[], criteria: Partial<AbilityFilterCriteria>): AbilityIndexEntry[] {
+  return entries.filter(({ ability, shape, statusEffectFamilies }) => {
+    const { stats } = ability;
+    if (criteria.damageTypes?.length && !criteria.damageTypes.includes(stats.damage_type)) return false;
+    if (criteria.linesOfFire?.length && !criteria.linesOfFire.includes(stats.line_of_fire ?? 1)) return false;
+    if (typeof criteria.range === "number" && (criteria.range < stats.min_range || criteria.range > stats.max_range)) return false;
+    if (criteria.targetCategories?.length && !criteria.targetCategories.some(tag => abilityCanTargetCategory(ability, tag))) return false;
+    if (criteria.statusEffects?.length && !criteria.statusEffects.some(family => statusEffectFamilies.includes(family))) return false;
+    if (criteria.shapes?.length && !criteria.shapes.includes(shape)) return false;
+    return true;
+  });
+}
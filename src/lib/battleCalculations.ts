@@ -1,10 +1,11 @@
 import { getUnitById } from "@/lib/units";
-import { getAbilityById } from "@/lib/abilities";
+import { getAbilityById, getAbilityTargetArea } from "@/lib/abilities";
 import { unitMatchesTargets } from "@/lib/tagHierarchy";
-import { getStatusEffect, getEffectDisplayNameTranslated, getEffectColor } from "@/lib/statusEffects";
+import { getStatusEffect, getEffectDisplayNameTranslated, getEffectColor } from "@/lib/statusEffectData";
 import { getBlockingUnits, checkLineOfFire, isTargetInRange, calculateRange, BlockingUnit } from "@/lib/battleTargeting";
 import { UnitBlockingLabels, UnitTagLabels } from "@/data/gameEnums";
-import type { AbilityInfo, DamagePreview, DamageResult, PartyUnit, StatusEffectPreview, TargetArea } from "@/types/battleSimulator";
+import { createSeededRng } from "@/lib/battleRng";
+import type { AbilityInfo, BattleLayout, DamageDistribution, DamagePreview, DamageResult, PartyUnit, StatusEffectPreview, TargetArea } from "@/types/battleSimulator";
 import { DAMAGE_TYPE_MAP, getAffectedGridPositions, getFixedAttackPositions } from "@/types/battleSimulator";
 import type { EncounterUnit } from "@/types/encounters";
 import type { DamageMods, UnitStats } from "@/types/units";
@@ -26,6 +27,21 @@ export function calculateDamageAtRank(baseDamage: number, power: number): number
   return Math.floor(baseDamage * (1 + 2 * 0.01 * power));
 }
 
+// Ability damage: the weapon's share of its base damage, scaled by the unit's share of its power
+export function calculateAbilityDamage(
+  baseDamage: number,
+  power: number,
+  damageFromWeapon: number,
+  damageFromUnit: number
+): number {
+  return calculateDamageAtRank(baseDamage * damageFromWeapon, power * damageFromUnit);
+}
+
+// Offense against a target at the given range - some abilities lose accuracy at max range
+export function getOffenseAtRange(ability: AbilityInfo, range: number): number {
+  return range >= ability.maxRange ? ability.offense + ability.maxRangeOffenseMod : ability.offense;
+}
+
 // Calculate dodge chance: defense - offense + 5 (only positive values)
 export function calculateDodgeChance(defenderDefense: number, attackerOffense: number): number {
   const dodgeChance = defenderDefense - attackerOffense + 5;
@@ -218,6 +234,156 @@ function multiplyDamageResult(result: DamageResult, shots: number): DamageResult
   };
 }
 
+// Damage distributions are sampled with a fixed seed so the preview doesn't flicker between renders
+const DISTRIBUTION_SAMPLES = 250;
+const DISTRIBUTION_SEED = 20240101;
+const DISTRIBUTION_BUCKETS = 8;
+// Previews recompute on every reticle move and battle state change, so samples are kept per
+// (attacker ability, target state, hit chances) and reused; the cache is cleared when it fills up
+const DISTRIBUTION_CACHE_SIZE = 500;
+
+// Target state a damage distribution is sampled against
+export interface DistributionTarget {
+  hp: number;
+  maxHp: number;
+  armor: number;
+  stats?: UnitStats;
+  statusDamageMods?: Record<string, number>;
+  statusArmorDamageMods?: Record<string, number>;
+  bypassArmor?: boolean;
+}
+
+// How an attack connects with the target
+export interface DistributionAttack {
+  damagePercent: number;
+  dodgeChance: number;
+  critChance: number;
+  statusEffects: StatusEffectPreview[];
+  // Random attacks: each shot lands on this target with this chance and is dodged on its own
+  shotLandChance?: number;
+}
+
+type SampledDistribution = Omit<DamageDistribution, "statusProcChances"> & { connectChance: number };
+
+const distributionCache = new Map<string, SampledDistribution>();
+
+// Outcome of a full attack on one target, with the chance each of the ability's status effects lands
+export function calculateDamageDistribution(
+  ability: AbilityInfo,
+  target: DistributionTarget,
+  attack: DistributionAttack,
+  environmentalDamageMods?: Record<string, number>
+): DamageDistribution {
+  const key = JSON.stringify([
+    ability.minDamage, ability.maxDamage, ability.shotsPerAttack, ability.attacksPerUse,
+    ability.damageType, ability.armorPiercing, ability.minHpPercent,
+    target.hp, target.maxHp, target.armor, target.bypassArmor,
+    target.stats?.armor_damage_mods, target.stats?.damage_mods, target.statusDamageMods, target.statusArmorDamageMods,
+    attack.damagePercent, attack.dodgeChance, attack.critChance, attack.shotLandChance,
+    environmentalDamageMods,
+  ]);
+  let sampled = distributionCache.get(key);
+  if (!sampled) {
+    if (distributionCache.size >= DISTRIBUTION_CACHE_SIZE) distributionCache.clear();
+    sampled = sampleDamageDistribution(ability, target, attack, environmentalDamageMods);
+    distributionCache.set(key, sampled);
+  }
+
+  const { connectChance, ...distribution } = sampled;
+  return {
+    ...distribution,
+    statusProcChances: attack.statusEffects
+      .filter(effect => !effect.isImmune)
+      .map(effect => ({
+        effectId: effect.effectId,
+        name: effect.name,
+        color: effect.color,
+        chance: connectChance * Math.min(100, effect.chance) / 100,
+      })),
+  };
+}
+
+// Sample the outcome of a full attack (shots x attacks) on one target, following the live battle rolls:
+// one dodge roll per attack (per shot for random attacks), a crit roll per shot, and armor that
+// depletes as the shots land
+function sampleDamageDistribution(
+  ability: AbilityInfo,
+  target: DistributionTarget,
+  attack: DistributionAttack,
+  environmentalDamageMods?: Record<string, number>
+): SampledDistribution {
+  const random = createSeededRng(DISTRIBUTION_SEED);
+  const totalShots = ability.shotsPerAttack * ability.attacksPerUse;
+  const isRandom = attack.shotLandChance !== undefined;
+  const minDamage = Math.floor(ability.minDamage * (attack.damagePercent / 100));
+  const maxDamage = Math.floor(ability.maxDamage * (attack.damagePercent / 100));
+  const minHp = ability.minHpPercent > 0 ? Math.ceil(target.maxHp * ability.minHpPercent / 100) : 0;
+
+  const hpLosses: number[] = [];
+  let totalArmorLoss = 0;
+  let kills = 0;
+  let connected = 0;
+
+  for (let i = 0; i < DISTRIBUTION_SAMPLES; i++) {
+    let hp = target.hp;
+    let armor = target.armor;
+    let landed = 0;
+
+    const dodgedAttack = !isRandom && random() * 100 < attack.dodgeChance;
+    for (let shot = 0; shot < totalShots && !dodgedAttack; shot++) {
+      if (isRandom && (random() >= attack.shotLandChance! || random() * 100 < attack.dodgeChance)) continue;
+      landed++;
+
+      const baseDamage = Math.floor(random() * (maxDamage - minDamage + 1)) + minDamage;
+      const isCrit = random() * 100 < attack.critChance;
+      const result = calculateDamageWithArmor(
+        isCrit ? baseDamage * 2 : baseDamage,
+        armor,
+        target.stats?.armor_damage_mods,
+        target.stats?.damage_mods,
+        ability.damageType,
+        ability.armorPiercing,
+        environmentalDamageMods,
+        target.statusDamageMods,
+        target.statusArmorDamageMods,
+        target.bypassArmor
+      );
+      armor = Math.max(0, armor - result.armorDamage);
+      hp = Math.max(minHp, hp - result.hpDamage);
+    }
+
+    hpLosses.push(target.hp - hp);
+    totalArmorLoss += target.armor - armor;
+    if (hp <= 0) kills++;
+    if (landed > 0) connected++;
+  }
+
+  // Spread HP loss over equal-width buckets up to the worst sampled outcome
+  const maxLoss = Math.max(...hpLosses);
+  const bucketWidth = Math.max(1, Math.ceil((maxLoss + 1) / DISTRIBUTION_BUCKETS));
+  const counts = new Map<number, number>();
+  for (const loss of hpLosses) {
+    const bucket = Math.floor(loss / bucketWidth);
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  }
+  const buckets = Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, count]) => ({
+      from: bucket * bucketWidth,
+      to: Math.min(maxLoss, (bucket + 1) * bucketWidth - 1),
+      probability: count / DISTRIBUTION_SAMPLES,
+    }));
+
+  return {
+    samples: DISTRIBUTION_SAMPLES,
+    expectedHpLoss: hpLosses.reduce((sum, loss) => sum + loss, 0) / DISTRIBUTION_SAMPLES,
+    expectedArmorLoss: totalArmorLoss / DISTRIBUTION_SAMPLES,
+    killChance: kills / DISTRIBUTION_SAMPLES,
+    buckets,
+    connectChance: connected / DISTRIBUTION_SAMPLES,
+  };
+}
+
 // Calculate status effect previews for a target
 // damagePercentMod: Optional modifier for splash damage (100 = full, 50 = half chance)
 function calculateStatusEffectPreviews(
@@ -283,38 +449,27 @@ export function getUnitAbilities(unitId: number, rank: number): AbilityInfo[] {
       const ability = getAbilityById(abilityId);
       if (!ability) return;
 
-      const minDamage = calculateDamageAtRank(weapon.stats.base_damage_min, power);
-      const maxDamage = calculateDamageAtRank(weapon.stats.base_damage_max, power);
-      // Total attack = weapon base_atk + ability attack
-      const totalAttack = (weapon.stats.base_atk || 0) + ability.stats.attack;
-      const offense = totalAttack + accuracy;
+      // Composition flags pick how much of the unit's and weapon's stats the ability uses
+      const attackFromUnit = ability.stats.attack_from_unit ?? 1;
+      const attackFromWeapon = ability.stats.attack_from_weapon ?? 1;
+      const damageFromUnit = ability.stats.damage_from_unit ?? 1;
+      const damageFromWeapon = ability.stats.damage_from_weapon ?? 1;
+      // Crit only switches the unit's and weapon's crit on or off - a few abilities have values like 25 or 50
+      // that would put crit far past 100% as multipliers
+      const critFromUnit = (ability.stats.crit_from_unit ?? 1) > 0 ? 1 : 0;
+      const critFromWeapon = (ability.stats.crit_from_weapon ?? 1) > 0 ? 1 : 0;
+
+      const minDamage = calculateAbilityDamage(weapon.stats.base_damage_min, power, damageFromWeapon, damageFromUnit);
+      const maxDamage = calculateAbilityDamage(weapon.stats.base_damage_max, power, damageFromWeapon, damageFromUnit);
+      // Offense = ability attack + weapon base_atk + unit accuracy
+      const offense = Math.floor(ability.stats.attack + (weapon.stats.base_atk || 0) * attackFromWeapon + accuracy * attackFromUnit);
 
       // Parse target area data
-      const rawTargetArea = (ability.stats as any).target_area;
-      let targetArea = undefined;
-      let isFixed = false;
+      const rawTargetArea = ability.stats.target_area;
+      const { targetArea, isFixed } = getAbilityTargetArea(ability);
       let isSingleTarget = true; // Default to single target
       
-      if (rawTargetArea) {
-        targetArea = {
-          targetType: rawTargetArea.target_type || 1,
-          data: (rawTargetArea.data || []).map((d: any) => ({
-            x: d.pos?.x || 0,
-            y: d.pos?.y || 0,
-            damagePercent: d.damage_percent,
-            weight: d.weight,
-            order: d.order,
-          })),
-          random: rawTargetArea.random || false,
-          aoeOrderDelay: rawTargetArea.aoe_order_delay,
-        };
-        
-        // Fixed attacks have target_type 1 but have multiple positions in data
-        // (single target uses target_type 1 with just the center position)
-        // If target_type is 1 AND there are positions with non-zero offsets, it's fixed
-        isFixed = rawTargetArea.target_type === 1 && 
-          targetArea.data.some((d: any) => d.x !== 0 || d.y !== 0);
-        
+      if (rawTargetArea && targetArea) {
         // Single target = no target_area OR only center position with 100% damage
         // AOE (target_type 2) = has splash pattern, needs reticle
         // Fixed (target_type 1 with offsets) = no reticle but shows pattern
@@ -363,15 +518,18 @@ export function getUnitAbilities(unitId: number, rank: number): AbilityInfo[] {
         damageType: ability.stats.damage_type,
         minRange: ability.stats.min_range,
         maxRange: ability.stats.max_range,
+        maxRangeOffenseMod: ability.stats.max_range_mod_atk || 0,
         cooldown: ability.stats.ability_cooldown,
         globalCooldown: (ability.stats as any).global_cooldown || 0,
         armorPiercing: ability.stats.armor_piercing_percent,
-        critPercent: ability.stats.critical_hit_percent,
-        unitBaseCrit: unitBaseCrit,
+        critPercent: ability.stats.critical_hit_percent + (weapon.stats.base_crit_percent || 0) * critFromWeapon,
+        unitBaseCrit: unitBaseCrit * critFromUnit,
         critBonuses: (ability.stats as any).critical_bonuses || {},
         chargeTime: (ability.stats as any).charge_time || 0,
-        suppressionMultiplier: (ability.stats as any).damage_distraction || 1,
-        suppressionBonus: (ability.stats as any).damage_distraction_bonus || 0,
+        suppressionMultiplier: ability.stats.damage_distraction ?? 0,
+        suppressionBonus: ability.stats.damage_distraction_bonus ?? 0,
+        minHpPercent: ability.stats.min_hp_percent ?? 0,
+        capture: ability.stats.capture === true,
         statusEffects: ability.stats.status_effects || {},
         targetArea,
         damageArea,
@@ -442,7 +600,7 @@ export function calculateCritChance(
   // Start with unit base crit + ability crit
   let totalCrit = unitBaseCrit + abilityCrit;
 
-  if (!targetUnit) return totalCrit;
+  if (!targetUnit) return Math.min(100, totalCrit);
 
   // critBonuses are keyed by tag IDs - check if target has any matching tags
   // Use tag hierarchy: if a bonus applies to a parent tag, it applies to all child tags
@@ -457,7 +615,7 @@ export function calculateCritChance(
     }
   }
 
-  return totalCrit + tagBonus;
+  return Math.min(100, totalCrit + tagBonus);
 }
 
 // Calculate damage preview for all valid targets
@@ -467,7 +625,8 @@ export function calculateDamagePreviewsForEnemy(
   enemyUnits: EncounterUnit[],
   enemyRankOverrides: Record<number, number> = {},
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const blockingUnits = getBlockingUnits(enemyUnits, true);
@@ -480,7 +639,6 @@ export function calculateDamagePreviewsForEnemy(
       const enemyStats = getUnitStatsAtRank(enemyUnit.unit_id, enemyRank);
       const canTarget = canTargetUnit(enemyUnit.unit_id, attackerAbility.targets);
       const defense = enemyStats?.defense || 0;
-      const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
       const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, enemyUnit.unit_id);
 
       const armorHp = enemyStats?.armor_hp || 0;
@@ -488,7 +646,8 @@ export function calculateDamagePreviewsForEnemy(
       const immunities = enemy?.statsConfig?.status_effect_immunities || [];
       
       // Check range
-      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false);
+      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false, undefined, undefined, layout);
+      const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
       const inRange = range >= attackerAbility.minRange && range <= attackerAbility.maxRange;
       
       // Check line of fire blocking
@@ -497,7 +656,8 @@ export function calculateDamagePreviewsForEnemy(
         enemyUnit.grid_id!,
         attackerAbility.lineOfFire,
         false,
-        blockingUnits
+        blockingUnits,
+        layout
       );
       
       const minResult = calculateDamageWithArmor(
@@ -562,6 +722,14 @@ export function calculateDamagePreviewsForEnemy(
         ...blockerInfo,
         blockReason: blockCheck.reason,
         damageType: attackerAbility.damageType,
+        distribution: includeBreakdown && canTarget
+          ? calculateDamageDistribution(
+              attackerAbility,
+              { hp, maxHp: hp, armor: armorHp, stats: enemyStats },
+              { damagePercent: 100, dodgeChance, critChance, statusEffects },
+              environmentalDamageMods
+            )
+          : undefined,
       };
     });
 }
@@ -571,7 +739,8 @@ export function calculateDamagePreviewsForFriendly(
   attackerGridId: number,
   friendlyUnits: PartyUnit[],
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const blockingUnits = getBlockingUnits(friendlyUnits, false);
@@ -581,7 +750,6 @@ export function calculateDamagePreviewsForFriendly(
     const stats = getUnitStatsAtRank(friendlyUnit.unitId, friendlyUnit.rank);
     const canTarget = canTargetUnit(friendlyUnit.unitId, attackerAbility.targets);
     const defense = stats?.defense || 0;
-    const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
     const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, friendlyUnit.unitId);
 
     const armorHp = stats?.armor_hp || 0;
@@ -589,7 +757,8 @@ export function calculateDamagePreviewsForFriendly(
     const immunities = unit?.statsConfig?.status_effect_immunities || [];
     
     // Check range
-    const range = calculateRange(attackerGridId, friendlyUnit.gridId, true);
+    const range = calculateRange(attackerGridId, friendlyUnit.gridId, true, undefined, undefined, layout);
+    const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
     const inRange = range >= attackerAbility.minRange && range <= attackerAbility.maxRange;
     
     // Check line of fire blocking
@@ -598,7 +767,8 @@ export function calculateDamagePreviewsForFriendly(
       friendlyUnit.gridId,
       attackerAbility.lineOfFire,
       true,
-      blockingUnits
+      blockingUnits,
+      layout
     );
     
     const minResult = calculateDamageWithArmor(
@@ -663,6 +833,14 @@ export function calculateDamagePreviewsForFriendly(
       ...blockerInfo,
       blockReason: blockCheck.reason,
       damageType: attackerAbility.damageType,
+      distribution: includeBreakdown && canTarget
+        ? calculateDamageDistribution(
+            attackerAbility,
+            { hp, maxHp: hp, armor: armorHp, stats },
+            { damagePercent: 100, dodgeChance, critChance, statusEffects },
+            environmentalDamageMods
+          )
+        : undefined,
     };
   });
 }
@@ -675,7 +853,8 @@ export function calculateAoeDamagePreviewsForEnemy(
   reticleGridId: number,
   enemyRankOverrides: Record<number, number> = {},
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const affectedPositions = getAffectedGridPositions(reticleGridId, attackerAbility.targetArea, true, attackerAbility.damageArea);
@@ -695,7 +874,6 @@ export function calculateAoeDamagePreviewsForEnemy(
       const enemyStats = getUnitStatsAtRank(enemyUnit.unit_id, enemyRank);
       const canTarget = canTargetUnit(enemyUnit.unit_id, attackerAbility.targets);
       const defense = enemyStats?.defense || 0;
-      const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
       const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, enemyUnit.unit_id);
 
       const armorHp = enemyStats?.armor_hp || 0;
@@ -704,7 +882,8 @@ export function calculateAoeDamagePreviewsForEnemy(
       
       // For AOE attacks, splash damage ignores range - only the reticle position matters
       // The unit is hit because they're in the splash area, not because they're in range
-      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false);
+      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false, undefined, undefined, layout);
+      const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
       const inRange = true; // AOE splash always hits if in affected area
       
       // Check line of fire blocking
@@ -713,7 +892,8 @@ export function calculateAoeDamagePreviewsForEnemy(
         enemyUnit.grid_id!,
         attackerAbility.lineOfFire,
         false,
-        blockingUnits
+        blockingUnits,
+        layout
       );
       
       // Apply damage percent modifier to damage
@@ -783,6 +963,14 @@ export function calculateAoeDamagePreviewsForEnemy(
         ...blockerInfo,
         blockReason: blockCheck.reason,
         damageType: attackerAbility.damageType,
+        distribution: includeBreakdown && canTarget
+          ? calculateDamageDistribution(
+              attackerAbility,
+              { hp, maxHp: hp, armor: armorHp, stats: enemyStats },
+              { damagePercent, dodgeChance, critChance, statusEffects },
+              environmentalDamageMods
+            )
+          : undefined,
       };
     });
 }
@@ -793,7 +981,8 @@ export function calculateAoeDamagePreviewsForFriendly(
   friendlyUnits: PartyUnit[],
   reticleGridId: number,
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const affectedPositions = getAffectedGridPositions(reticleGridId, attackerAbility.targetArea, false, attackerAbility.damageArea);
@@ -812,7 +1001,6 @@ export function calculateAoeDamagePreviewsForFriendly(
       const stats = getUnitStatsAtRank(friendlyUnit.unitId, friendlyUnit.rank);
       const canTarget = canTargetUnit(friendlyUnit.unitId, attackerAbility.targets);
       const defense = stats?.defense || 0;
-      const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
       const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, friendlyUnit.unitId);
 
       const armorHp = stats?.armor_hp || 0;
@@ -820,7 +1008,8 @@ export function calculateAoeDamagePreviewsForFriendly(
       const immunities = unit?.statsConfig?.status_effect_immunities || [];
       
       // For AOE attacks, splash damage ignores range - only the reticle position matters
-      const range = calculateRange(attackerGridId, friendlyUnit.gridId, true);
+      const range = calculateRange(attackerGridId, friendlyUnit.gridId, true, undefined, undefined, layout);
+      const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
       const inRange = true; // AOE splash always hits if in affected area
       
       // Check line of fire blocking
@@ -829,7 +1018,8 @@ export function calculateAoeDamagePreviewsForFriendly(
         friendlyUnit.gridId,
         attackerAbility.lineOfFire,
         true,
-        blockingUnits
+        blockingUnits,
+        layout
       );
 
       // Apply damage percent modifier
@@ -899,6 +1089,14 @@ export function calculateAoeDamagePreviewsForFriendly(
         ...blockerInfo,
         blockReason: blockCheck.reason,
         damageType: attackerAbility.damageType,
+        distribution: includeBreakdown && canTarget
+          ? calculateDamageDistribution(
+              attackerAbility,
+              { hp, maxHp: hp, armor: armorHp, stats },
+              { damagePercent, dodgeChance, critChance, statusEffects },
+              environmentalDamageMods
+            )
+          : undefined,
       };
     });
 }
@@ -911,7 +1109,8 @@ export function calculateFixedDamagePreviewsForEnemy(
   fixedPositions: { gridId: number; damagePercent: number }[],
   enemyRankOverrides: Record<number, number> = {},
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const blockingUnits = getBlockingUnits(enemyUnits, true);
@@ -930,7 +1129,6 @@ export function calculateFixedDamagePreviewsForEnemy(
       const enemyStats = getUnitStatsAtRank(enemyUnit.unit_id, enemyRank);
       const canTarget = canTargetUnit(enemyUnit.unit_id, attackerAbility.targets);
       const defense = enemyStats?.defense || 0;
-      const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
       const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, enemyUnit.unit_id);
 
       const armorHp = enemyStats?.armor_hp || 0;
@@ -938,7 +1136,8 @@ export function calculateFixedDamagePreviewsForEnemy(
       const immunities = enemy?.statsConfig?.status_effect_immunities || [];
       
       // Fixed pattern attacks: splash damage ignores range
-      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false);
+      const range = calculateRange(attackerGridId, enemyUnit.grid_id!, false, undefined, undefined, layout);
+      const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
       const inRange = true; // Fixed pattern splash always hits
       
       // Check line of fire blocking
@@ -947,7 +1146,8 @@ export function calculateFixedDamagePreviewsForEnemy(
         enemyUnit.grid_id!,
         attackerAbility.lineOfFire,
         false,
-        blockingUnits
+        blockingUnits,
+        layout
       );
       
       // Apply damage percent modifier from fixed position
@@ -1015,6 +1215,14 @@ export function calculateFixedDamagePreviewsForEnemy(
         blockedByUnitId: blockCheck.blockedBy?.unitId,
         blockReason: blockCheck.reason,
         damageType: attackerAbility.damageType,
+        distribution: includeBreakdown && canTarget
+          ? calculateDamageDistribution(
+              attackerAbility,
+              { hp, maxHp: hp, armor: armorHp, stats: enemyStats },
+              { damagePercent, dodgeChance, critChance, statusEffects },
+              environmentalDamageMods
+            )
+          : undefined,
       };
     });
 }
@@ -1025,7 +1233,8 @@ export function calculateFixedDamagePreviewsForFriendly(
   friendlyUnits: PartyUnit[],
   fixedPositions: { gridId: number; damagePercent: number }[],
   environmentalDamageMods?: Record<string, number>,
-  includeBreakdown?: boolean
+  includeBreakdown?: boolean,
+  layout?: BattleLayout
 ): DamagePreview[] {
   const totalShots = attackerAbility.shotsPerAttack * attackerAbility.attacksPerUse;
   const blockingUnits = getBlockingUnits(friendlyUnits, false);
@@ -1043,7 +1252,6 @@ export function calculateFixedDamagePreviewsForFriendly(
       const stats = getUnitStatsAtRank(friendlyUnit.unitId, friendlyUnit.rank);
       const canTarget = canTargetUnit(friendlyUnit.unitId, attackerAbility.targets);
       const defense = stats?.defense || 0;
-      const dodgeChance = calculateDodgeChance(defense, attackerAbility.offense);
       const critChance = calculateCritChance(attackerAbility.unitBaseCrit, attackerAbility.critPercent, attackerAbility.critBonuses, friendlyUnit.unitId);
 
       const armorHp = stats?.armor_hp || 0;
@@ -1051,7 +1259,8 @@ export function calculateFixedDamagePreviewsForFriendly(
       const immunities = unit?.statsConfig?.status_effect_immunities || [];
       
       // Fixed pattern attacks: splash damage ignores range
-      const range = calculateRange(attackerGridId, friendlyUnit.gridId, true);
+      const range = calculateRange(attackerGridId, friendlyUnit.gridId, true, undefined, undefined, layout);
+      const dodgeChance = calculateDodgeChance(defense, getOffenseAtRange(attackerAbility, range));
       const inRange = true; // Fixed pattern splash always hits
       
       // Check line of fire blocking
@@ -1060,7 +1269,8 @@ export function calculateFixedDamagePreviewsForFriendly(
         friendlyUnit.gridId,
         attackerAbility.lineOfFire,
         true,
-        blockingUnits
+        blockingUnits,
+        layout
       );
 
       // Apply damage percent modifier
@@ -1128,6 +1338,14 @@ export function calculateFixedDamagePreviewsForFriendly(
         blockedByUnitId: blockCheck.blockedBy?.unitId,
         blockReason: blockCheck.reason,
         damageType: attackerAbility.damageType,
+        distribution: includeBreakdown && canTarget
+          ? calculateDamageDistribution(
+              attackerAbility,
+              { hp, maxHp: hp, armor: armorHp, stats },
+              { damagePercent, dodgeChance, critChance, statusEffects },
+              environmentalDamageMods
+            )
+          : undefined,
       };
     });
 }
@@ -1,4 +1,5 @@
-import battleConfigData from "@/data/battle_config.json";
+import { getGameData } from "@/lib/gameData";
+import { DEFAULT_BATTLE_LAYOUT, type BattleLayout } from "@/types/battleSimulator";
 
 interface ClassType {
   damage_mods: Record<string, number>;
@@ -6,7 +7,15 @@ interface ClassType {
   icon: string;
 }
 
-interface BattleConfig {
+interface LayoutConfig {
+  base_grids: {
+    attacker: number[][];
+    defender: number[][];
+  };
+  defender_wall: number[];
+}
+
+export interface BattleConfig {
   classes: {
     class_types: Record<string, ClassType>;
     configs: {
@@ -14,14 +23,12 @@ interface BattleConfig {
       weak_vs_cutoff: number;
     };
   };
-  layouts: Record<string, unknown>;
+  layouts: Record<string, LayoutConfig>;
   settings: Record<string, unknown>;
 }
 
-const config = battleConfigData as BattleConfig;
-
 export function getClassType(classId: number): ClassType | undefined {
-  return config.classes.class_types[classId.toString()];
+  return getGameData().battleConfig.classes.class_types[classId.toString()];
 }
 
 export function getClassDisplayName(classId: number): string {
@@ -40,8 +47,23 @@ export function getClassIcon(classId: number): string {
 }
 
 export function getAllClassTypes(): { id: number; classType: ClassType }[] {
-  return Object.entries(config.classes.class_types).map(([id, classType]) => ({
+  return Object.entries(getGameData().battleConfig.classes.class_types).map(([id, classType]) => ({
     id: parseInt(id),
     classType,
   }));
 }
+
+// Resolve an encounter layout into friendly/enemy grid shapes
+// The defender wall goes to whichever side is defending (the enemy unless the player defends)
+export function getBattleLayout(layoutId: number | undefined, isPlayerAttacker: boolean = true): BattleLayout {
+  const layout = layoutId !== undefined ? getGameData().battleConfig.layouts[layoutId.toString()] : undefined;
+  if (!layout) return DEFAULT_BATTLE_LAYOUT;
+
+  const attacker = { cells: layout.base_grids.attacker };
+  const defender = { cells: layout.base_grids.defender, wall: layout.defender_wall };
+  return {
+    layoutId: layoutId!,
+    friendly: isPlayerAttacker ? attacker : defender,
+    enemy: isPlayerAttacker ? defender : attacker,
+  };
+}
@@ -0,0 +1,101 @@
+// Expected damage estimates for battle actions
+// Used by automated players and enemy AI to compare actions without rolling the RNG.
+import {
+  isRandomAttack,
+  isUnitStunned,
+  getAttackAffectedPositions,
+  hasSingleSelectionSplash,
+  getStatusEffectDamageMods,
+  getStatusEffectArmorDamageMods,
+  getAttackRange,
+  limitHpDamage,
+} from "@/lib/liveBattleEngine";
+import { calculateDodgeChance, calculateDamageWithArmor, canTargetUnit, calculateCritChance, getOffenseAtRange } from "@/lib/battleCalculations";
+import { getBlockingUnits, checkLineOfFire } from "@/lib/battleTargeting";
+import { getUnitById } from "@/lib/units";
+import type { AbilityInfo } from "@/types/battleSimulator";
+import type { LiveBattleState, LiveBattleUnit } from "@/types/liveBattle";
+
+// One (unit, ability, target) choice available to either side
+export interface ActionCandidate {
+  attacker: LiveBattleUnit;
+  ability: AbilityInfo;
+  targetGridId: number;
+}
+
+// Number of grid positions random attacks spread their shots over
+const RANDOM_ATTACK_TILE_COUNT = 13;
+
+// Estimate the expected damage (armor + HP) an action deals to each enemy it hits
+// Uses average rolls weighted by dodge and crit chance; damage is capped at the target's remaining HP + armor
+export function estimateActionDamage(
+  state: LiveBattleState,
+  candidate: ActionCandidate,
+  environmentalDamageMods?: Record<string, number>
+): Map<number, number> {
+  const { attacker, ability, targetGridId } = candidate;
+  const damageByGridId = new Map<number, number>();
+  const targets = attacker.isEnemy ? state.friendlyUnits : state.enemyUnits;
+  const totalShots = ability.shotsPerAttack * ability.attacksPerUse;
+  const isRandom = isRandomAttack(ability);
+
+  const affectedPositions = isRandom
+    ? targets.filter(t => !t.isDead).map(t => ({ gridId: t.gridId, damagePercent: 100 }))
+    : getAttackAffectedPositions(attacker, ability, targetGridId, state);
+
+  // AOE and splash attacks check blocking once at the reticle; other attacks check each target
+  const checksEachTarget = !isRandom && !hasSingleSelectionSplash(ability) && ability.targetArea?.targetType !== 2;
+  const blockingUnits = getBlockingUnits(
+    targets.filter(u => !u.isDead).map(u => ({ unit_id: u.unitId, grid_id: u.gridId })),
+    true
+  );
+
+  // Random attacks aren't aimed, so the max range modifier doesn't apply to them
+  const aimRange = isRandom ? undefined : getAttackRange(attacker, targetGridId, state);
+
+  for (const pos of affectedPositions) {
+    const target = targets.find(u => u.gridId === pos.gridId && !u.isDead);
+    if (!target || !canTargetUnit(target.unitId, ability.targets)) continue;
+
+    if (checksEachTarget) {
+      const blockCheck = checkLineOfFire(attacker.gridId, target.gridId, ability.lineOfFire, attacker.isEnemy, blockingUnits, state.layout);
+      if (blockCheck.isBlocked) continue;
+    }
+
+    const targetStats = getUnitById(target.unitId)?.statsConfig?.stats?.[target.rank - 1];
+    const isStunned = isUnitStunned(target);
+    const dodgeChance = Math.max(0, calculateDodgeChance(targetStats?.defense || 0, getOffenseAtRange(ability, aimRange)) - (isStunned ? 20 : 0));
+    const critChance = calculateCritChance(ability.unitBaseCrit, ability.critPercent, ability.critBonuses, target.unitId);
+
+    const averageRoll = ((ability.minDamage + ability.maxDamage) / 2) * (pos.damagePercent / 100);
+    const expectedRoll = Math.floor(averageRoll * (1 + Math.min(100, critChance) / 100));
+    const statusDamageMods = getStatusEffectDamageMods(target);
+    const statusArmorDamageMods = getStatusEffectArmorDamageMods(target);
+
+    const perShot = calculateDamageWithArmor(
+      expectedRoll,
+      target.currentArmor,
+      targetStats?.armor_damage_mods,
+      targetStats?.damage_mods,
+      ability.damageType,
+      ability.armorPiercing,
+      environmentalDamageMods,
+      Object.keys(statusDamageMods).length > 0 ? statusDamageMods : undefined,
+      Object.keys(statusArmorDamageMods).length > 0 ? statusArmorDamageMods : undefined,
+      targetStats?.armor_def_style === 2 && isStunned
+    );
+
+    const shots = isRandom ? totalShots / RANDOM_ATTACK_TILE_COUNT : totalShots;
+    const expected = shots * (1 - Math.min(100, dodgeChance) / 100) * (perShot.armorDamage + perShot.hpDamage);
+    damageByGridId.set(target.gridId, Math.min(expected, limitHpDamage(target, target.currentHp, ability) + target.currentArmor));
+  }
+
+  return damageByGridId;
+}
+
+// Sum of expected damage over every unit an action hits
+export function totalExpectedDamage(damageByGridId: Map<number, number>): number {
+  let total = 0;
+  for (const damage of damageByGridId.values()) total += damage;
+  return total;
+}
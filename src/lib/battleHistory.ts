@@ -0,0 +1,86 @@
+// Bounded undo/redo history for live battles
+// Battle states produced by the reducer are never mutated, so checkpoints can hold them directly.
+// A checkpoint is taken at every point where the player has to decide (and when the battle ends),
+// and carries the RNG position so a restored battle continues the exact same roll sequence.
+import type { LiveBattleState } from "@/types/liveBattle";
+
+export interface BattleCheckpoint {
+  state: LiveBattleState;
+  turn: number;
+  wave: number;
+  rngPosition: number;
+  // Battle log length at the checkpoint - turns from this index on happened afterwards
+  logLength: number;
+}
+
+export interface BattleHistory {
+  checkpoints: BattleCheckpoint[];
+  // Index of the checkpoint the battle is currently at
+  index: number;
+}
+
+export const MAX_BATTLE_HISTORY = 100;
+
+function toCheckpoint(state: LiveBattleState): BattleCheckpoint {
+  return {
+    state,
+    turn: state.currentTurn,
+    wave: state.currentWave,
+    rngPosition: state.rngPosition,
+    logLength: state.battleLog.length,
+  };
+}
+
+export function createBattleHistory(state: LiveBattleState): BattleHistory {
+  return { checkpoints: [toCheckpoint(state)], index: 0 };
+}
+
+export function getCurrentCheckpoint(history: BattleHistory): BattleCheckpoint {
+  return history.checkpoints[history.index];
+}
+
+// Record a new checkpoint after the current one
+// Any checkpoints ahead of the current one (undone moves) are discarded - the battle branches here
+export function pushCheckpoint(
+  history: BattleHistory,
+  state: LiveBattleState,
+  limit: number = MAX_BATTLE_HISTORY
+): BattleHistory {
+  if (getCurrentCheckpoint(history).state === state) return history;
+
+  const checkpoints = [...history.checkpoints.slice(0, history.index + 1), toCheckpoint(state)];
+  const overflow = Math.max(0, checkpoints.length - limit);
+  const trimmed = overflow > 0 ? checkpoints.slice(overflow) : checkpoints;
+  return { checkpoints: trimmed, index: trimmed.length - 1 };
+}
+
+export function canUndo(history: BattleHistory): boolean {
+  return history.index > 0;
+}
+
+export function canRedo(history: BattleHistory): boolean {
+  return history.index < history.checkpoints.length - 1;
+}
+
+// Move to a checkpoint by index, keeping later checkpoints available for redo
+export function jumpToCheckpoint(history: BattleHistory, index: number): BattleHistory {
+  const clamped = Math.max(0, Math.min(history.checkpoints.length - 1, index));
+  return clamped === history.index ? history : { ...history, index: clamped };
+}
+
+export function undoCheckpoint(history: BattleHistory): BattleHistory {
+  return jumpToCheckpoint(history, history.index - 1);
+}
+
+export function redoCheckpoint(history: BattleHistory): BattleHistory {
+  return jumpToCheckpoint(history, history.index + 1);
+}
+
+// Find the checkpoint to rewind to so a logged turn can be replayed
+// This is the latest checkpoint taken before the turn happened, or -1 if it fell out of the history
+export function findCheckpointBeforeTurn(history: BattleHistory, logIndex: number): number {
+  for (let i = history.checkpoints.length - 1; i >= 0; i--) {
+    if (history.checkpoints[i].logLength <= logIndex) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,236 @@
+// Monte Carlo battle simulation: play many automated battles of a party against an encounter
+// and aggregate win rate, battle length, survival and damage statistics.
+import { initializeBattle } from "@/lib/liveBattleEngine";
+import { applyBattleCommand, createBattleContext, shouldAdvanceWave } from "@/lib/battleReducer";
+import type { BattleCommand, BattleContext } from "@/lib/battleReducer";
+import { PLAYER_POLICIES } from "@/lib/battlePolicies";
+import type { PlayerPolicyId } from "@/lib/battlePolicies";
+import { createSeededRng, generateSeed, normalizeSeed } from "@/lib/battleRng";
+import { getEncounterById, getEncounterWaves } from "@/lib/encounters";
+import type { Party, PartyUnit } from "@/types/battleSimulator";
+import type { LiveBattleState } from "@/types/liveBattle";
+
+export interface MonteCarloOptions {
+  iterations: number;
+  policy: PlayerPolicyId;
+  // Base seed - battle i uses seed + i, so a whole run can be reproduced
+  seed?: number;
+  // Battles still running after this many turns count as losses (timeouts)
+  maxTurns?: number;
+  startingWave?: number;
+}
+
+// Outcome of a single automated battle
+export interface BattleOutcome {
+  seed: number;
+  playerWon: boolean;
+  timedOut: boolean;
+  turns: number;
+  wavesCleared: number;
+  // Per party unit, keyed by its starting grid position
+  unitDamageDealt: Record<number, number>;
+  unitDamageTaken: Record<number, number>;
+  unitSurvived: Record<number, boolean>;
+}
+
+export interface UnitSimulationStats {
+  unitId: number;
+  gridId: number;
+  rank: number;
+  survivalRate: number;
+  avgDamageDealt: number;
+  avgDamageTaken: number;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  policy: PlayerPolicyId;
+  seed: number;
+  wins: number;
+  losses: number;
+  timeouts: number;
+  winRate: number;
+  avgTurns: number;
+  // Average turns over won battles only (null if none were won)
+  avgTurnsToWin: number | null;
+  avgDamageDealt: number;
+  avgDamageTaken: number;
+  units: UnitSimulationStats[];
+}
+
+export const DEFAULT_MAX_TURNS = 100;
+
+// Seed for the policy's own choices, kept separate from the battle RNG
+const POLICY_SEED_SALT = 0x9e3779b9;
+
+// Play one battle to the end with the given policy
+export function simulateBattle(
+  party: PartyUnit[],
+  context: BattleContext,
+  policyId: PlayerPolicyId,
+  seed: number,
+  maxTurns: number = DEFAULT_MAX_TURNS,
+  startingWave: number = 0
+): BattleOutcome {
+  const policy = PLAYER_POLICIES[policyId].policy;
+  const policyRandom = createSeededRng(seed ^ POLICY_SEED_SALT);
+  const unitDamageDealt: Record<number, number> = {};
+  const unitDamageTaken: Record<number, number> = {};
+
+  let state = initializeBattle(party, context.waves, startingWave, seed, context.layout);
+
+  // Grid positions get reused by units spawned on death, so party units are followed by instanceId
+  const partyGridIds = new Map(state.friendlyUnits.map(u => [u.instanceId, u.gridId]));
+  const addTo = (record: Record<number, number>, gridId: number, amount: number) => {
+    record[gridId] = (record[gridId] ?? 0) + amount;
+  };
+
+  const apply = (command: BattleCommand): boolean => {
+    const result = applyBattleCommand(state, command, context);
+    for (const event of result.events) {
+      if (event.type !== "turn_logged") continue;
+      for (const action of event.turn.actions) {
+        const attackerGridId = partyGridIds.get(action.attackerInstanceId ?? -1);
+        const targetGridId = partyGridIds.get(action.targetInstanceId ?? -1);
+        if (action.type === "attack" && attackerGridId !== undefined) {
+          addTo(unitDamageDealt, attackerGridId, action.damage ?? 0);
+        }
+        if ((action.type === "attack" || action.type === "status_tick") && targetGridId !== undefined) {
+          addTo(unitDamageTaken, targetGridId, (action.hpDamage ?? 0) + (action.armorDamage ?? 0));
+        }
+      }
+    }
+    const changed = result.state !== state;
+    state = result.state;
+    return changed;
+  };
+
+  while (!state.isBattleOver && state.currentTurn <= maxTurns) {
+    if (shouldAdvanceWave(state)) {
+      apply({ type: "advance_wave" });
+    } else if (state.isPlayerTurn) {
+      // A rejected command must not stall the battle - fall back to skipping
+      if (!apply(policy(state, context, policyRandom))) {
+        apply({ type: "skip_turn" });
+      }
+    } else {
+      apply({ type: "enemy_turn" });
+      if (!state.isBattleOver && state.isPlayerTurn) {
+        apply({ type: "start_player_turn" });
+      }
+    }
+  }
+
+  return summarizeBattle(state, seed, startingWave, partyGridIds, unitDamageDealt, unitDamageTaken);
+}
+
+function summarizeBattle(
+  state: LiveBattleState,
+  seed: number,
+  startingWave: number,
+  partyGridIds: Map<number, number>,
+  unitDamageDealt: Record<number, number>,
+  unitDamageTaken: Record<number, number>
+): BattleOutcome {
+  const unitSurvived: Record<number, boolean> = {};
+  for (const unit of state.friendlyUnits) {
+    const gridId = partyGridIds.get(unit.instanceId);
+    if (gridId === undefined) continue;
+    unitSurvived[gridId] = !unit.isDead;
+    // A killing hit logs its full damage, so cap at what the unit had (there is no healing in battle)
+    if (unitDamageTaken[gridId] !== undefined) {
+      unitDamageTaken[gridId] = Math.min(unitDamageTaken[gridId], unit.maxHp + unit.maxArmor);
+    }
+  }
+
+  const playerWon = state.isBattleOver && state.isPlayerVictory === true;
+  return {
+    seed,
+    playerWon,
+    timedOut: !state.isBattleOver,
+    turns: state.currentTurn,
+    wavesCleared: (playerWon ? state.currentWave + 1 : state.currentWave) - startingWave,
+    unitDamageDealt,
+    unitDamageTaken,
+    unitSurvived,
+  };
+}
+
+// Aggregate individual battle outcomes into run statistics
+export function aggregateOutcomes(
+  party: PartyUnit[],
+  outcomes: BattleOutcome[],
+  policy: PlayerPolicyId,
+  seed: number
+): MonteCarloResult {
+  const iterations = outcomes.length;
+  const wins = outcomes.filter(o => o.playerWon).length;
+  const timeouts = outcomes.filter(o => o.timedOut).length;
+  const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const sumValues = (record: Record<number, number>) => Object.values(record).reduce((a, b) => a + b, 0);
+
+  const winTurns = outcomes.filter(o => o.playerWon).map(o => o.turns);
+
+  const units: UnitSimulationStats[] = party.map(unit => ({
+    unitId: unit.unitId,
+    gridId: unit.gridId,
+    rank: unit.rank,
+    survivalRate: iterations > 0 ? outcomes.filter(o => o.unitSurvived[unit.gridId]).length / iterations : 0,
+    avgDamageDealt: average(outcomes.map(o => o.unitDamageDealt[unit.gridId] ?? 0)),
+    avgDamageTaken: average(outcomes.map(o => o.unitDamageTaken[unit.gridId] ?? 0)),
+  }));
+
+  return {
+    iterations,
+    policy,
+    seed,
+    wins,
+    losses: iterations - wins - timeouts,
+    timeouts,
+    winRate: iterations > 0 ? wins / iterations : 0,
+    avgTurns: average(outcomes.map(o => o.turns)),
+    avgTurnsToWin: winTurns.length > 0 ? average(winTurns) : null,
+    avgDamageDealt: average(outcomes.map(o => sumValues(o.unitDamageDealt))),
+    avgDamageTaken: average(outcomes.map(o => sumValues(o.unitDamageTaken))),
+    units,
+  };
+}
+
+// Run N battles of a party against a set of enemy waves
+export function runMonteCarlo(
+  party: PartyUnit[],
+  context: BattleContext,
+  options: MonteCarloOptions
+): MonteCarloResult {
+  const seed = normalizeSeed(options.seed ?? generateSeed());
+  const outcomes: BattleOutcome[] = [];
+
+  for (let i = 0; i < options.iterations; i++) {
+    outcomes.push(simulateBattle(
+      party,
+      context,
+      options.policy,
+      normalizeSeed(seed + i),
+      options.maxTurns,
+      options.startingWave
+    ));
+  }
+
+  return aggregateOutcomes(party, outcomes, options.policy, seed);
+}
+
+// Run N battles of a saved party against an encounter by ID
+// Returns null if the encounter doesn't exist or has no waves
+export function simulateEncounter(
+  party: Party,
+  encounterId: number | string,
+  options: MonteCarloOptions
+): MonteCarloResult | null {
+  const encounter = getEncounterById(encounterId);
+  if (!encounter) return null;
+
+  const waves = getEncounterWaves(encounter);
+  if (waves.length === 0) return null;
+
+  return runMonteCarlo(party.units, createBattleContext(encounter, waves), options);
+}
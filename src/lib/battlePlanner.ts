@@ -0,0 +1,170 @@
+// Turn planner: ranks the player's available actions for the "suggest move" feature
+// Each action is played out through the battle reducer over a handful of RNG seeds, followed by the
+// enemy's response, so kills, procs and retaliation follow the same rules as the live battle.
+import { applyBattleCommand, shouldAdvanceWave } from "@/lib/battleReducer";
+import type { BattleCommand, BattleContext, BattleEvent } from "@/lib/battleReducer";
+import { enumeratePlayerActions } from "@/lib/battlePolicies";
+import type { ActionCandidate } from "@/lib/battleEstimates";
+import { createSeededRng, normalizeSeed } from "@/lib/battleRng";
+import { getThreat } from "@/lib/enemyAi";
+import { getAttackAffectedPositions } from "@/lib/liveBattleEngine";
+import type { AbilityInfo } from "@/types/battleSimulator";
+import type { LiveBattleState, LiveBattleUnit } from "@/types/liveBattle";
+
+// Outcomes sampled per action - enough to separate likely kills from lucky ones while staying interactive
+export const PLANNER_SAMPLES = 12;
+
+// Damage the enemy deals back counts for less than damage dealt
+const DAMAGE_TAKEN_WEIGHT = 0.5;
+// Winning the battle outweighs anything else an action can do
+const VICTORY_BONUS = 100000;
+
+export interface MoveSuggestion {
+  command: Extract<BattleCommand, { type: "player_attack" }>;
+  ability: AbilityInfo;
+  // Enemy grid positions the attack hits, for highlighting
+  affectedGridIds: number[];
+  score: number;
+  // Enemy HP + armor removed
+  expectedDamage: number;
+  // Chance at least one enemy dies (0-1)
+  killChance: number;
+  expectedKills: number;
+  // Threat of the enemies expected to die (see getThreat)
+  threatRemoved: number;
+  // Friendly HP + armor lost to the enemy's response
+  expectedDamageTaken: number;
+  victoryChance: number;
+  reasons: string[];
+}
+
+// HP + armor the logged attacks and DoT ticks took from the given units, each capped at what the unit had left
+// Health totals can't be compared across a turn - a unit that spawns on death brings fresh health
+function damageTo(events: BattleEvent[], units: LiveBattleUnit[]): number {
+  const remaining = new Map(units.filter(u => !u.isDead).map(u => [u.instanceId, u.currentHp + u.currentArmor]));
+  let total = 0;
+  for (const event of events) {
+    if (event.type !== "turn_logged") continue;
+    for (const action of event.turn.actions) {
+      if (action.type !== "attack" && action.type !== "status_tick") continue;
+      const instanceId = action.targetInstanceId ?? -1;
+      const left = remaining.get(instanceId);
+      if (left === undefined) continue;
+      const dealt = Math.min(left, (action.hpDamage ?? 0) + (action.armorDamage ?? 0));
+      remaining.set(instanceId, left - dealt);
+      total += dealt;
+    }
+  }
+  return total;
+}
+
+function formatPercent(chance: number): string {
+  return `${Math.round(chance * 100)}%`;
+}
+
+// Play one action out over several seeds and average what happens
+function evaluateAction(
+  state: LiveBattleState,
+  context: BattleContext,
+  candidate: ActionCandidate,
+  seeds: number[],
+  getName: (unitId: number) => string
+): MoveSuggestion | null {
+  const command: MoveSuggestion["command"] = {
+    type: "player_attack",
+    attackerGridId: candidate.attacker.gridId,
+    abilityId: candidate.ability.abilityId,
+    targetGridId: candidate.targetGridId,
+  };
+
+  const killsByUnitId = new Map<number, number>();
+  let damage = 0;
+  let kills = 0;
+  let samplesWithKill = 0;
+  let threatRemoved = 0;
+  let damageTaken = 0;
+  let victories = 0;
+
+  for (const seed of seeds) {
+    const attack = applyBattleCommand({ ...state, rngSeed: seed, rngPosition: 0 }, command, context);
+    if (attack.events.some(e => e.type === "command_rejected")) return null;
+    const afterAttack = attack.state;
+
+    damage += damageTo(attack.events, state.enemyUnits);
+    // Read kills from the log - a unit that spawns on death has its slot taken by the spawn
+    const killedIds = new Set(afterAttack.battleLog[afterAttack.battleLog.length - 1].actions
+      .filter(a => a.type === "death" || (a.type === "capture" && a.captured))
+      .map(a => a.targetInstanceId));
+    const killed = state.enemyUnits.filter(u => !u.isDead && killedIds.has(u.instanceId));
+    kills += killed.length;
+    if (killed.length > 0) samplesWithKill++;
+    for (const unit of killed) {
+      threatRemoved += getThreat(unit);
+      killsByUnitId.set(unit.unitId, (killsByUnitId.get(unit.unitId) || 0) + 1);
+    }
+
+    if (afterAttack.isBattleOver) {
+      if (afterAttack.isPlayerVictory) victories++;
+      continue;
+    }
+    if (shouldAdvanceWave(afterAttack)) continue;
+
+    // Shallow lookahead: the enemy's reply to this action
+    const response = applyBattleCommand(afterAttack, { type: "enemy_turn" }, context);
+    damageTaken += damageTo(response.events, afterAttack.friendlyUnits);
+  }
+
+  const samples = seeds.length;
+  const suggestion: MoveSuggestion = {
+    command,
+    ability: candidate.ability,
+    affectedGridIds: getAttackAffectedPositions(candidate.attacker, candidate.ability, candidate.targetGridId, state).map(p => p.gridId),
+    score: 0,
+    expectedDamage: damage / samples,
+    killChance: samplesWithKill / samples,
+    expectedKills: kills / samples,
+    threatRemoved: threatRemoved / samples,
+    expectedDamageTaken: damageTaken / samples,
+    victoryChance: victories / samples,
+    reasons: [],
+  };
+  suggestion.score = suggestion.expectedDamage + suggestion.threatRemoved
+    - DAMAGE_TAKEN_WEIGHT * suggestion.expectedDamageTaken
+    + VICTORY_BONUS * suggestion.victoryChance;
+
+  if (suggestion.victoryChance > 0) {
+    suggestion.reasons.push(`${formatPercent(suggestion.victoryChance)} chance to win the battle`);
+  }
+  const likelyKill = [...killsByUnitId.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (likelyKill) {
+    suggestion.reasons.push(`${formatPercent(likelyKill[1] / samples)} chance to kill ${getName(likelyKill[0])}`);
+  }
+  suggestion.reasons.push(`~${Math.round(suggestion.expectedDamage)} expected damage`);
+  if (suggestion.threatRemoved > 0) {
+    suggestion.reasons.push(`removes ~${Math.round(suggestion.threatRemoved)} threat`);
+  }
+  suggestion.reasons.push(`enemies expected to deal ~${Math.round(suggestion.expectedDamageTaken)} back`);
+
+  return suggestion;
+}
+
+// Rank every available player action and return the best ones
+// getName turns a unit id into a display name for the explanations
+export function suggestMoves(
+  state: LiveBattleState,
+  context: BattleContext,
+  count: number,
+  getName: (unitId: number) => string = unitId => `Unit ${unitId}`
+): MoveSuggestion[] {
+  if (!state.isPlayerTurn || state.isBattleOver || shouldAdvanceWave(state)) return [];
+
+  // The same seeds for every action, so they're compared on equal luck
+  const random = createSeededRng(state.rngSeed + state.rngPosition);
+  const seeds = Array.from({ length: PLANNER_SAMPLES }, () => normalizeSeed(random() * 4294967296));
+
+  return enumeratePlayerActions(state)
+    .map(candidate => evaluateAction(state, context, candidate, seeds, getName))
+    .filter((s): s is MoveSuggestion => s !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count);
+}
@@ -0,0 +1,147 @@
+// Player policies for automated battles
+// A policy looks at the current battle state and decides the player's command for this turn.
+import { getAvailableAbilities, getValidTargets, isRandomAttack, isUnitStunned } from "@/lib/liveBattleEngine";
+import { getValidReticlePositions } from "@/lib/battleReducer";
+import type { BattleCommand, BattleContext } from "@/lib/battleReducer";
+import { estimateActionDamage, totalExpectedDamage } from "@/lib/battleEstimates";
+import type { ActionCandidate } from "@/lib/battleEstimates";
+import { pickRandom } from "@/lib/battleRng";
+import type { RandomSource } from "@/lib/battleRng";
+import type { LiveBattleState } from "@/types/liveBattle";
+
+export type PlayerPolicy = (
+  state: LiveBattleState,
+  context: BattleContext,
+  random: RandomSource
+) => BattleCommand;
+
+export type PlayerPolicyId = "random" | "greedy_damage" | "focus_fire";
+
+// Enumerate every action the player can take this turn
+// Stunned units can't act; only targets matching the ability's target tags are considered
+export function enumeratePlayerActions(state: LiveBattleState): ActionCandidate[] {
+  const candidates: ActionCandidate[] = [];
+
+  for (const attacker of state.friendlyUnits) {
+    if (attacker.isDead || isUnitStunned(attacker)) continue;
+
+    const abilities = getAvailableAbilities(
+      attacker,
+      state.enemyUnits,
+      state.friendlyUnits,
+      state.friendlyCollapsedRows,
+      state.enemyCollapsedRows,
+      state.layout
+    );
+
+    for (const ability of abilities) {
+      if (isRandomAttack(ability)) {
+        // Random attacks pick their own tiles - the target position is ignored
+        candidates.push({ attacker, ability, targetGridId: attacker.gridId });
+        continue;
+      }
+
+      const validTargets = getValidTargets(
+        attacker,
+        ability,
+        state.enemyUnits,
+        state.friendlyUnits,
+        state.friendlyCollapsedRows,
+        state.enemyCollapsedRows,
+        true,
+        state.layout
+      );
+
+      const reticlePositions = getValidReticlePositions(state, attacker, ability);
+      const targetGridIds = reticlePositions
+        ? validTargets.map(t => t.gridId).filter(gridId => reticlePositions.has(gridId))
+        : validTargets.map(t => t.gridId);
+
+      for (const targetGridId of targetGridIds) {
+        candidates.push({ attacker, ability, targetGridId });
+      }
+    }
+  }
+
+  return candidates;
+}
+
+function toCommand(candidate: ActionCandidate | undefined): BattleCommand {
+  if (!candidate) return { type: "skip_turn" };
+  return {
+    type: "player_attack",
+    attackerGridId: candidate.attacker.gridId,
+    abilityId: candidate.ability.abilityId,
+    targetGridId: candidate.targetGridId,
+  };
+}
+
+// Pick any available action uniformly at random
+export const randomPolicy: PlayerPolicy = (state, _context, random) => {
+  const candidates = enumeratePlayerActions(state);
+  return toCommand(candidates.length > 0 ? pickRandom(candidates, random) : undefined);
+};
+
+// Pick the action with the highest total expected damage
+export const greedyDamagePolicy: PlayerPolicy = (state, context) => {
+  let best: ActionCandidate | undefined;
+  let bestDamage = -1;
+
+  for (const candidate of enumeratePlayerActions(state)) {
+    const damage = totalExpectedDamage(estimateActionDamage(state, candidate, context.environmentalDamageMods));
+    if (damage > bestDamage) {
+      best = candidate;
+      bestDamage = damage;
+    }
+  }
+
+  return toCommand(best);
+};
+
+// Concentrate on the enemy closest to death: pick the action dealing the most expected damage to
+// the weakest enemy that can be damaged this turn (total damage breaks ties)
+export const focusFirePolicy: PlayerPolicy = (state, context) => {
+  const scored = enumeratePlayerActions(state).map(candidate => ({
+    candidate,
+    damageByGridId: estimateActionDamage(state, candidate, context.environmentalDamageMods),
+  }));
+
+  const reachableEnemies = state.enemyUnits
+    .filter(u => !u.isDead && scored.some(s => (s.damageByGridId.get(u.gridId) ?? 0) > 0))
+    .sort((a, b) => (a.currentHp + a.currentArmor) - (b.currentHp + b.currentArmor));
+
+  const focus = reachableEnemies[0];
+  if (!focus) return toCommand(scored[0]?.candidate);
+
+  let best = scored[0];
+  for (const entry of scored) {
+    const focusDamage = entry.damageByGridId.get(focus.gridId) ?? 0;
+    const bestFocusDamage = best.damageByGridId.get(focus.gridId) ?? 0;
+    if (
+      focusDamage > bestFocusDamage ||
+      (focusDamage === bestFocusDamage && totalExpectedDamage(entry.damageByGridId) > totalExpectedDamage(best.damageByGridId))
+    ) {
+      best = entry;
+    }
+  }
+
+  return toCommand(best.candidate);
+};
+
+export const PLAYER_POLICIES: Record<PlayerPolicyId, { label: string; description: string; policy: PlayerPolicy }> = {
+  random: {
+    label: "Random",
+    description: "Uses a random available ability on a random valid target",
+    policy: randomPolicy,
+  },
+  greedy_damage: {
+    label: "Greedy Damage",
+    description: "Uses the action with the highest expected damage this turn",
+    policy: greedyDamagePolicy,
+  },
+  focus_fire: {
+    label: "Focus Fire",
+    description: "Concentrates damage on the enemy closest to death",
+    policy: focusFirePolicy,
+  },
+};
@@ -0,0 +1,654 @@
+// Headless battle reducer: the live battle turn flow as a pure function
+// applyBattleCommand(state, command, context) never mutates its input and has no UI
+// side effects, so the same rules run in the useLiveBattle hook, tests, workers and batch tools.
+import {
+  getAvailableAbilities,
+  getValidTargets,
+  executeAttack,
+  executeRandomAttack,
+  isRandomAttack,
+  processStatusEffects,
+  reduceCooldowns,
+  checkBattleEnd,
+  createLiveBattleUnit,
+  collapseGrid,
+  calculateTurnSummary,
+} from "@/lib/liveBattleEngine";
+import { getUnitAbilities } from "@/lib/battleCalculations";
+import { getBlockingUnits, getTargetingInfo } from "@/lib/battleTargeting";
+import { createBattleRng } from "@/lib/battleRng";
+import { DEFAULT_ENEMY_AI, ENEMY_AI_STRATEGIES, getEncounterEnemyAi } from "@/lib/enemyAi";
+import type { EnemyActionOption, EnemyAiTypeId } from "@/lib/enemyAi";
+import { getStatusEffect } from "@/lib/statusEffectData";
+import { getBattleLayout } from "@/lib/battleConfig";
+import { checkDeployLimits, getEncounterUnitLimit } from "@/lib/unitRestrictions";
+import { getUnitById } from "@/lib/units";
+import { UnitTag } from "@/data/gameEnums";
+import { isGridCellOpen } from "@/types/battleSimulator";
+import type { AbilityInfo, BattleLayout, PartyUnit } from "@/types/battleSimulator";
+import type { Encounter, EncounterUnit } from "@/types/encounters";
+import type { LiveBattleState, LiveBattleUnit, BattleAction, BattleTurn, RedeployMove } from "@/types/liveBattle";
+
+// Commands that drive a battle forward
+export type BattleCommand =
+  // Start-of-turn processing for the player: row collapse, DoT ticks, cooldowns
+  | { type: "start_player_turn" }
+  // Player unit uses an ability on a target (or reticle position for AOE)
+  | { type: "player_attack"; attackerGridId: number; abilityId: number; targetGridId: number }
+  | { type: "skip_turn" }
+  // Full enemy phase: DoT ticks, cooldowns, then one enemy action
+  | { type: "enemy_turn" }
+  // Spawn the next wave once the current one is cleared
+  | { type: "advance_wave" }
+  // Between waves: move surviving units and bring in reserves before the next wave spawns
+  | { type: "redeploy"; moves: RedeployMove[]; reinforcements: PartyUnit[] };
+
+export type BattleCommandType = BattleCommand["type"];
+
+// Events describing what happened while applying a command
+export type BattleEvent =
+  | { type: "turn_logged"; turn: BattleTurn }
+  | { type: "wave_started"; wave: number }
+  | { type: "battle_ended"; playerWon: boolean | null }
+  | { type: "command_rejected"; command: BattleCommandType; reason: string };
+
+// Static battle inputs that don't change between commands
+export interface BattleContext {
+  waves: EncounterUnit[][];
+  environmentalDamageMods?: Record<string, number>;
+  // How enemies choose their actions (random if omitted)
+  enemyAi?: EnemyAiTypeId;
+  // Battlefield layout for the encounter (the fixed 5/5/3 grid if omitted)
+  layout?: BattleLayout;
+  // Most units the player can have deployed at once (attacker_slots)
+  unitLimit?: number;
+  // Party units left out of the starting formation, which can come in as reinforcements between waves
+  // (none if omitted)
+  reserve?: PartyUnit[];
+}
+
+// Build the battle context for an encounter (its environmental effect modifies damage for all units)
+// The enemy AI comes from the encounter's enemy_ai_type unless the player picked one
+export function createBattleContext(
+  encounter: Encounter | null | undefined,
+  waves: EncounterUnit[][],
+  enemyAi: EnemyAiTypeId = getEncounterEnemyAi(encounter)
+): BattleContext {
+  const environmentalDamageMods = encounter?.environmental_status_effect
+    ? getStatusEffect(encounter.environmental_status_effect)?.stun_damage_mods
+    : undefined;
+  return {
+    waves,
+    environmentalDamageMods,
+    enemyAi,
+    layout: getBattleLayout(encounter?.layout_id, encounter?.is_player_attacker !== false),
+    unitLimit: encounter ? getEncounterUnitLimit(encounter) : undefined,
+  };
+}
+
+export interface BattleCommandResult {
+  state: LiveBattleState;
+  events: BattleEvent[];
+}
+
+// Deep clone a live battle unit so engine functions can mutate it freely
+export function cloneBattleUnit(unit: LiveBattleUnit): LiveBattleUnit {
+  return {
+    ...unit,
+    abilityCooldowns: { ...unit.abilityCooldowns },
+    weaponGlobalCooldown: { ...unit.weaponGlobalCooldown },
+    weaponAmmo: { ...unit.weaponAmmo },
+    weaponReloadCooldown: { ...unit.weaponReloadCooldown },
+    activeStatusEffects: unit.activeStatusEffects.map(e => ({ ...e })),
+    abilityChargeProgress: { ...unit.abilityChargeProgress },
+  };
+}
+
+// Deep clone battle state (battle log turns are immutable and shared)
+export function cloneBattleState(state: LiveBattleState): LiveBattleState {
+  return {
+    ...state,
+    friendlyUnits: state.friendlyUnits.map(cloneBattleUnit),
+    enemyUnits: state.enemyUnits.map(cloneBattleUnit),
+    friendlyCollapsedRows: new Set(state.friendlyCollapsedRows),
+    enemyCollapsedRows: new Set(state.enemyCollapsedRows),
+    battleLog: [...state.battleLog],
+  };
+}
+
+// Check if all enemies that count for wave completion are dead
+// Units with the Ignorable tag (like Stone Slab) or unimportant flag don't count
+export function isWaveCleared(state: LiveBattleState): boolean {
+  return state.enemyUnits.every(u => {
+    if (u.isDead) return true;
+    const unit = getUnitById(u.unitId);
+    const tags = unit?.identity?.tags || [];
+    const isIgnorable = tags.includes(UnitTag.Ignorable);
+    const isUnimportant = unit?.statsConfig?.unimportant === true;
+    return isIgnorable || isUnimportant;
+  });
+}
+
+// Check if the current wave is cleared and another wave follows
+export function shouldAdvanceWave(state: LiveBattleState): boolean {
+  return isWaveCleared(state) && state.currentWave < state.totalWaves - 1;
+}
+
+// Create the enemy units for a wave, numbered from firstInstanceId
+// Callers advance nextInstanceId by getWaveSize so numbers aren't reused
+export function spawnWaveUnits(waves: EncounterUnit[][], waveIndex: number, firstInstanceId: number): LiveBattleUnit[] {
+  return (waves[waveIndex] || [])
+    .filter(u => u.grid_id !== undefined)
+    .map((u, index) => createLiveBattleUnit(u.unit_id, u.grid_id!, 1, true, firstInstanceId + index))
+    .filter((u): u is LiveBattleUnit => u !== null);
+}
+
+export function getWaveSize(waves: EncounterUnit[][], waveIndex: number): number {
+  return (waves[waveIndex] || []).length;
+}
+
+// Reserve units not yet brought in by an earlier redeployment
+export function getAvailableReserve(state: LiveBattleState, reserve: PartyUnit[] = []): PartyUnit[] {
+  const available = [...reserve];
+  for (const move of state.playerMoves) {
+    if (move.type !== "redeploy") continue;
+    for (const reinforcement of move.reinforcements) {
+      const index = available.findIndex(u => u.unitId === reinforcement.unitId && u.rank === reinforcement.rank);
+      if (index !== -1) available.splice(index, 1);
+    }
+  }
+  return available;
+}
+
+// Grid positions where a movable AOE reticle can be placed
+// Returns undefined for single-target and fixed abilities
+export function getValidReticlePositions(
+  state: LiveBattleState,
+  attacker: LiveBattleUnit,
+  ability: AbilityInfo
+): Set<number> | undefined {
+  if (ability.isSingleTarget || ability.isFixed) return undefined;
+
+  const targetUnits = attacker.isEnemy ? state.friendlyUnits : state.enemyUnits;
+  const blockingUnits = getBlockingUnits(
+    targetUnits.filter(u => !u.isDead).map(u => ({ unit_id: u.unitId, grid_id: u.gridId })),
+    true // Always use EncounterUnit format (grid_id) since we're mapping with grid_id
+  );
+
+  const targetingInfo = getTargetingInfo(
+    attacker.gridId,
+    ability.minRange,
+    ability.maxRange,
+    ability.lineOfFire,
+    attacker.isEnemy,
+    blockingUnits,
+    state.layout
+  );
+
+  return new Set(
+    targetingInfo
+      .filter(t => t.inRange && !t.isBlocked)
+      .map(t => t.gridId)
+  );
+}
+
+function reject(state: LiveBattleState, command: BattleCommandType, reason: string): BattleCommandResult {
+  return { state, events: [{ type: "command_rejected", command, reason }] };
+}
+
+// Build the result for a state change, adding turn and battle end events
+function finish(
+  prev: LiveBattleState,
+  next: LiveBattleState,
+  extraEvents: BattleEvent[] = []
+): BattleCommandResult {
+  const events: BattleEvent[] = [];
+  for (const turn of next.battleLog.slice(prev.battleLog.length)) {
+    events.push({ type: "turn_logged", turn });
+  }
+  events.push(...extraEvents);
+  if (next.isBattleOver && !prev.isBattleOver) {
+    events.push({ type: "battle_ended", playerWon: next.isPlayerVictory });
+  }
+  return { state: next, events };
+}
+
+// Player turn start phase: collapse -> DoT -> cooldowns -> end check
+function startPlayerTurn(prev: LiveBattleState, context: BattleContext): BattleCommandResult {
+  if (!prev.isPlayerTurn || prev.isBattleOver) {
+    return reject(prev, "start_player_turn", "Not the player's turn");
+  }
+
+  const newState = cloneBattleState(prev);
+  const actions: BattleAction[] = [];
+
+  // 1. Collapse rows if needed
+  newState.friendlyCollapsedRows = collapseGrid(newState.friendlyUnits, newState.friendlyCollapsedRows);
+  newState.enemyCollapsedRows = collapseGrid(newState.enemyUnits, newState.enemyCollapsedRows);
+
+  // 2. Process status effects (DoT damage) - per side, so units spawned on death join their own side
+  actions.push(...processStatusEffects(newState.friendlyUnits, newState, context.environmentalDamageMods));
+  actions.push(...processStatusEffects(newState.enemyUnits, newState, context.environmentalDamageMods));
+
+  // 3. Reduce cooldowns for player units (before action selection) - stunned units skip this
+  reduceCooldowns(newState.friendlyUnits);
+
+  // 4. Check if battle ended from status effects
+  const endCheck = checkBattleEnd(newState);
+
+  // If there were status effect actions, add them to the log
+  if (actions.length > 0) {
+    newState.battleLog.push({
+      turnNumber: newState.currentTurn,
+      isPlayerTurn: true,
+      actions,
+      summary: calculateTurnSummary(actions),
+    });
+  }
+
+  return finish(prev, {
+    ...newState,
+    isBattleOver: endCheck.isOver,
+    isPlayerVictory: endCheck.playerWon,
+  });
+}
+
+function playerAttack(
+  prev: LiveBattleState,
+  command: Extract<BattleCommand, { type: "player_attack" }>,
+  context: BattleContext
+): BattleCommandResult {
+  if (!prev.isPlayerTurn || prev.isBattleOver) {
+    return reject(prev, "player_attack", "Not the player's turn");
+  }
+
+  const attacker = prev.friendlyUnits.find(u => u.gridId === command.attackerGridId && !u.isDead);
+  if (!attacker) {
+    return reject(prev, "player_attack", "No living unit at that position");
+  }
+
+  const ability = getUnitAbilities(attacker.unitId, attacker.rank).find(a => a.abilityId === command.abilityId);
+  if (!ability) {
+    return reject(prev, "player_attack", "Unit does not have that ability");
+  }
+
+  // Check the ability is actually available (respects cooldowns, ammo, charge time)
+  const availableAbilities = getAvailableAbilities(
+    attacker,
+    prev.enemyUnits,
+    prev.friendlyUnits,
+    prev.friendlyCollapsedRows,
+    prev.enemyCollapsedRows,
+    prev.layout
+  );
+  if (!availableAbilities.some(a => a.abilityId === ability.abilityId)) {
+    // Check specifically for charge time issue to give helpful message
+    const chargeProgress = attacker.abilityChargeProgress[ability.abilityId] ?? 0;
+    if (ability.chargeTime > 0 && chargeProgress < ability.chargeTime) {
+      const turnsLeft = ability.chargeTime - chargeProgress;
+      return reject(prev, "player_attack", `Ability is still charging (${turnsLeft} turn${turnsLeft > 1 ? 's' : ''} remaining)`);
+    }
+    return reject(prev, "player_attack", "Ability is not available");
+  }
+
+  // Validate target based on attack type
+  // Random attacks don't need target validation
+  const isRandom = isRandomAttack(ability);
+  const isAOE = !ability.isSingleTarget && !ability.isFixed;
+  const validReticlePositions = getValidReticlePositions(prev, attacker, ability);
+
+  if (!isRandom) {
+    if (isAOE && validReticlePositions) {
+      // AOE attacks can target any valid reticle position (including empty tiles)
+      if (!validReticlePositions.has(command.targetGridId)) {
+        return reject(prev, "player_attack", "Target position is out of range or blocked");
+      }
+    } else {
+      // Single target and fixed attacks need a valid target unit
+      // Players use relaxed targeting (can place ability anywhere in range/LoF)
+      const validTargets = getValidTargets(
+        attacker,
+        ability,
+        prev.enemyUnits,
+        prev.friendlyUnits,
+        prev.friendlyCollapsedRows,
+        prev.enemyCollapsedRows,
+        false,
+        prev.layout
+      );
+      if (!validTargets.some(t => t.gridId === command.targetGridId)) {
+        return reject(prev, "player_attack", "Invalid target");
+      }
+    }
+  }
+
+  const newState = cloneBattleState(prev);
+  const clonedAttacker = newState.friendlyUnits.find(u => u.gridId === attacker.gridId && !u.isDead)!;
+
+  const actions = isRandom
+    ? executeRandomAttack(clonedAttacker, ability, newState, context.environmentalDamageMods)
+    : executeAttack(clonedAttacker, ability, command.targetGridId, newState, context.environmentalDamageMods);
+
+  newState.battleLog.push({
+    turnNumber: newState.currentTurn,
+    isPlayerTurn: true,
+    actions,
+    summary: calculateTurnSummary(actions),
+  });
+
+  // Check battle end
+  const endCheck = checkBattleEnd(newState);
+
+  // Update collapsed rows after attack (units may have died)
+  // Pass previous collapsed rows to ensure only 1 row collapses per turn
+  newState.friendlyCollapsedRows = collapseGrid(newState.friendlyUnits, newState.friendlyCollapsedRows);
+  newState.enemyCollapsedRows = collapseGrid(newState.enemyUnits, newState.enemyCollapsedRows);
+
+  // Cooldowns will be reduced at the START of next player turn, not here
+  return finish(prev, {
+    ...newState,
+    isBattleOver: endCheck.isOver,
+    isPlayerVictory: endCheck.playerWon,
+    isPlayerTurn: !endCheck.isOver ? false : newState.isPlayerTurn,
+    currentEnemyIndex: 0, // Reset enemy index when transitioning to enemy turn
+    playerMoves: [...prev.playerMoves, {
+      type: "attack",
+      attackerGridId: command.attackerGridId,
+      abilityId: command.abilityId,
+      targetGridId: command.targetGridId,
+    }],
+  });
+}
+
+function skipTurn(prev: LiveBattleState): BattleCommandResult {
+  if (!prev.isPlayerTurn || prev.isBattleOver) {
+    return reject(prev, "skip_turn", "Not the player's turn");
+  }
+
+  // Cooldowns are reduced at turn START, not when skipping
+  return finish(prev, {
+    ...prev,
+    battleLog: [...prev.battleLog, {
+      turnNumber: prev.currentTurn,
+      isPlayerTurn: true,
+      actions: [{ type: "skip", message: "Player skipped turn" }],
+    }],
+    isPlayerTurn: false,
+    currentEnemyIndex: 0, // Reset enemy index when transitioning to enemy turn
+    playerMoves: [...prev.playerMoves, { type: "skip" }],
+  });
+}
+
+// Enemy turn:
+// 1. Gather ALL available abilities from ALL alive enemies
+// 2. Pick ONE random ability from the pool
+// 3. Execute it
+// 4. Return control to player
+function enemyTurn(prev: LiveBattleState, context: BattleContext): BattleCommandResult {
+  if (prev.isPlayerTurn || prev.isBattleOver) {
+    return reject(prev, "enemy_turn", "Not the enemy's turn");
+  }
+  if (shouldAdvanceWave(prev)) {
+    return reject(prev, "enemy_turn", "The wave is cleared - the next wave has to start first");
+  }
+
+  const newState = cloneBattleState(prev);
+  const actions: BattleAction[] = [];
+
+  // Detect collapsed rows and process status effects (with environmental mods for DOT damage)
+  // Pass previous collapsed rows to ensure only 1 row collapses per turn
+  newState.friendlyCollapsedRows = collapseGrid(newState.friendlyUnits, newState.friendlyCollapsedRows);
+  newState.enemyCollapsedRows = collapseGrid(newState.enemyUnits, newState.enemyCollapsedRows);
+  actions.push(...processStatusEffects(newState.friendlyUnits, newState, context.environmentalDamageMods));
+  actions.push(...processStatusEffects(newState.enemyUnits, newState, context.environmentalDamageMods));
+
+  // Reduce cooldowns for enemies (before ability selection) - stunned units skip this
+  reduceCooldowns(newState.enemyUnits);
+
+  // Check if battle ended from status effects
+  let endCheck = checkBattleEnd(newState);
+  if (endCheck.isOver) {
+    newState.battleLog.push({ turnNumber: newState.currentTurn, isPlayerTurn: false, actions });
+    return finish(prev, {
+      ...newState,
+      isBattleOver: true,
+      isPlayerVictory: endCheck.playerWon,
+    });
+  }
+
+  // If all non-ignorable enemies died from DoT the turn ends here, and the next wave
+  // comes in through advance_wave (after a redeployment, if the player makes one)
+  if (shouldAdvanceWave(newState)) {
+    newState.battleLog.push({
+      turnNumber: newState.currentTurn,
+      isPlayerTurn: false,
+      actions,
+      summary: calculateTurnSummary(actions),
+    });
+    return finish(prev, {
+      ...newState,
+      currentTurn: newState.currentTurn + 1,
+      currentEnemyIndex: 0,
+    });
+  }
+
+  // Filter AGAIN after DoT processing to exclude any units that died from DoT
+  const aliveEnemies = newState.enemyUnits.filter(e => !e.isDead);
+  const activeEnemies = aliveEnemies.filter(e => !e.activeStatusEffects.some(s => s.isStun));
+  const aliveFriendlies = newState.friendlyUnits.filter(f => !f.isDead);
+
+  // Log stunned enemies
+  for (const enemy of aliveEnemies.filter(e => e.activeStatusEffects.some(s => s.isStun))) {
+    const unit = getUnitById(enemy.unitId);
+    actions.push({
+      type: "skip",
+      attackerGridId: enemy.gridId,
+      attackerName: unit?.identity?.name || `Unit ${enemy.unitId}`,
+      message: `Stunned and cannot act`,
+    });
+  }
+
+  // Build ability pool: each active enemy's available abilities with valid targets
+  // IMPORTANT: Pass only ALIVE units to ability/target checks
+  const abilityPool: EnemyActionOption[] = [];
+  for (const enemy of activeEnemies) {
+    for (const ability of getAvailableAbilities(
+      enemy,
+      aliveEnemies,
+      aliveFriendlies,
+      newState.friendlyCollapsedRows,
+      newState.enemyCollapsedRows,
+      newState.layout
+    )) {
+      // Enemies use strict targeting - must match ability's target tags
+      const targets = getValidTargets(
+        enemy,
+        ability,
+        aliveEnemies,
+        aliveFriendlies,
+        newState.friendlyCollapsedRows,
+        newState.enemyCollapsedRows,
+        true,
+        newState.layout
+      );
+      if (targets.length > 0) {
+        abilityPool.push({ enemy, ability, targets });
+      }
+    }
+  }
+
+  if (abilityPool.length === 0) {
+    // No valid abilities, skip turn
+    for (const enemy of activeEnemies) {
+      const unit = getUnitById(enemy.unitId);
+      actions.push({
+        type: "skip",
+        attackerGridId: enemy.gridId,
+        attackerName: unit?.identity?.name || `Unit ${enemy.unitId}`,
+        message: `No valid targets`,
+      });
+    }
+  } else {
+    // The encounter's AI strategy picks one action from the pool (using the battle's seeded RNG)
+    const random = createBattleRng(newState);
+    const strategy = ENEMY_AI_STRATEGIES[context.enemyAi ?? DEFAULT_ENEMY_AI].strategy;
+    const { enemy, ability, targetGridId } = strategy(abilityPool, newState, random, context.environmentalDamageMods);
+
+    if (isRandomAttack(ability)) {
+      actions.push(...executeRandomAttack(enemy, ability, newState, context.environmentalDamageMods));
+    } else {
+      actions.push(...executeAttack(enemy, ability, targetGridId, newState, context.environmentalDamageMods));
+    }
+  }
+
+  // Ensure the enemy turn always produces at least one log entry
+  if (actions.length === 0) {
+    actions.push({ type: "skip", message: "Enemy skipped turn" });
+  }
+
+  // Cooldowns already reduced at turn start (before ability selection)
+  endCheck = checkBattleEnd(newState);
+  newState.battleLog.push({
+    turnNumber: newState.currentTurn,
+    isPlayerTurn: false,
+    actions,
+    summary: calculateTurnSummary(actions),
+  });
+
+  return finish(prev, {
+    ...newState,
+    currentTurn: newState.currentTurn + 1,
+    isPlayerTurn: true,
+    currentEnemyIndex: 0,
+    isBattleOver: endCheck.isOver,
+    isPlayerVictory: endCheck.playerWon,
+  });
+}
+
+// Advance to next wave (enemies go first on subsequent waves)
+function advanceWave(prev: LiveBattleState, context: BattleContext): BattleCommandResult {
+  if (prev.isBattleOver || prev.currentWave >= prev.totalWaves - 1) {
+    return reject(prev, "advance_wave", "No more waves");
+  }
+  if (!shouldAdvanceWave(prev)) {
+    return reject(prev, "advance_wave", "The current wave isn't cleared yet");
+  }
+
+  const nextWave = prev.currentWave + 1;
+
+  // Reset enemy collapsed rows since new enemies spawn on the full grid
+  return finish(prev, {
+    ...prev,
+    enemyUnits: spawnWaveUnits(context.waves, nextWave, prev.nextInstanceId),
+    nextInstanceId: prev.nextInstanceId + getWaveSize(context.waves, nextWave),
+    enemyCollapsedRows: new Set<number>(),
+    currentWave: nextWave,
+    currentEnemyIndex: 0,
+    isPlayerTurn: false, // Enemy goes first on wave 2+
+    battleLog: [...prev.battleLog, {
+      turnNumber: prev.currentTurn,
+      isPlayerTurn: true,
+      actions: [{ type: "skip", message: `Wave ${nextWave + 1} begins! Enemies attack first.` }],
+    }],
+  }, [{ type: "wave_started", wave: nextWave }]);
+}
+
+// Rearrange surviving units and deploy reinforcements from the party reserve while the next wave waits
+// Dead units stay listed (their slots can be reused) so they keep their identity for battle stats
+function redeploy(
+  prev: LiveBattleState,
+  command: Extract<BattleCommand, { type: "redeploy" }>,
+  context: BattleContext
+): BattleCommandResult {
+  if (prev.isBattleOver || !shouldAdvanceWave(prev)) {
+    return reject(prev, "redeploy", "Units can only be redeployed between waves");
+  }
+
+  const newState = cloneBattleState(prev);
+  const survivors = newState.friendlyUnits.filter(u => !u.isDead);
+
+  const movedFrom = new Set<number>();
+  const destinations = new Map<LiveBattleUnit, number>();
+  for (const move of command.moves) {
+    const unit = survivors.find(u => u.gridId === move.fromGridId);
+    if (!unit || movedFrom.has(move.fromGridId)) {
+      return reject(prev, "redeploy", `No unit to move at position ${move.fromGridId}`);
+    }
+    movedFrom.add(move.fromGridId);
+    destinations.set(unit, move.toGridId);
+  }
+  for (const unit of survivors) {
+    unit.gridId = destinations.get(unit) ?? unit.gridId;
+  }
+
+  const deployed: PartyUnit[] = survivors.map(u => ({ unitId: u.unitId, gridId: u.gridId, rank: u.rank }));
+  const reserve = getAvailableReserve(prev, context.reserve);
+  for (const reinforcement of command.reinforcements) {
+    const reserveIndex = reserve.findIndex(u => u.unitId === reinforcement.unitId && u.rank === reinforcement.rank);
+    if (reserveIndex === -1) {
+      return reject(prev, "redeploy", `Unit ${reinforcement.unitId} at rank ${reinforcement.rank} is not in the party reserve`);
+    }
+    reserve.splice(reserveIndex, 1);
+    const deployCheck = checkDeployLimits(reinforcement.unitId, deployed);
+    if (!deployCheck.allowed) {
+      const violation = deployCheck.violations[0];
+      return reject(prev, "redeploy", `Deploy limit reached for ${violation.stringId}: ${violation.current}/${violation.limit}`);
+    }
+    const unit = createLiveBattleUnit(reinforcement.unitId, reinforcement.gridId, reinforcement.rank, false, newState.nextInstanceId++);
+    if (!unit) {
+      return reject(prev, "redeploy", `Unknown unit ${reinforcement.unitId}`);
+    }
+    newState.friendlyUnits.push(unit);
+    deployed.push(reinforcement);
+  }
+
+  if (context.unitLimit !== undefined && deployed.length > context.unitLimit) {
+    return reject(prev, "redeploy", `Unit limit reached: ${deployed.length}/${context.unitLimit}`);
+  }
+  const occupied = new Set<number>();
+  for (const unit of deployed) {
+    if (!isGridCellOpen(newState.layout.friendly, unit.gridId) || occupied.has(unit.gridId)) {
+      return reject(prev, "redeploy", `Position ${unit.gridId} is not available`);
+    }
+    occupied.add(unit.gridId);
+  }
+
+  const movedCount = command.moves.filter(m => m.fromGridId !== m.toGridId).length;
+  return finish(prev, {
+    ...newState,
+    // The new formation starts with every row standing
+    friendlyCollapsedRows: new Set<number>(),
+    battleLog: [...newState.battleLog, {
+      turnNumber: prev.currentTurn,
+      isPlayerTurn: true,
+      actions: [{
+        type: "skip",
+        message: `Redeployed: ${movedCount} unit${movedCount === 1 ? "" : "s"} moved, ${command.reinforcements.length} reinforcement${command.reinforcements.length === 1 ? "" : "s"}`,
+      }],
+    }],
+    playerMoves: [...prev.playerMoves, { type: "redeploy", moves: command.moves, reinforcements: command.reinforcements }],
+  });
+}
+
+// Apply a command to a battle state, returning the new state and what happened
+// The input state is never mutated; rejected commands return it unchanged
+export function applyBattleCommand(
+  state: LiveBattleState,
+  command: BattleCommand,
+  context: BattleContext
+): BattleCommandResult {
+  switch (command.type) {
+    case "start_player_turn":
+      return startPlayerTurn(state, context);
+    case "player_attack":
+      return playerAttack(state, command, context);
+    case "skip_turn":
+      return skipTurn(state);
+    case "enemy_turn":
+      return enemyTurn(state, context);
+    case "advance_wave":
+      return advanceWave(state, context);
+    case "redeploy":
+      return redeploy(state, command, context);
+  }
+}
@@ -0,0 +1,262 @@
+// Battle replay files
+// A replay stores only what the battle can't recompute: the party and its reserve, encounter, starting wave,
+// RNG seed, enemy AI and the player's moves. Enemy turns, turn starts and wave changes are deterministic from the seed,
+// so replaying the moves through the battle reducer reproduces the whole battle.
+import { initializeBattle } from "@/lib/liveBattleEngine";
+import { applyBattleCommand, shouldAdvanceWave } from "@/lib/battleReducer";
+import type { BattleCommand, BattleContext } from "@/lib/battleReducer";
+import { normalizeSeed } from "@/lib/battleRng";
+import { isEnemyAiTypeId } from "@/lib/enemyAi";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import type { PartyUnit } from "@/types/battleSimulator";
+import type { LiveBattleState, PlayerMove } from "@/types/liveBattle";
+
+export const BATTLE_REPLAY_FORMAT = "battle-replay";
+export const BATTLE_REPLAY_VERSION = 1;
+
+// Compact party encoding: [unitId, gridId, rank]
+export type ReplayPartyUnit = [number, number, number];
+
+// Between-wave redeployment: [fromGridId, toGridId] moves and reinforcements
+export interface ReplayRedeploy {
+  moves: [number, number][];
+  reinforcements: ReplayPartyUnit[];
+}
+
+// Compact move encoding: [attackerGridId, abilityId, targetGridId] for attacks, "skip" for skipped turns
+export type ReplayMove = [number, number, number] | "skip" | ReplayRedeploy;
+
+export interface BattleReplay {
+  format: typeof BATTLE_REPLAY_FORMAT;
+  version: number;
+  encounterId: number;
+  startingWave: number;
+  seed: number;
+  // Enemy AI the battle was played against
+  enemyAi: EnemyAiTypeId;
+  party: ReplayPartyUnit[];
+  // Units that could come in as reinforcements
+  reserve: ReplayPartyUnit[];
+  moves: ReplayMove[];
+  // ISO timestamp of when the replay was saved
+  createdAt: string;
+}
+
+// What a battle was started with, besides the encounter and seed
+export interface BattleSetup {
+  party: PartyUnit[];
+  reserve: PartyUnit[];
+  startingWave: number;
+  enemyAi: EnemyAiTypeId;
+}
+
+export interface ReplayParseResult {
+  replay?: BattleReplay;
+  error?: string;
+}
+
+// One step of a replay: the state after a command (the first frame is the initial state)
+export interface ReplayFrame {
+  state: LiveBattleState;
+  command: BattleCommand | null;
+}
+
+export interface ReplayFramesResult {
+  frames: ReplayFrame[];
+  // Set if a recorded move was rejected (e.g. game data changed since the replay was saved),
+  // or with no frames if the replay can't start against this encounter
+  error?: string;
+}
+
+// Safety cap on automatic steps when rebuilding a replay
+const MAX_REPLAY_STEPS = 10000;
+
+function encodeMove(move: PlayerMove): ReplayMove {
+  switch (move.type) {
+    case "skip":
+      return "skip";
+    case "attack":
+      return [move.attackerGridId, move.abilityId, move.targetGridId];
+    case "redeploy":
+      return {
+        moves: move.moves.map(m => [m.fromGridId, m.toGridId]),
+        reinforcements: move.reinforcements.map(u => [u.unitId, u.gridId, u.rank]),
+      };
+  }
+}
+
+function isRedeployMove(move: ReplayMove): move is ReplayRedeploy {
+  return typeof move === "object" && !Array.isArray(move);
+}
+
+const decodePartyUnit = ([unitId, gridId, rank]: ReplayPartyUnit): PartyUnit => ({ unitId, gridId, rank });
+
+function moveToCommand(move: ReplayMove): BattleCommand {
+  if (move === "skip") return { type: "skip_turn" };
+  if (isRedeployMove(move)) {
+    return {
+      type: "redeploy",
+      moves: move.moves.map(([fromGridId, toGridId]) => ({ fromGridId, toGridId })),
+      reinforcements: move.reinforcements.map(decodePartyUnit),
+    };
+  }
+  const [attackerGridId, abilityId, targetGridId] = move;
+  return { type: "player_attack", attackerGridId, abilityId, targetGridId };
+}
+
+export function getReplayParty(replay: BattleReplay): PartyUnit[] {
+  return replay.party.map(decodePartyUnit);
+}
+
+export function getReplayReserve(replay: BattleReplay): PartyUnit[] {
+  return replay.reserve.map(decodePartyUnit);
+}
+
+// Create a replay from a battle in progress (or finished)
+export function createBattleReplay(encounterId: number, setup: BattleSetup, state: LiveBattleState): BattleReplay {
+  return {
+    format: BATTLE_REPLAY_FORMAT,
+    version: BATTLE_REPLAY_VERSION,
+    encounterId,
+    startingWave: setup.startingWave,
+    seed: state.rngSeed,
+    enemyAi: setup.enemyAi,
+    party: setup.party.map(u => [u.unitId, u.gridId, u.rank]),
+    reserve: setup.reserve.map(u => [u.unitId, u.gridId, u.rank]),
+    moves: state.playerMoves.map(encodeMove),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+export function serializeBattleReplay(replay: BattleReplay): string {
+  return JSON.stringify(replay);
+}
+
+export function getReplayFilename(replay: BattleReplay): string {
+  return `battle-replay-${replay.encounterId}-${replay.seed}.json`;
+}
+
+const isInteger = (value: unknown): value is number => typeof value === "number" && Number.isInteger(value);
+
+const isIntegerTuple = (length: number) => (value: unknown): boolean =>
+  Array.isArray(value) && value.length === length && value.every(isInteger);
+
+// Parse and validate replay file contents
+export function parseBattleReplay(text: string): ReplayParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "Replay file is not valid JSON" };
+  }
+
+  if (!data || typeof data !== "object") {
+    return { error: "Replay file is not valid JSON" };
+  }
+
+  const replay = data as Partial<BattleReplay>;
+  if (replay.format !== BATTLE_REPLAY_FORMAT) {
+    return { error: "Not a battle replay file" };
+  }
+  if (!isInteger(replay.version) || replay.version > BATTLE_REPLAY_VERSION) {
+    return { error: `Unsupported replay version: ${replay.version}` };
+  }
+  if (!isInteger(replay.encounterId) || !isInteger(replay.startingWave) || !isInteger(replay.seed)) {
+    return { error: "Replay is missing its encounter, wave or seed" };
+  }
+  if (replay.startingWave < 0) {
+    return { error: `Replay starting wave is invalid: ${replay.startingWave}` };
+  }
+
+  if (!isEnemyAiTypeId(replay.enemyAi)) {
+    return { error: `Unknown enemy AI: ${replay.enemyAi}` };
+  }
+
+  const validParty = Array.isArray(replay.party) && replay.party.length > 0 &&
+    replay.party.every(isIntegerTuple(3));
+  if (!validParty) {
+    return { error: "Replay party is invalid" };
+  }
+  if (!Array.isArray(replay.reserve) || !replay.reserve.every(isIntegerTuple(3))) {
+    return { error: "Replay reserve is invalid" };
+  }
+
+  const validMoves = Array.isArray(replay.moves) && replay.moves.every(m =>
+    m === "skip" ||
+    isIntegerTuple(3)(m) ||
+    (isRedeployMove(m) && Array.isArray(m.moves) && m.moves.every(isIntegerTuple(2)) &&
+      Array.isArray(m.reinforcements) && m.reinforcements.every(isIntegerTuple(3)))
+  );
+  if (!validMoves) {
+    return { error: "Replay moves are invalid" };
+  }
+
+  return {
+    replay: {
+      format: BATTLE_REPLAY_FORMAT,
+      version: replay.version,
+      encounterId: replay.encounterId,
+      startingWave: replay.startingWave,
+      seed: normalizeSeed(replay.seed),
+      enemyAi: replay.enemyAi,
+      party: replay.party,
+      reserve: replay.reserve,
+      moves: replay.moves,
+      createdAt: typeof replay.createdAt === "string" ? replay.createdAt : "",
+    },
+  };
+}
+
+// Re-run a replay through the battle reducer, recording the state after every command
+// Stops when the moves run out (at the next player decision) or the battle ends
+export function buildReplayFrames(replay: BattleReplay, battleContext: BattleContext): ReplayFramesResult {
+  // The encounter's waves are only known here, not when the file is parsed
+  if (replay.startingWave >= battleContext.waves.length) {
+    return { frames: [], error: `Replay starts at wave ${replay.startingWave + 1}, but the encounter has ${battleContext.waves.length} waves` };
+  }
+
+  const context: BattleContext = {
+    ...battleContext,
+    enemyAi: replay.enemyAi,
+    reserve: getReplayReserve(replay),
+  };
+  let state = initializeBattle(getReplayParty(replay), context.waves, replay.startingWave, replay.seed, context.layout);
+  const frames: ReplayFrame[] = [{ state, command: null }];
+  let moveIndex = 0;
+
+  for (let step = 0; step < MAX_REPLAY_STEPS && !state.isBattleOver; step++) {
+    let command: BattleCommand;
+    if (shouldAdvanceWave(state)) {
+      // A redeployment recorded between waves happens before the next wave spawns
+      const nextMove = replay.moves[moveIndex];
+      command = nextMove !== undefined && isRedeployMove(nextMove)
+        ? moveToCommand(nextMove)
+        : { type: "advance_wave" };
+    } else if (state.isPlayerTurn) {
+      if (moveIndex >= replay.moves.length) break;
+      command = moveToCommand(replay.moves[moveIndex]);
+    } else {
+      command = { type: "enemy_turn" };
+    }
+
+    const result = applyBattleCommand(state, command, context);
+    if (result.state === state) {
+      const rejection = result.events.find(e => e.type === "command_rejected");
+      const reason = rejection?.type === "command_rejected" ? rejection.reason : "command was rejected";
+      return { frames, error: `Replay diverged at move ${moveIndex + 1}: ${reason}` };
+    }
+    state = result.state;
+    frames.push({ state, command });
+
+    if (command.type === "skip_turn" || command.type === "player_attack" || command.type === "redeploy") moveIndex++;
+
+    // The player's turn starts right after the enemy's, as in the live battle
+    if (command.type === "enemy_turn" && state.isPlayerTurn && !state.isBattleOver) {
+      const turnStart = applyBattleCommand(state, { type: "start_player_turn" }, context);
+      state = turnStart.state;
+      frames[frames.length - 1] = { state, command };
+    }
+  }
+
+  return { frames };
+}
@@ -0,0 +1,68 @@
+// Seeded random number generation for the live battle engine
+// Uses mulberry32: the n-th draw only depends on (seed, n), so a battle can be
+// reproduced from its seed and resumed from any recorded RNG position.
+
+// A source of uniformly distributed numbers in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Anything that carries an RNG seed and position (LiveBattleState does)
+export interface RngCursor {
+  rngSeed: number;
+  rngPosition: number;
+}
+
+const MULBERRY32_INCREMENT = 0x6d2b79f5;
+const UINT32_RANGE = 4294967296;
+
+// Get the draw at a given position of a seeded sequence
+export function randomAt(seed: number, position: number): number {
+  let t = (seed + Math.imul(position + 1, MULBERRY32_INCREMENT)) | 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+}
+
+// Create a random source that reads from and advances the cursor's position
+export function createBattleRng(cursor: RngCursor): RandomSource {
+  return () => {
+    const value = randomAt(cursor.rngSeed, cursor.rngPosition);
+    cursor.rngPosition++;
+    return value;
+  };
+}
+
+// Create a standalone random source from a seed (not tied to any battle state)
+export function createSeededRng(seed: number): RandomSource {
+  return createBattleRng({ rngSeed: normalizeSeed(seed), rngPosition: 0 });
+}
+
+// Pick a uniformly random element from a non-empty array
+export function pickRandom<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Seeds are unsigned 32-bit integers
+export function normalizeSeed(seed: number): number {
+  return Math.floor(Math.abs(seed)) >>> 0;
+}
+
+// Generate a fresh seed for a new battle
+export function generateSeed(): number {
+  return normalizeSeed(Math.random() * UINT32_RANGE);
+}
+
+// Parse a user-entered seed (decimal, or hex with 0x prefix)
+// Returns null if the input isn't a valid seed
+export function parseSeed(input: string): number | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  const value = /^0x[0-9a-f]+$/i.test(trimmed)
+    ? parseInt(trimmed, 16)
+    : /^\d+$/.test(trimmed)
+      ? Number(trimmed)
+      : NaN;
+
+  if (!Number.isFinite(value) || value >= UINT32_RANGE) return null;
+  return normalizeSeed(value);
+}
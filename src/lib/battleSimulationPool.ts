@@ -0,0 +1,337 @@
+// Runs batches of automated battles on a pool of Web Workers
+// A batch is split into shards of consecutive battle seeds; idle workers pull shards from a queue
+// and stream outcomes back as they finish, so large sweeps never block the page.
+// The turn planner's move suggestions go through the same queue, one worker per request.
+import { aggregateOutcomes, DEFAULT_MAX_TURNS } from "@/lib/battleMonteCarlo";
+import type { BattleOutcome, MonteCarloResult } from "@/lib/battleMonteCarlo";
+import type { BattleContext } from "@/lib/battleReducer";
+import type { MoveSuggestion } from "@/lib/battlePlanner";
+import { getGameData, isBundledGameData } from "@/lib/gameData";
+import type { GameDataFiles } from "@/lib/gameData";
+import type { PlayerPolicyId } from "@/lib/battlePolicies";
+import { generateSeed, normalizeSeed } from "@/lib/battleRng";
+import type { PartyUnit } from "@/types/battleSimulator";
+import type { LiveBattleState } from "@/types/liveBattle";
+
+export interface BatchSimulationJob {
+  party: PartyUnit[];
+  context: BattleContext;
+  policy: PlayerPolicyId;
+  iterations: number;
+  // Base seed - battle i uses seed + i, exactly like runMonteCarlo
+  seed?: number;
+  maxTurns?: number;
+  startingWave?: number;
+}
+
+export interface BatchSimulationHandlers {
+  // Called whenever a worker reports finished battles
+  onProgress?: (completed: number, total: number) => void;
+  // Streamed outcomes, in completion order (not seed order)
+  onOutcomes?: (outcomes: BattleOutcome[]) => void;
+}
+
+export interface BatchSimulationRun {
+  // Resolves with the aggregated result, or null if the run was cancelled
+  result: Promise<MonteCarloResult | null>;
+  cancel: () => void;
+}
+
+// A contiguous range of battles handed to one worker
+export interface SimulationShard {
+  jobId: number;
+  party: PartyUnit[];
+  context: BattleContext;
+  policy: PlayerPolicyId;
+  baseSeed: number;
+  startIndex: number;
+  count: number;
+  maxTurns: number;
+  startingWave: number;
+}
+
+export interface MoveSuggestionJob {
+  state: LiveBattleState;
+  context: BattleContext;
+  count: number;
+  // Display names by unit id for the explanations - the planner's name lookup can't cross into a worker
+  unitNames: Record<number, string>;
+}
+
+export interface MoveSuggestionRun {
+  // Resolves with the ranked suggestions, or null if the request was cancelled
+  result: Promise<MoveSuggestion[] | null>;
+  cancel: () => void;
+}
+
+// One planner request handed to a worker
+export interface PlanningTask extends MoveSuggestionJob {
+  jobId: number;
+}
+
+// Messages from the pool to a worker
+export type SimulationWorkerRequest =
+  | { type: "data"; files: GameDataFiles }
+  | { type: "run"; shard: SimulationShard }
+  | { type: "plan"; task: PlanningTask }
+  | { type: "cancel"; jobId: number };
+
+// Messages from a worker back to the pool
+export type SimulationWorkerResponse =
+  | { type: "outcomes"; jobId: number; startIndex: number; outcomes: BattleOutcome[] }
+  | { type: "shard_done"; jobId: number }
+  | { type: "suggestions"; jobId: number; suggestions: MoveSuggestion[] }
+  | { type: "error"; jobId: number; message: string };
+
+type QueuedRequest = Extract<SimulationWorkerRequest, { type: "run" | "plan" }>;
+
+const getRequestJobId = (request: QueuedRequest): number =>
+  request.type === "run" ? request.shard.jobId : request.task.jobId;
+
+interface PoolWorker {
+  worker: Worker;
+  busyJobId: number | null;
+}
+
+interface ActiveJob {
+  jobId: number;
+  party: PartyUnit[];
+  policy: PlayerPolicyId;
+  baseSeed: number;
+  total: number;
+  completed: number;
+  // Indexed by battle number so aggregation is independent of completion order
+  outcomes: BattleOutcome[];
+  handlers: BatchSimulationHandlers;
+  resolve: (result: MonteCarloResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface ActivePlan {
+  resolve: (suggestions: MoveSuggestion[] | null) => void;
+  reject: (error: Error) => void;
+}
+
+export interface SimulationPool {
+  run: (job: BatchSimulationJob, handlers?: BatchSimulationHandlers) => BatchSimulationRun;
+  suggestMoves: (job: MoveSuggestionJob) => MoveSuggestionRun;
+  terminate: () => void;
+}
+
+const MAX_POOL_SIZE = 8;
+// Smaller shards balance load better across workers; larger ones mean less messaging
+const SHARDS_PER_WORKER = 4;
+const MIN_SHARD_SIZE = 25;
+
+// Leave one core for the page itself
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+}
+
+// Create a worker pool; workers are spawned lazily on the first run
+export function createSimulationPool(size: number = getDefaultPoolSize()): SimulationPool {
+  const workers: PoolWorker[] = [];
+  const queue: QueuedRequest[] = [];
+  const jobs = new Map<number, ActiveJob>();
+  const plans = new Map<number, ActivePlan>();
+  let nextJobId = 1;
+  let terminated = false;
+
+  const spawnWorkers = () => {
+    while (workers.length < size) {
+      const poolWorker: PoolWorker = {
+        worker: new Worker(new URL("../workers/battleSimulation.worker.ts", import.meta.url), { type: "module" }),
+        busyJobId: null,
+      };
+      poolWorker.worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => handleMessage(poolWorker, event.data);
+      poolWorker.worker.onerror = (event) => {
+        event.preventDefault();
+        const jobId = poolWorker.busyJobId;
+        poolWorker.busyJobId = null;
+        if (jobId !== null) failJob(jobId, event.message || "Simulation worker crashed");
+        dispatch();
+      };
+      // Workers start out with the bundled data, so a loaded data version has to be sent over
+      if (!isBundledGameData()) {
+        const request: SimulationWorkerRequest = { type: "data", files: getGameData() };
+        poolWorker.worker.postMessage(request);
+      }
+      workers.push(poolWorker);
+    }
+  };
+
+  // Hand queued shards and planner requests to idle workers
+  const dispatch = () => {
+    for (const poolWorker of workers) {
+      if (poolWorker.busyJobId !== null) continue;
+      const request = queue.shift();
+      if (!request) return;
+      poolWorker.busyJobId = getRequestJobId(request);
+      poolWorker.worker.postMessage(request);
+    }
+  };
+
+  const finishJob = (jobId: number, result: MonteCarloResult | null) => {
+    const job = jobs.get(jobId);
+    if (!job) return;
+    jobs.delete(jobId);
+    job.resolve(result);
+  };
+
+  const failJob = (jobId: number, message: string) => {
+    const job = jobs.get(jobId) ?? plans.get(jobId);
+    if (!job) return;
+    cancelJob(jobId);
+    job.reject(new Error(message));
+  };
+
+  // Drop a job's queued requests and tell busy workers to stop it
+  const cancelJob = (jobId: number) => {
+    jobs.delete(jobId);
+    plans.delete(jobId);
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (getRequestJobId(queue[i]) === jobId) queue.splice(i, 1);
+    }
+    const request: SimulationWorkerRequest = { type: "cancel", jobId };
+    for (const poolWorker of workers) {
+      if (poolWorker.busyJobId === jobId) poolWorker.worker.postMessage(request);
+    }
+  };
+
+  const handleMessage = (poolWorker: PoolWorker, message: SimulationWorkerResponse) => {
+    const job = jobs.get(message.jobId);
+
+    switch (message.type) {
+      case "outcomes": {
+        // Late results from a cancelled job are ignored
+        if (!job) return;
+        message.outcomes.forEach((outcome, i) => {
+          job.outcomes[message.startIndex + i] = outcome;
+        });
+        job.completed += message.outcomes.length;
+        job.handlers.onOutcomes?.(message.outcomes);
+        job.handlers.onProgress?.(job.completed, job.total);
+        if (job.completed >= job.total) {
+          finishJob(job.jobId, aggregateOutcomes(job.party, job.outcomes, job.policy, job.baseSeed));
+        }
+        return;
+      }
+      case "shard_done":
+        poolWorker.busyJobId = null;
+        dispatch();
+        return;
+      case "suggestions": {
+        poolWorker.busyJobId = null;
+        // Late results from a cancelled request are ignored
+        const plan = plans.get(message.jobId);
+        plans.delete(message.jobId);
+        plan?.resolve(message.suggestions);
+        dispatch();
+        return;
+      }
+      case "error":
+        poolWorker.busyJobId = null;
+        failJob(message.jobId, message.message);
+        dispatch();
+        return;
+    }
+  };
+
+  const run = (job: BatchSimulationJob, handlers: BatchSimulationHandlers = {}): BatchSimulationRun => {
+    if (terminated) {
+      return { result: Promise.reject(new Error("Simulation pool has been terminated")), cancel: () => {} };
+    }
+
+    const jobId = nextJobId++;
+    const total = Math.max(0, Math.floor(job.iterations));
+    const baseSeed = normalizeSeed(job.seed ?? generateSeed());
+
+    const result = new Promise<MonteCarloResult | null>((resolve, reject) => {
+      jobs.set(jobId, {
+        jobId,
+        party: job.party,
+        policy: job.policy,
+        baseSeed,
+        total,
+        completed: 0,
+        outcomes: new Array(total),
+        handlers,
+        resolve,
+        reject,
+      });
+    });
+
+    if (total === 0) {
+      finishJob(jobId, aggregateOutcomes(job.party, [], job.policy, baseSeed));
+      return { result, cancel: () => {} };
+    }
+
+    spawnWorkers();
+
+    const shardSize = Math.max(MIN_SHARD_SIZE, Math.ceil(total / (workers.length * SHARDS_PER_WORKER)));
+    for (let startIndex = 0; startIndex < total; startIndex += shardSize) {
+      const shard: SimulationShard = {
+        jobId,
+        party: job.party,
+        context: job.context,
+        policy: job.policy,
+        baseSeed,
+        startIndex,
+        count: Math.min(shardSize, total - startIndex),
+        maxTurns: job.maxTurns ?? DEFAULT_MAX_TURNS,
+        startingWave: job.startingWave ?? 0,
+      };
+      queue.push({ type: "run", shard });
+    }
+    dispatch();
+
+    return {
+      result,
+      cancel: () => {
+        const active = jobs.get(jobId);
+        if (!active) return;
+        cancelJob(jobId);
+        active.resolve(null);
+      },
+    };
+  };
+
+  const suggestMoves = (job: MoveSuggestionJob): MoveSuggestionRun => {
+    if (terminated) {
+      return { result: Promise.reject(new Error("Simulation pool has been terminated")), cancel: () => {} };
+    }
+
+    const jobId = nextJobId++;
+    const result = new Promise<MoveSuggestion[] | null>((resolve, reject) => {
+      plans.set(jobId, { resolve, reject });
+    });
+
+    spawnWorkers();
+    queue.push({ type: "plan", task: { ...job, jobId } });
+    dispatch();
+
+    return {
+      result,
+      cancel: () => {
+        const active = plans.get(jobId);
+        if (!active) return;
+        cancelJob(jobId);
+        active.resolve(null);
+      },
+    };
+  };
+
+  const terminate = () => {
+    terminated = true;
+    for (const poolWorker of workers) poolWorker.worker.terminate();
+    workers.length = 0;
+    queue.length = 0;
+    for (const job of jobs.values()) job.resolve(null);
+    jobs.clear();
+    for (const plan of plans.values()) plan.resolve(null);
+    plans.clear();
+  };
+
+  return { run, suggestMoves, terminate };
+}
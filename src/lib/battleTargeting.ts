@@ -4,7 +4,8 @@ import { UnitBlocking } from "@/data/gameEnums";
 import { LineOfFire } from "@/types/battleSimulator";
 import type { EncounterUnit } from "@/types/encounters";
 import type { PartyUnit } from "@/types/battleSimulator";
-import { GRID_ID_TO_COORDS, COORDS_TO_GRID_ID } from "@/types/battleSimulator";
+import { GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, getGridShape, hasWallInColumn, isGridCellOpen, isGridRowOpen } from "@/types/battleSimulator";
+import type { BattleLayout } from "@/types/battleSimulator";
 
 export interface BlockingUnit {
   gridId: number;
@@ -44,6 +45,20 @@ export function getBlockingUnits(
     });
 }
 
+// Check if a defender wall stands between the attacker and the target's column
+// Walls block like a unit with no blocking level: only contact fire can't get past them
+export function isBlockedByWall(
+  targetGridId: number,
+  lineOfFire: number,
+  attackerIsEnemy: boolean,
+  layout?: BattleLayout
+): boolean {
+  if (!layout || lineOfFire !== LineOfFire.Contact) return false;
+  const targetCoords = GRID_ID_TO_COORDS[targetGridId];
+  if (!targetCoords) return false;
+  return hasWallInColumn(getGridShape(layout, !attackerIsEnemy), targetCoords.x);
+}
+
 // Check if a target is blocked by units in front of it based on line of fire
 // Returns: { isBlocked: boolean, blockedBy?: BlockingUnit }
 // 
@@ -58,13 +73,18 @@ export function checkLineOfFire(
   targetGridId: number,
   lineOfFire: number,
   attackerIsEnemy: boolean,
-  targetUnits: BlockingUnit[]
+  targetUnits: BlockingUnit[],
+  layout?: BattleLayout
 ): { isBlocked: boolean; blockedBy?: BlockingUnit; reason?: string } {
   // Indirect fire ignores all blocking
   if (lineOfFire === LineOfFire.Indirect) {
     return { isBlocked: false };
   }
 
+  if (isBlockedByWall(targetGridId, lineOfFire, attackerIsEnemy, layout)) {
+    return { isBlocked: true, reason: "Contact fire blocked by wall" };
+  }
+
   // Contact fire now checks blocking like other fire types
   // This is critical for reticle-based abilities (target_type: 2) where the reticle
   // can be placed beyond the front row, and blocking should still apply
@@ -152,7 +172,8 @@ export function findFrontmostUnblockedPosition(
   maxRange: number,
   lineOfFire: number,
   attackerIsEnemy: boolean,
-  targetUnits: BlockingUnit[]
+  targetUnits: BlockingUnit[],
+  layout?: BattleLayout
 ): number | null {
   const attackerCoords = GRID_ID_TO_COORDS[attackerGridId];
   if (!attackerCoords) return null;
@@ -168,11 +189,11 @@ export function findFrontmostUnblockedPosition(
       if (gridId === undefined) continue;
       
       // Check if in range
-      const range = calculateRange(attackerGridId, gridId, attackerIsEnemy);
+      const range = calculateRange(attackerGridId, gridId, attackerIsEnemy, undefined, undefined, layout);
       if (range < minRange || range > maxRange) continue;
       
       // Check if blocked
-      const blockCheck = checkLineOfFire(attackerGridId, gridId, lineOfFire, attackerIsEnemy, targetUnits);
+      const blockCheck = checkLineOfFire(attackerGridId, gridId, lineOfFire, attackerIsEnemy, targetUnits, layout);
       if (!blockCheck.isBlocked) {
         return gridId;
       }
@@ -186,36 +207,38 @@ export function findFrontmostUnblockedPosition(
 // Calculate row distance from attacker to target for range checking
 // Returns the number of "rows" between them, accounting for collapsed rows
 // Collapsed rows on either side reduce the effective range needed
+// With a layout, unavailable cells are out of range and rows with no open cells don't count
 export function calculateRange(
   attackerGridId: number,
   targetGridId: number,
   attackerIsEnemy: boolean,
   attackerCollapsedRows?: Set<number>,
-  targetCollapsedRows?: Set<number>
+  targetCollapsedRows?: Set<number>,
+  layout?: BattleLayout
 ): number {
   const attackerCoords = GRID_ID_TO_COORDS[attackerGridId];
   const targetCoords = GRID_ID_TO_COORDS[targetGridId];
   
   if (!attackerCoords || !targetCoords) return 999;
+
+  const attackerShape = layout && getGridShape(layout, attackerIsEnemy);
+  const targetShape = layout && getGridShape(layout, !attackerIsEnemy);
+  if (targetShape && !isGridCellOpen(targetShape, targetGridId)) return 999;
   
   // Count collapsed rows between attacker and the "gap" between grids
   // Attacker side: rows 0 to (attackerY - 1) that are collapsed
   let attackerCollapsedCount = 0;
-  if (attackerCollapsedRows) {
-    for (let row = 0; row < attackerCoords.y; row++) {
-      if (attackerCollapsedRows.has(row)) {
-        attackerCollapsedCount++;
-      }
+  for (let row = 0; row < attackerCoords.y; row++) {
+    if (attackerCollapsedRows?.has(row) || (attackerShape && !isGridRowOpen(attackerShape, row))) {
+      attackerCollapsedCount++;
     }
   }
   
   // Target side: rows 0 to (targetY - 1) that are collapsed
   let targetCollapsedCount = 0;
-  if (targetCollapsedRows) {
-    for (let row = 0; row < targetCoords.y; row++) {
-      if (targetCollapsedRows.has(row)) {
-        targetCollapsedCount++;
-      }
+  for (let row = 0; row < targetCoords.y; row++) {
+    if (targetCollapsedRows?.has(row) || (targetShape && !isGridRowOpen(targetShape, row))) {
+      targetCollapsedCount++;
     }
   }
   
@@ -255,7 +278,8 @@ export function getTargetingInfo(
   maxRange: number,
   lineOfFire: number,
   attackerIsEnemy: boolean,
-  targetUnits: BlockingUnit[]
+  targetUnits: BlockingUnit[],
+  layout?: BattleLayout
 ): TargetingInfo[] {
   const result: TargetingInfo[] = [];
   
@@ -263,7 +287,7 @@ export function getTargetingInfo(
   const allGridIds = Object.keys(GRID_ID_TO_COORDS).map(k => parseInt(k));
   
   for (const gridId of allGridIds) {
-    const range = calculateRange(attackerGridId, gridId, attackerIsEnemy);
+    const range = calculateRange(attackerGridId, gridId, attackerIsEnemy, undefined, undefined, layout);
     const inRange = range >= minRange && range <= maxRange;
     
     const blockCheck = checkLineOfFire(
@@ -271,7 +295,8 @@ export function getTargetingInfo(
       gridId,
       lineOfFire,
       attackerIsEnemy,
-      targetUnits
+      targetUnits,
+      layout
     );
     
     result.push({
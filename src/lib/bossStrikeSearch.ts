@@ -0,0 +1,132 @@
+// Search index over current and archived boss strikes: reward units, the encounters their tiers use,
+// and the enemies in those encounters with their immunities.
+import { getAllBossStrikeIds, getBossStrikeById, getBossStrikeName, formatRewards } from "@/lib/bossStrikes";
+import { getDamageModifier } from "@/lib/battleCalculations";
+import { getEncounterById } from "@/lib/encounters";
+import { onGameDataChange } from "@/lib/gameData";
+import { getUnitById } from "@/lib/units";
+import { DAMAGE_TYPE_MAP } from "@/types/battleSimulator";
+import type { BossStrike } from "@/types/bossStrike";
+
+export type BossStrikeSearchMode = "name" | "reward_unit" | "encounter" | "enemy_unit" | "immunity";
+
+export const BOSS_STRIKE_SEARCH_MODES: Record<BossStrikeSearchMode, { label: string; placeholder: string }> = {
+  name: { label: "Name or ID", placeholder: "Search by ID or name..." },
+  reward_unit: { label: "Rewards unit", placeholder: "Unit ID or name..." },
+  encounter: { label: "Uses encounter", placeholder: "Encounter ID..." },
+  enemy_unit: { label: "Has enemy", placeholder: "Unit ID or name..." },
+  immunity: { label: "Enemy immune to", placeholder: "" },
+};
+
+export interface ImmunityFilter {
+  kind: "damage" | "status";
+  // Damage type, or status effect family
+  id: number;
+}
+
+export type BossStrikeQuery =
+  | { mode: "reward_unit"; unitIds: number[] }
+  | { mode: "encounter"; encounterIds: number[] }
+  | { mode: "enemy_unit"; unitIds: number[] }
+  | { mode: "immunity"; immunity: ImmunityFilter };
+
+export interface BossStrikeSearchResult {
+  bossStrikeId: string;
+  archived: boolean;
+  bossStrike: BossStrike;
+  name?: string;
+  // Encounters that matched the query; empty for reward searches
+  encounterIds: number[];
+}
+
+interface IndexedBossStrike {
+  bossStrikeId: string;
+  archived: boolean;
+  bossStrike: BossStrike;
+  name?: string;
+  rewardUnitIds: Set<number>;
+  encounterIds: number[];
+}
+
+interface IndexedEncounter {
+  enemyUnitIds: Set<number>;
+  damageImmunities: Set<number>;
+  statusImmunities: Set<number>;
+}
+
+// Built on first search and dropped when the game data changes
+let bossStrikeIndex: IndexedBossStrike[] | null = null;
+const encounterIndex = new Map<number, IndexedEncounter>();
+
+onGameDataChange(() => {
+  bossStrikeIndex = null;
+  encounterIndex.clear();
+});
+
+function getBossStrikeIndex(): IndexedBossStrike[] {
+  if (bossStrikeIndex) return bossStrikeIndex;
+  bossStrikeIndex = [false, true].flatMap(archived =>
+    getAllBossStrikeIds(archived).map(bossStrikeId => {
+      const bossStrike = getBossStrikeById(bossStrikeId, archived)!;
+      const tiers = bossStrike.tier_info ?? [];
+      const rewardUnitIds = new Set(
+        tiers.flatMap(tier => formatRewards(tier.rewards).filter(r => r.type === "unit").map(r => parseInt(r.key)))
+      );
+      const encounterIds = [...new Set([
+        ...tiers.flatMap(tier => tier.encounters.map(e => e.encounter_id)),
+        ...(bossStrike.global_event_encounters ?? []).map(e => e.encounter_id),
+      ])].sort((a, b) => a - b);
+      return { bossStrikeId, archived, bossStrike, name: getBossStrikeName(bossStrike), rewardUnitIds, encounterIds };
+    })
+  );
+  return bossStrikeIndex;
+}
+
+// Enemies fight at their highest rank, so that rank's damage mods decide their immunities
+function getIndexedEncounter(encounterId: number): IndexedEncounter {
+  const cached = encounterIndex.get(encounterId);
+  if (cached) return cached;
+
+  const indexed: IndexedEncounter = { enemyUnitIds: new Set(), damageImmunities: new Set(), statusImmunities: new Set() };
+  for (const enemy of getEncounterById(encounterId)?.units ?? []) {
+    if (indexed.enemyUnitIds.has(enemy.unit_id)) continue;
+    indexed.enemyUnitIds.add(enemy.unit_id);
+    const unit = getUnitById(enemy.unit_id);
+    const stats = unit?.statsConfig?.stats?.[(unit.statsConfig?.stats?.length || 1) - 1];
+    for (const damageType of Object.keys(DAMAGE_TYPE_MAP).map(Number)) {
+      if (getDamageModifier(stats?.damage_mods, damageType) === 0) indexed.damageImmunities.add(damageType);
+    }
+    unit?.statsConfig?.status_effect_immunities?.forEach(family => indexed.statusImmunities.add(family));
+  }
+  encounterIndex.set(encounterId, indexed);
+  return indexed;
+}
+
+function matchesEncounter(encounterId: number, query: BossStrikeQuery): boolean {
+  switch (query.mode) {
+    case "encounter":
+      return query.encounterIds.includes(encounterId);
+    case "enemy_unit": {
+      const { enemyUnitIds } = getIndexedEncounter(encounterId);
+      return query.unitIds.some(id => enemyUnitIds.has(id));
+    }
+    case "immunity": {
+      const indexed = getIndexedEncounter(encounterId);
+      const immunities = query.immunity.kind === "damage" ? indexed.damageImmunities : indexed.statusImmunities;
+      return immunities.has(query.immunity.id);
+    }
+    default:
+      return false;
+  }
+}
+
+// Current events first, then archived, each by ID
+export function searchBossStrikes(query: BossStrikeQuery): BossStrikeSearchResult[] {
+  return getBossStrikeIndex().flatMap(({ rewardUnitIds, encounterIds, ...entry }) => {
+    if (query.mode === "reward_unit") {
+      return query.unitIds.some(id => rewardUnitIds.has(id)) ? [{ ...entry, encounterIds: [] }] : [];
+    }
+    const matched = encounterIds.filter(id => matchesEncounter(id, query));
+    return matched.length > 0 ? [{ ...entry, encounterIds: matched }] : [];
+  });
+}
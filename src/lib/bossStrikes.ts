@@ -1,18 +1,19 @@
-import bossStrikeData from "@/data/boss_strike_config.json";
-import archivedBossStrikeData from "@/data/boss_strike_config_archived.json";
-import type { BossStrike, BossStrikeData, TierInfo } from "@/types/bossStrike";
+import type { BossStrike, ProgressCost, TierInfo } from "@/types/bossStrike";
 import { getEncounterById } from "@/lib/encounters";
+import { getGameData } from "@/lib/gameData";
 
-const currentData = bossStrikeData as unknown as BossStrikeData;
-const archivedData = archivedBossStrikeData as unknown as BossStrikeData;
+function getBossStrikeData(archived: boolean) {
+  const data = getGameData();
+  return archived ? data.archivedBossStrikes : data.bossStrikes;
+}
 
 export function getBossStrikeById(id: number | string, archived = false): BossStrike | undefined {
-  const data = archived ? archivedData : currentData;
+  const data = getBossStrikeData(archived);
   return data[String(id)];
 }
 
 export function getAllBossStrikeIds(archived = false): string[] {
-  const data = archived ? archivedData : currentData;
+  const data = getBossStrikeData(archived);
   return Object.keys(data).sort((a, b) => parseInt(a) - parseInt(b));
 }
 
@@ -53,8 +54,14 @@ export function getTierEncountersByLevelRange(tier: TierInfo): Map<string, numbe
   return grouped;
 }
 
-export function formatRewards(rewards: TierInfo["rewards"]): { type: string; key: string; amount: number }[] {
-  const formatted: { type: string; key: string; amount: number }[] = [];
+export interface FormattedReward {
+  type: string;
+  key: string;
+  amount: number;
+}
+
+export function formatRewards(rewards: TierInfo["rewards"]): FormattedReward[] {
+  const formatted: FormattedReward[] = [];
   
   if (rewards.resources) {
     Object.entries(rewards.resources).forEach(([key, amount]) => {
@@ -87,3 +94,87 @@ export function formatRewards(rewards: TierInfo["rewards"]): { type: string; key
   
   return formatted;
 }
+
+export interface TierPlan {
+  tier: number;
+  // Cumulative points the guild needs to complete this tier
+  requiredPoints: number;
+  // Progress points a clear awards, scaled by the guild weight
+  pointsPerClear: number;
+  // False if a tier up to this one awards no points, so clearing encounters can't reach it
+  // (its clears and costs are then left at 0)
+  reachable: boolean;
+  clears: number;
+  // Clears each participating member has to make, rounded up
+  clearsPerMember: number;
+  cost: Record<string, number>;
+  cumulativeClears: number;
+  cumulativeCost: Record<string, number>;
+  // Every reward unlocked up to and including this tier
+  cumulativeRewards: FormattedReward[];
+}
+
+// Guild weight percentage for a guild size; 100 if no bracket covers it
+export function getGuildWeight(bossStrike: BossStrike, guildSize: number): number {
+  const weight = bossStrike.guild_weights?.find(w => guildSize >= w.min_guild_size && guildSize <= w.max_guild_size);
+  return weight?.percent ?? 100;
+}
+
+function addCost(total: Record<string, number>, cost: Record<string, number>, times: number) {
+  Object.entries(cost).forEach(([key, amount]) => {
+    total[key] = (total[key] ?? 0) + amount * times;
+  });
+}
+
+// Plan the clears and resources needed to reach each tier
+// Completion points are cumulative; each clear awards the tier's progress points (the boss strike
+// default if the tier has none) scaled by the guild weight, and costs the tier's resources.
+export function planBossStrike(bossStrike: BossStrike, guildSize: number, participants: number): TierPlan[] {
+  const weight = getGuildWeight(bossStrike, guildSize) / 100;
+  const members = Math.max(1, participants);
+  const plans: TierPlan[] = [];
+  // Points the clears planned so far earn - clears are whole, so this can overshoot a tier's threshold
+  let earnedPoints = 0;
+  let reachable = true;
+  let cumulativeClears = 0;
+  const cumulativeCost: Record<string, number> = {};
+  const rewardTotals = new Map<string, FormattedReward>();
+
+  (bossStrike.tier_info ?? []).forEach((tier, index) => {
+    const progress: ProgressCost | undefined = tier.tier_progress_cost ?? bossStrike.default_progress_cost;
+    const pointsPerClear = (progress?.awarded_points ?? 0) * weight;
+    const requiredPoints = tier.required_completion_points;
+    const pointsNeeded = Math.max(0, requiredPoints - earnedPoints);
+    if (pointsNeeded > 0 && pointsPerClear <= 0) reachable = false;
+    const clears = reachable && pointsNeeded > 0 ? Math.ceil(pointsNeeded / pointsPerClear) : 0;
+
+    const cost: Record<string, number> = {};
+    if (clears > 0) {
+      addCost(cost, progress?.cost ?? {}, clears);
+      addCost(cumulativeCost, progress?.cost ?? {}, clears);
+    }
+    cumulativeClears += clears;
+    earnedPoints += clears * pointsPerClear;
+
+    formatRewards(tier.rewards).forEach(reward => {
+      const key = `${reward.type}:${reward.key}`;
+      const existing = rewardTotals.get(key);
+      rewardTotals.set(key, { ...reward, amount: (existing?.amount ?? 0) + reward.amount });
+    });
+
+    plans.push({
+      tier: index + 1,
+      requiredPoints,
+      pointsPerClear,
+      reachable,
+      clears,
+      clearsPerMember: Math.ceil(clears / members),
+      cost,
+      cumulativeClears,
+      cumulativeCost: { ...cumulativeCost },
+      cumulativeRewards: Array.from(rewardTotals.values()),
+    });
+  });
+
+  return plans;
+}
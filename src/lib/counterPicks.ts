@@ -0,0 +1,144 @@
+// Counter-pick recommendations: rank player units by how well their best ability matches an
+// encounter's enemies - damage type against their HP and armor damage mods, target tags, and
+// whether the line of fire gets past the blockers standing in front of them.
+import { allUnits, getUnitById } from "@/lib/units";
+import { getUnitAbilities, canTargetUnit, getDamageModifier } from "@/lib/battleCalculations";
+import { getBattleLayout } from "@/lib/battleConfig";
+import { getBlockingUnits, checkLineOfFire } from "@/lib/battleTargeting";
+import { getDamageTypeName } from "@/lib/damageImages";
+import { getEncounterWaves } from "@/lib/encounters";
+import { UnitBlockingLabels, UnitSide } from "@/data/gameEnums";
+import { LineOfFire, LineOfFireLabels } from "@/types/battleSimulator";
+import type { AbilityInfo } from "@/types/battleSimulator";
+import type { Encounter } from "@/types/encounters";
+import type { DamageMods } from "@/types/units";
+
+export interface CounterPick {
+  unitId: number;
+  // The unit's best-matching ability
+  abilityId: number;
+  // Average damage multiplier of that ability over every enemy, 0 for enemies it can't hit
+  effectiveness: number;
+  reasons: string[];
+}
+
+// An enemy in the encounter and what it takes to hit it
+interface EnemyTarget {
+  unitId: number;
+  hp: number;
+  armor: number;
+  damageMods?: DamageMods;
+  armorDamageMods?: DamageMods;
+  // Blocking level of the strongest unit shielding it from each line of fire, null if that line reaches it
+  blockedBy: Record<number, number | null>;
+}
+
+const DEFAULT_PICK_COUNT = 8;
+// Any attacker position works - only the target's column and the units in front of it matter
+const ATTACKER_GRID_ID = 2;
+
+function getEnemyTargets(encounter: Encounter): EnemyTarget[] {
+  const layout = getBattleLayout(encounter.layout_id, encounter.is_player_attacker !== false);
+  return getEncounterWaves(encounter).flatMap(wave => {
+    const blockingUnits = getBlockingUnits(wave, true);
+    return wave.flatMap(enemy => {
+      const unit = getUnitById(enemy.unit_id);
+      if (!unit || enemy.grid_id === undefined) return [];
+      // Enemies fight at their highest rank
+      const stats = unit.statsConfig?.stats?.[(unit.statsConfig?.stats?.length || 1) - 1];
+      const blockedBy: Record<number, number | null> = {};
+      for (const lineOfFire of Object.values(LineOfFire)) {
+        const check = checkLineOfFire(ATTACKER_GRID_ID, enemy.grid_id, lineOfFire, false, blockingUnits, layout);
+        blockedBy[lineOfFire] = check.isBlocked ? check.blockedBy?.blocking ?? 0 : null;
+      }
+      return [{
+        unitId: enemy.unit_id,
+        hp: stats?.hp || 0,
+        armor: stats?.armor_hp || 0,
+        damageMods: stats?.damage_mods,
+        armorDamageMods: stats?.armor_damage_mods,
+        blockedBy,
+      }];
+    });
+  });
+}
+
+// Damage multiplier against an enemy, weighting the armor and HP mods by how much of each it has
+function getMultiplier(ability: AbilityInfo, enemy: EnemyTarget): number {
+  const hpMod = getDamageModifier(enemy.damageMods, ability.damageType);
+  if (enemy.armor <= 0) return hpMod;
+  const armorMod = getDamageModifier(enemy.armorDamageMods, ability.damageType);
+  return (enemy.armor * armorMod + enemy.hp * hpMod) / (enemy.armor + enemy.hp);
+}
+
+// 0 if the ability can't target or reach the enemy
+function getEffectiveness(ability: AbilityInfo, enemy: EnemyTarget): number {
+  if (!canTargetUnit(enemy.unitId, ability.targets)) return 0;
+  if (enemy.blockedBy[ability.lineOfFire] !== null) return 0;
+  return getMultiplier(ability, enemy);
+}
+
+function explainPick(ability: AbilityInfo, enemies: EnemyTarget[]): string[] {
+  const reasons: string[] = [];
+  const typeName = getDamageTypeName(ability.damageType);
+  const total = enemies.length;
+
+  const reached = enemies.filter(e => getEffectiveness(ability, e) > 0);
+  const weak = reached.filter(e => getMultiplier(ability, e) > 1);
+  if (weak.length > 0) {
+    const average = weak.reduce((sum, e) => sum + getMultiplier(ability, e), 0) / weak.length;
+    reasons.push(`${typeName} ×${average.toFixed(1)} vs ${weak.length} of ${total} enemies`);
+  } else if (reached.length > 0) {
+    const average = reached.reduce((sum, e) => sum + getMultiplier(ability, e), 0) / reached.length;
+    reasons.push(`${typeName} ×${average.toFixed(1)} vs ${reached.length} of ${total} enemies`);
+  }
+
+  const resisted = reached.filter(e => getMultiplier(ability, e) < 1).length;
+  if (resisted > 0) reasons.push(`resisted by ${resisted}`);
+  const immune = enemies.filter(e => getMultiplier(ability, e) === 0).length;
+  if (immune > 0) reasons.push(`${immune} immune to ${typeName}`);
+
+  // Enemies this line of fire reaches that direct fire can't
+  const pastBlockers = reached.filter(e => e.blockedBy[LineOfFire.Direct] !== null);
+  if (pastBlockers.length > 0 && ability.lineOfFire !== LineOfFire.Direct) {
+    const strongest = Math.max(...pastBlockers.map(e => e.blockedBy[LineOfFire.Direct] ?? 0));
+    reasons.push(`${LineOfFireLabels[ability.lineOfFire]} reaches ${pastBlockers.length} back-row ${pastBlockers.length === 1 ? "enemy" : "enemies"} past ${UnitBlockingLabels[strongest]} blockers`);
+  }
+
+  const untargetable = enemies.filter(e => !canTargetUnit(e.unitId, ability.targets)).length;
+  if (untargetable > 0) reasons.push(`can't target ${untargetable} of ${total}`);
+
+  return reasons;
+}
+
+// Rank player units against an encounter's enemies over all waves
+export function getCounterPicks(encounter: Encounter, count: number = DEFAULT_PICK_COUNT): CounterPick[] {
+  const enemies = getEnemyTargets(encounter);
+  if (enemies.length === 0) return [];
+
+  const picks = allUnits
+    .filter(unit => unit.identity.side === UnitSide.Player)
+    .flatMap(unit => {
+      const rank = unit.statsConfig?.stats?.length || 1;
+      const scored = getUnitAbilities(unit.id, rank)
+        .filter(ability => ability.maxDamage > 0)
+        .map(ability => ({
+          ability,
+          effectiveness: enemies.reduce((sum, e) => sum + getEffectiveness(ability, e), 0) / enemies.length,
+          damage: ((ability.minDamage + ability.maxDamage) / 2) * ability.shotsPerAttack * ability.attacksPerUse,
+        }))
+        .sort((a, b) => (b.effectiveness - a.effectiveness) || (b.damage - a.damage));
+      return scored.length > 0 ? [{ unitId: unit.id, ...scored[0] }] : [];
+    })
+    .filter(pick => pick.effectiveness > 0);
+
+  // Between equally good matches, the harder hitter wins
+  picks.sort((a, b) => (b.effectiveness - a.effectiveness) || (b.damage - a.damage));
+
+  return picks.slice(0, count).map(pick => ({
+    unitId: pick.unitId,
+    abilityId: pick.ability.abilityId,
+    effectiveness: pick.effectiveness,
+    reasons: explainPick(pick.ability, enemies),
+  }));
+}
@@ -0,0 +1,134 @@
+// Encounter difficulty rating: a rough, static score for comparing encounters without simulating them.
+// Toughness (enemy HP + armor, raised by immunities and blocking) is multiplied by offense (the best
+// damage each enemy can deal per turn, raised by the spread of damage types), since how much damage
+// the player takes grows with both how long the enemies survive and how hard they hit.
+import { getUnitAbilities, getDamageModifier } from "@/lib/battleCalculations";
+import { getBattleLayout } from "@/lib/battleConfig";
+import { getEncounterWaves } from "@/lib/encounters";
+import { onGameDataChange } from "@/lib/gameData";
+import { getUnitById } from "@/lib/units";
+import { UnitBlocking } from "@/data/gameEnums";
+import { DAMAGE_TYPE_MAP, hasWallInColumn } from "@/types/battleSimulator";
+import type { Encounter } from "@/types/encounters";
+
+export interface EncounterDifficulty {
+  score: number;
+  waves: number;
+  enemies: number;
+  totalHp: number;
+  totalArmor: number;
+  // Sum of each enemy's best average damage per use
+  damagePotential: number;
+  // Distinct damage types the enemies can deal
+  damageTypes: number;
+  // Damage types enemies take no damage from, plus status effects they're immune to, over all enemies
+  immunities: number;
+  // Enemies that fully block line of fire, plus wall columns in front of the enemy grid
+  blockers: number;
+}
+
+export type DifficultyTier = "easy" | "medium" | "hard" | "extreme";
+
+export const DIFFICULTY_TIERS: Record<DifficultyTier, { label: string; className: string }> = {
+  easy: { label: "Easy", className: "bg-green-500/20 text-green-700 dark:text-green-300 border-green-500/50" },
+  medium: { label: "Medium", className: "bg-yellow-500/20 text-yellow-700 dark:text-yellow-300 border-yellow-500/50" },
+  hard: { label: "Hard", className: "bg-orange-500/20 text-orange-700 dark:text-orange-300 border-orange-500/50" },
+  extreme: { label: "Extreme", className: "bg-red-500/20 text-red-700 dark:text-red-300 border-red-500/50" },
+};
+
+// Toughness bonus per immunity, relative to the number of enemies
+const IMMUNITY_WEIGHT = 0.25;
+// Toughness bonus per blocker
+const BLOCKER_WEIGHT = 0.1;
+// Offense bonus per damage type beyond the first - more types are harder to armor against
+const DAMAGE_TYPE_WEIGHT = 0.1;
+
+interface EnemyProfile {
+  hp: number;
+  armor: number;
+  damage: number;
+  damageTypes: number[];
+  immunities: number;
+  isBlocker: boolean;
+}
+
+// Unit stats don't depend on the encounter, so profiles are shared between ratings
+const enemyProfileCache = new Map<number, EnemyProfile | null>();
+onGameDataChange(() => enemyProfileCache.clear());
+
+// Enemies always fight at their highest rank
+function getEnemyProfile(unitId: number): EnemyProfile | null {
+  const cached = enemyProfileCache.get(unitId);
+  if (cached !== undefined) return cached;
+
+  const unit = getUnitById(unitId);
+  let profile: EnemyProfile | null = null;
+  if (unit) {
+    const rank = unit.statsConfig?.stats?.length || 1;
+    const stats = unit.statsConfig?.stats?.[rank - 1];
+    const abilities = getUnitAbilities(unitId, rank);
+    const damageTypeIds = Object.keys(DAMAGE_TYPE_MAP).map(Number);
+    profile = {
+      hp: stats?.hp || 0,
+      armor: stats?.armor_hp || 0,
+      // Same measure as the enemy AI's threat: the best average damage per use
+      damage: Math.max(0, ...abilities.map(a => ((a.minDamage + a.maxDamage) / 2) * a.shotsPerAttack * a.attacksPerUse)),
+      damageTypes: [...new Set(abilities.map(a => a.damageType))],
+      immunities: damageTypeIds.filter(type => getDamageModifier(stats?.damage_mods, type) === 0).length
+        + (unit.statsConfig?.status_effect_immunities?.length || 0),
+      isBlocker: (unit.statsConfig?.blocking ?? UnitBlocking.None) >= UnitBlocking.Full,
+    };
+  }
+  enemyProfileCache.set(unitId, profile);
+  return profile;
+}
+
+// Rate an encounter over all of its waves; null if it has no enemies
+export function getEncounterDifficulty(encounter: Encounter): EncounterDifficulty | null {
+  const waves = getEncounterWaves(encounter);
+  const profiles = waves.flat()
+    .map(u => getEnemyProfile(u.unit_id))
+    .filter((p): p is EnemyProfile => p !== null);
+  if (profiles.length === 0) return null;
+
+  const enemyGrid = getBattleLayout(encounter.layout_id, encounter.is_player_attacker !== false).enemy;
+  const wallColumns = [0, 1, 2, 3, 4].filter(x => hasWallInColumn(enemyGrid, x)).length;
+
+  const totalHp = profiles.reduce((sum, p) => sum + p.hp, 0);
+  const totalArmor = profiles.reduce((sum, p) => sum + p.armor, 0);
+  const damagePotential = profiles.reduce((sum, p) => sum + p.damage, 0);
+  const damageTypes = new Set(profiles.flatMap(p => p.damageTypes)).size;
+  const immunities = profiles.reduce((sum, p) => sum + p.immunities, 0);
+  const blockers = profiles.filter(p => p.isBlocker).length + wallColumns;
+
+  const toughness = (totalHp + totalArmor)
+    * (1 + IMMUNITY_WEIGHT * immunities / profiles.length)
+    * (1 + BLOCKER_WEIGHT * blockers);
+  const offense = damagePotential * (1 + DAMAGE_TYPE_WEIGHT * Math.max(0, damageTypes - 1));
+
+  return {
+    score: Math.round(Math.sqrt(toughness * offense)),
+    waves: waves.length,
+    enemies: profiles.length,
+    totalHp,
+    totalArmor,
+    damagePotential: Math.round(damagePotential),
+    damageTypes,
+    immunities,
+    blockers,
+  };
+}
+
+// Score thresholds splitting a set of scores into four equally sized tiers
+export function getDifficultyThresholds(scores: number[]): [number, number, number] {
+  const sorted = [...scores].sort((a, b) => a - b);
+  const at = (fraction: number) => sorted.length > 0 ? sorted[Math.floor((sorted.length - 1) * fraction)] : 0;
+  return [at(0.25), at(0.5), at(0.75)];
+}
+
+export function getDifficultyTier(score: number, thresholds: [number, number, number]): DifficultyTier {
+  if (score <= thresholds[0]) return "easy";
+  if (score <= thresholds[1]) return "medium";
+  if (score <= thresholds[2]) return "hard";
+  return "extreme";
+}
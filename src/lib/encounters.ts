@@ -1,14 +1,12 @@
-import encountersData from "@/data/battle_encounters.json";
-import type { Encounter, EncountersData, EncounterUnit } from "@/types/encounters";
-
-const rawData = encountersData as unknown as EncountersData;
+import { getGameData } from "@/lib/gameData";
+import type { Encounter, EncounterUnit } from "@/types/encounters";
 
 export function getEncounterById(id: number | string): Encounter | undefined {
-  return rawData.armies[String(id)];
+  return getGameData().encounters.armies[String(id)];
 }
 
 export function getAllEncounterIds(): string[] {
-  return Object.keys(rawData.armies).sort((a, b) => parseInt(a) - parseInt(b));
+  return Object.keys(getGameData().encounters.armies).sort((a, b) => parseInt(a) - parseInt(b));
 }
 
 export function getEncounterWaves(encounter: Encounter): EncounterUnit[][] {
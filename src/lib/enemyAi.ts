@@ -0,0 +1,164 @@
+// Enemy AI strategies, picked from the encounter's enemy_ai_type where its value is known
+// The player can override the choice to test a formation against a different behaviour.
+// Each enemy turn one action is picked from the pool of every active enemy's usable abilities;
+// the strategy decides which ability and target that is.
+import { getUnitAbilities } from "@/lib/battleCalculations";
+import { estimateActionDamage, totalExpectedDamage } from "@/lib/battleEstimates";
+import { pickRandom } from "@/lib/battleRng";
+import type { RandomSource } from "@/lib/battleRng";
+import type { AbilityInfo } from "@/types/battleSimulator";
+import type { Encounter } from "@/types/encounters";
+import type { LiveBattleState, LiveBattleUnit } from "@/types/liveBattle";
+
+// An enemy ability that can be used this turn, with the targets it can hit
+export interface EnemyActionOption {
+  enemy: LiveBattleUnit;
+  ability: AbilityInfo;
+  targets: LiveBattleUnit[];
+}
+
+export interface EnemyActionChoice {
+  enemy: LiveBattleUnit;
+  ability: AbilityInfo;
+  targetGridId: number;
+}
+
+// Strategies are only called with a non-empty option pool
+export type EnemyAiStrategy = (
+  options: EnemyActionOption[],
+  state: LiveBattleState,
+  random: RandomSource,
+  environmentalDamageMods?: Record<string, number>
+) => EnemyActionChoice;
+
+export type EnemyAiTypeId = "random" | "lowest_hp" | "highest_threat" | "max_expected_damage";
+
+export const DEFAULT_ENEMY_AI: EnemyAiTypeId = "random";
+
+// Encounter enemy_ai_type values with a known strategy
+// None are known yet: the encounter data doesn't describe its AI types, so every encounter falls back
+// to the default until a value's in-game behaviour is confirmed and added here
+export const ENEMY_AI_TYPE_IDS: Partial<Record<number, EnemyAiTypeId>> = {};
+
+// Strategy for an encounter's enemy_ai_type, or the default when the type is unknown
+export function getEncounterEnemyAi(encounter: Encounter | null | undefined): EnemyAiTypeId {
+  const enemyAiType = encounter?.enemy_ai_type;
+  return (enemyAiType !== undefined && ENEMY_AI_TYPE_IDS[enemyAiType]) || DEFAULT_ENEMY_AI;
+}
+
+// Pick the highest scoring item, breaking ties randomly
+function pickBest<T>(items: T[], score: (item: T) => number, random: RandomSource): T {
+  let best: T[] = [];
+  let bestScore = -Infinity;
+  for (const item of items) {
+    const value = score(item);
+    if (value > bestScore) {
+      best = [item];
+      bestScore = value;
+    } else if (value === bestScore) {
+      best.push(item);
+    }
+  }
+  return best.length === 1 ? best[0] : pickRandom(best, random);
+}
+
+// Every (enemy, ability, target) combination in the pool
+function expandChoices(options: EnemyActionOption[]): EnemyActionChoice[] {
+  return options.flatMap(({ enemy, ability, targets }) =>
+    targets.map(target => ({ enemy, ability, targetGridId: target.gridId }))
+  );
+}
+
+function expectedDamageTo(
+  choice: EnemyActionChoice,
+  gridId: number,
+  state: LiveBattleState,
+  environmentalDamageMods?: Record<string, number>
+): number {
+  const damage = estimateActionDamage(state, { attacker: choice.enemy, ability: choice.ability, targetGridId: choice.targetGridId }, environmentalDamageMods);
+  return damage.get(gridId) ?? 0;
+}
+
+// Attack the chosen unit with whichever available action is expected to hurt it most
+function bestChoiceAgainst(
+  target: LiveBattleUnit,
+  options: EnemyActionOption[],
+  state: LiveBattleState,
+  random: RandomSource,
+  environmentalDamageMods?: Record<string, number>
+): EnemyActionChoice {
+  const choices = options
+    .filter(o => o.targets.some(t => t.gridId === target.gridId))
+    .map(o => ({ enemy: o.enemy, ability: o.ability, targetGridId: target.gridId }));
+  return pickBest(choices, c => expectedDamageTo(c, target.gridId, state, environmentalDamageMods), random);
+}
+
+function uniqueTargets(options: EnemyActionOption[]): LiveBattleUnit[] {
+  const byGridId = new Map<number, LiveBattleUnit>();
+  for (const option of options) {
+    for (const target of option.targets) byGridId.set(target.gridId, target);
+  }
+  return [...byGridId.values()];
+}
+
+// How dangerous a unit is: the best average damage per use of any of its abilities
+export function getThreat(unit: LiveBattleUnit): number {
+  return Math.max(0, ...getUnitAbilities(unit.unitId, unit.rank).map(a =>
+    ((a.minDamage + a.maxDamage) / 2) * a.shotsPerAttack * a.attacksPerUse
+  ));
+}
+
+// Uniformly random ability from the pool, then a uniformly random valid target
+export const randomEnemyAi: EnemyAiStrategy = (options, _state, random) => {
+  const { enemy, ability, targets } = pickRandom(options, random);
+  const target = pickRandom(targets, random);
+  return { enemy, ability, targetGridId: target.gridId };
+};
+
+// Focus the reachable unit with the least HP + armor left
+export const lowestHpEnemyAi: EnemyAiStrategy = (options, state, random, environmentalDamageMods) => {
+  const target = pickBest(uniqueTargets(options), t => -(t.currentHp + t.currentArmor), random);
+  return bestChoiceAgainst(target, options, state, random, environmentalDamageMods);
+};
+
+// Focus the reachable unit that deals the most damage
+export const highestThreatEnemyAi: EnemyAiStrategy = (options, state, random, environmentalDamageMods) => {
+  const target = pickBest(uniqueTargets(options), getThreat, random);
+  return bestChoiceAgainst(target, options, state, random, environmentalDamageMods);
+};
+
+// Use the action with the highest total expected damage, counting splash and AOE hits
+export const maxExpectedDamageEnemyAi: EnemyAiStrategy = (options, state, random, environmentalDamageMods) => {
+  return pickBest(
+    expandChoices(options),
+    c => totalExpectedDamage(estimateActionDamage(state, { attacker: c.enemy, ability: c.ability, targetGridId: c.targetGridId }, environmentalDamageMods)),
+    random
+  );
+};
+
+export const ENEMY_AI_STRATEGIES: Record<EnemyAiTypeId, { label: string; description: string; strategy: EnemyAiStrategy }> = {
+  random: {
+    label: "Random",
+    description: "Uses a random available ability on a random valid target",
+    strategy: randomEnemyAi,
+  },
+  lowest_hp: {
+    label: "Lowest HP Focus",
+    description: "Attacks the unit with the least HP and armor left",
+    strategy: lowestHpEnemyAi,
+  },
+  highest_threat: {
+    label: "Highest Threat",
+    description: "Attacks the unit that deals the most damage",
+    strategy: highestThreatEnemyAi,
+  },
+  max_expected_damage: {
+    label: "Max Expected Damage",
+    description: "Uses the action with the highest expected damage",
+    strategy: maxExpectedDamageEnemyAi,
+  },
+};
+
+export function isEnemyAiTypeId(value: unknown): value is EnemyAiTypeId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ENEMY_AI_STRATEGIES, value);
+}
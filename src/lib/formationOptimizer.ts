@@ -0,0 +1,295 @@
+// Formation optimizer: searches which units from a pool to field, and where, against an encounter.
+// Random formations are simulated first, then the best ones are refined by swapping, moving and
+// replacing units; the finalists are re-simulated with more battles before they are ranked.
+import type { MonteCarloResult } from "@/lib/battleMonteCarlo";
+import type { BattleContext } from "@/lib/battleReducer";
+import type { PlayerPolicyId } from "@/lib/battlePolicies";
+import { createSeededRng, generateSeed, normalizeSeed, pickRandom } from "@/lib/battleRng";
+import type { RandomSource } from "@/lib/battleRng";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import { createNewParty } from "@/lib/partyStorage";
+import { checkDeployLimits, checkEncounterUnitLimit, isUnitExcludedFromEncounter } from "@/lib/unitRestrictions";
+import { getUnitById } from "@/lib/units";
+import { DEFAULT_BATTLE_LAYOUT, PREFERRED_ROW_MAP, isGridCellOpen } from "@/types/battleSimulator";
+import type { Party, PartyUnit } from "@/types/battleSimulator";
+import { ALL_GRID_POSITIONS } from "@/types/encounters";
+import type { Encounter } from "@/types/encounters";
+
+export type FormationObjective = "win_rate" | "losses";
+
+export const FORMATION_OBJECTIVES: Record<FormationObjective, { label: string; description: string }> = {
+  win_rate: {
+    label: "Maximize win rate",
+    description: "Rank formations by simulated win rate, then by fewest units lost",
+  },
+  losses: {
+    label: "Minimize losses",
+    description: "Rank formations by fewest units lost per battle, then by win rate",
+  },
+};
+
+// A unit the player has available, at the rank they have it
+export interface PoolUnit {
+  unitId: number;
+  rank: number;
+}
+
+export interface FormationSearchOptions {
+  objective: FormationObjective;
+  policy: PlayerPolicyId;
+  // Formations simulated during the search
+  candidates: number;
+  // Battles per formation during the search
+  searchIterations: number;
+  // Battles per finalist when ranking the results
+  finalIterations: number;
+  // Formations returned
+  resultCount: number;
+  // Base seed - every formation is simulated on the same seeds so they're compared on equal luck
+  seed?: number;
+  // Name for the returned parties, numbered by rank
+  partyName?: string;
+  // Enemy AI the formations are tested against (random if omitted)
+  enemyAi?: EnemyAiTypeId;
+}
+
+// Simulate a formation - resolves null if the search was cancelled
+export type FormationEvaluator = (party: PartyUnit[], iterations: number, seed: number) => Promise<MonteCarloResult | null>;
+
+export interface OptimizedFormation {
+  party: Party;
+  result: MonteCarloResult;
+  // Friendly units expected to die per battle
+  expectedLosses: number;
+}
+
+// A formation under search: which pool entry stands where
+type Placement = { poolIndex: number; gridId: number }[];
+
+interface EvaluatedPlacement {
+  placement: Placement;
+  result: MonteCarloResult;
+  expectedLosses: number;
+}
+
+// Formations simulated at once, so the worker pool stays busy
+const GENERATION_SIZE = 8;
+// Share of the search spent on random formations before refining the best
+const EXPLORE_SHARE = 0.5;
+// Best formations that new ones are derived from while refining
+const ELITE_SIZE = 4;
+// Chance a unit in a random formation goes to its preferred row rather than any open cell
+const PREFERRED_ROW_CHANCE = 0.75;
+// Attempts at finding a formation that hasn't been simulated yet
+const MAX_DUPLICATE_RETRIES = 20;
+// Keeps the final battles independent of the ones the search was tuned on
+const FINAL_SEED_SALT = 0x5bd1e995;
+
+export const DEFAULT_FORMATION_SEARCH: Omit<FormationSearchOptions, "policy"> = {
+  objective: "win_rate",
+  candidates: 48,
+  searchIterations: 50,
+  finalIterations: 500,
+  resultCount: 3,
+};
+
+// Pool units that can be fielded in this encounter - unknown units and exclude_tag units are dropped
+export function getEligiblePoolUnits(pool: PoolUnit[], encounter: Encounter | null | undefined): PoolUnit[] {
+  return pool.filter(u => getUnitById(u.unitId) && !isUnitExcludedFromEncounter(u.unitId, encounter));
+}
+
+// Average number of friendly units lost per battle
+export function getExpectedLosses(result: MonteCarloResult): number {
+  return result.units.reduce((sum, unit) => sum + (1 - unit.survivalRate), 0);
+}
+
+function compareFormations(objective: FormationObjective, a: EvaluatedPlacement, b: EvaluatedPlacement): number {
+  if (objective === "losses") {
+    return (a.expectedLosses - b.expectedLosses) || (b.result.winRate - a.result.winRate) || (a.result.avgTurns - b.result.avgTurns);
+  }
+  return (b.result.winRate - a.result.winRate) || (a.expectedLosses - b.expectedLosses) || (a.result.avgTurns - b.result.avgTurns);
+}
+
+function toPartyUnits(placement: Placement, pool: PoolUnit[]): PartyUnit[] {
+  return placement.map(p => ({ unitId: pool[p.poolIndex].unitId, gridId: p.gridId, rank: pool[p.poolIndex].rank }));
+}
+
+// Identical units at the same rank are interchangeable, so the key ignores pool indexes
+function getPlacementKey(placement: Placement, pool: PoolUnit[]): string {
+  return placement
+    .map(p => `${pool[p.poolIndex].unitId}:${pool[p.poolIndex].rank}@${p.gridId}`)
+    .sort()
+    .join(",");
+}
+
+function canAddUnit(unitId: number, units: PartyUnit[], encounter: Encounter | null | undefined): boolean {
+  if (encounter && !checkEncounterUnitLimit(encounter, units).allowed) return false;
+  return checkDeployLimits(unitId, units).allowed;
+}
+
+function getFreeCells(placement: Placement, openCells: number[]): number[] {
+  return openCells.filter(id => !placement.some(p => p.gridId === id));
+}
+
+// Place a unit in its preferred row (falling back like getNextAvailablePosition), or sometimes anywhere
+function pickCell(unitId: number, freeCells: number[], random: RandomSource): number | null {
+  if (freeCells.length === 0) return null;
+  if (random() >= PREFERRED_ROW_CHANCE) return pickRandom(freeCells, random);
+
+  const preferredRow = getUnitById(unitId)?.statsConfig?.preferred_row || 1;
+  const rowOrder: (keyof typeof PREFERRED_ROW_MAP)[] = preferredRow === 1 ? [1, 2, 3] : preferredRow === 2 ? [2, 1, 3] : [3, 2, 1];
+  for (const row of rowOrder) {
+    const cells = PREFERRED_ROW_MAP[row].filter(id => freeCells.includes(id));
+    if (cells.length > 0) return pickRandom(cells, random);
+  }
+  return null;
+}
+
+// Fill the formation from the pool in random order, as far as the encounter and deploy limits allow
+function buildRandomPlacement(
+  pool: PoolUnit[],
+  encounter: Encounter | null | undefined,
+  openCells: number[],
+  random: RandomSource
+): Placement {
+  const order = pool.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const placement: Placement = [];
+  for (const poolIndex of order) {
+    if (!canAddUnit(pool[poolIndex].unitId, toPartyUnits(placement, pool), encounter)) continue;
+    const gridId = pickCell(pool[poolIndex].unitId, getFreeCells(placement, openCells), random);
+    if (gridId === null) break;
+    placement.push({ poolIndex, gridId });
+  }
+  return placement;
+}
+
+// Derive a new formation by swapping two units, moving one to a free cell or replacing one from the pool
+function mutatePlacement(
+  placement: Placement,
+  pool: PoolUnit[],
+  encounter: Encounter | null | undefined,
+  openCells: number[],
+  random: RandomSource
+): Placement {
+  const next = placement.map(p => ({ ...p }));
+  if (next.length === 0) return next;
+  const index = Math.floor(random() * next.length);
+  const roll = random();
+
+  if (roll < 1 / 3 && next.length > 1) {
+    let other = Math.floor(random() * (next.length - 1));
+    if (other >= index) other++;
+    [next[index].gridId, next[other].gridId] = [next[other].gridId, next[index].gridId];
+    return next;
+  }
+
+  const freeCells = getFreeCells(next, openCells);
+  if (roll < 2 / 3 && freeCells.length > 0) {
+    next[index].gridId = pickRandom(freeCells, random);
+    return next;
+  }
+
+  // Swap in a pool unit that isn't fielded, if the limits allow it in place of this one
+  const others = next.filter((_, i) => i !== index);
+  const reserves = pool
+    .map((_, poolIndex) => poolIndex)
+    .filter(poolIndex => !next.some(p => p.poolIndex === poolIndex))
+    .filter(poolIndex => canAddUnit(pool[poolIndex].unitId, toPartyUnits(others, pool), encounter));
+  if (reserves.length > 0) {
+    next[index].poolIndex = pickRandom(reserves, random);
+  } else if (next.length > 1) {
+    let other = Math.floor(random() * (next.length - 1));
+    if (other >= index) other++;
+    [next[index].gridId, next[other].gridId] = [next[other].gridId, next[index].gridId];
+  }
+  return next;
+}
+
+// Search for the best formations from a unit pool against an encounter
+// Returns null if the evaluator reports the search was cancelled
+export async function optimizeFormations(
+  pool: PoolUnit[],
+  encounter: Encounter | null | undefined,
+  context: BattleContext,
+  options: FormationSearchOptions,
+  evaluate: FormationEvaluator,
+  onProgress?: (evaluated: number, total: number) => void
+): Promise<OptimizedFormation[] | null> {
+  const eligible = getEligiblePoolUnits(pool, encounter);
+  if (eligible.length === 0 || context.waves.length === 0) return [];
+
+  const gridShape = (context.layout ?? DEFAULT_BATTLE_LAYOUT).friendly;
+  const openCells = ALL_GRID_POSITIONS.filter(id => isGridCellOpen(gridShape, id));
+  const seed = normalizeSeed(options.seed ?? generateSeed());
+  const random = createSeededRng(seed);
+  const finalCount = Math.max(options.resultCount, Math.min(options.candidates, options.resultCount * 2));
+  const total = options.candidates + finalCount;
+
+  const evaluated = new Map<string, EvaluatedPlacement>();
+  let attempts = 0;
+  const ranked = () => [...evaluated.values()].sort((a, b) => compareFormations(options.objective, a, b));
+
+  // Simulate formations in parallel; null if cancelled
+  const evaluateAll = async (placements: Placement[], iterations: number, runSeed: number): Promise<EvaluatedPlacement[] | null> => {
+    const results = await Promise.all(placements.map(placement => evaluate(toPartyUnits(placement, eligible), iterations, runSeed)));
+    if (results.some(result => result === null)) return null;
+    return placements.map((placement, i) => ({
+      placement,
+      result: results[i]!,
+      expectedLosses: getExpectedLosses(results[i]!),
+    }));
+  };
+
+  while (attempts < options.candidates) {
+    const generation = new Map<string, Placement>();
+    const exploring = attempts < options.candidates * EXPLORE_SHARE;
+    const size = Math.min(GENERATION_SIZE, options.candidates - attempts);
+    const elite = ranked().slice(0, ELITE_SIZE);
+
+    for (let i = 0; i < size; i++) {
+      attempts++;
+      for (let retry = 0; retry < MAX_DUPLICATE_RETRIES; retry++) {
+        const placement = exploring || elite.length === 0
+          ? buildRandomPlacement(eligible, encounter, openCells, random)
+          : mutatePlacement(pickRandom(elite, random).placement, eligible, encounter, openCells, random);
+        const key = getPlacementKey(placement, eligible);
+        if (placement.length > 0 && !evaluated.has(key) && !generation.has(key)) {
+          generation.set(key, placement);
+          break;
+        }
+      }
+    }
+
+    const results = await evaluateAll([...generation.values()], options.searchIterations, seed);
+    if (!results) return null;
+    [...generation.keys()].forEach((key, i) => evaluated.set(key, results[i]));
+    onProgress?.(attempts, total);
+  }
+
+  // Re-simulate the finalists with more battles on fresh seeds before ranking them
+  const finalists = ranked().slice(0, finalCount);
+  const finalResults = await evaluateAll(
+    finalists.map(f => f.placement),
+    options.finalIterations,
+    normalizeSeed(seed ^ FINAL_SEED_SALT)
+  );
+  if (!finalResults) return null;
+  onProgress?.(total, total);
+
+  return finalResults
+    .sort((a, b) => compareFormations(options.objective, a, b))
+    .slice(0, options.resultCount)
+    .map((formation, i) => ({
+      party: {
+        ...createNewParty(`${options.partyName || "Optimized Formation"} #${i + 1}`),
+        units: toPartyUnits(formation.placement, eligible),
+      },
+      result: formation.result,
+      expectedLosses: formation.expectedLosses,
+    }));
+}
@@ -0,0 +1,82 @@
+// Active game data: the bundled JSON dumps, or a data version loaded at runtime in their place
+// Kept free of browser-only dependencies so the battle engine can run inside Web Workers.
+import battleUnitsData from "@/data/battle_units.json";
+import abilitiesData from "@/data/battle_abilities.json";
+import encountersData from "@/data/battle_encounters.json";
+import battleConfigData from "@/data/battle_config.json";
+import bossStrikeData from "@/data/boss_strike_config.json";
+import archivedBossStrikeData from "@/data/boss_strike_config_archived.json";
+import statusEffectsData from "@/data/status_effects.json";
+import statusEffectFamiliesData from "@/data/status_effect_families.json";
+import type { Ability } from "@/lib/abilities";
+import type { BattleConfig } from "@/lib/battleConfig";
+import type { StatusEffect, StatusEffectFamily } from "@/lib/statusEffectData";
+import type { BossStrikeData } from "@/types/bossStrike";
+import type { EncountersData } from "@/types/encounters";
+import type { UnitConfig } from "@/types/units";
+
+export interface GameDataFiles {
+  units: Record<string, UnitConfig[]>;
+  abilities: Record<string, Ability>;
+  encounters: EncountersData;
+  battleConfig: BattleConfig;
+  bossStrikes: BossStrikeData;
+  archivedBossStrikes: BossStrikeData;
+  statusEffects: Record<string, StatusEffect>;
+  statusEffectFamilies: Record<string, StatusEffectFamily>;
+}
+
+export type GameDataFile = keyof GameDataFiles;
+
+// File name of each data file in a game dump
+export const GAME_DATA_FILE_NAMES: Record<GameDataFile, string> = {
+  units: "battle_units.json",
+  abilities: "battle_abilities.json",
+  encounters: "battle_encounters.json",
+  battleConfig: "battle_config.json",
+  bossStrikes: "boss_strike_config.json",
+  archivedBossStrikes: "boss_strike_config_archived.json",
+  statusEffects: "status_effects.json",
+  statusEffectFamilies: "status_effect_families.json",
+};
+
+export const BUNDLED_GAME_DATA: GameDataFiles = {
+  units: battleUnitsData as unknown as Record<string, UnitConfig[]>,
+  abilities: abilitiesData as unknown as Record<string, Ability>,
+  encounters: encountersData as unknown as EncountersData,
+  battleConfig: battleConfigData as unknown as BattleConfig,
+  bossStrikes: bossStrikeData as unknown as BossStrikeData,
+  archivedBossStrikes: archivedBossStrikeData as unknown as BossStrikeData,
+  statusEffects: statusEffectsData as unknown as Record<string, StatusEffect>,
+  statusEffectFamilies: statusEffectFamiliesData as unknown as Record<string, StatusEffectFamily>,
+};
+
+let activeData: GameDataFiles = BUNDLED_GAME_DATA;
+const listeners = new Set<() => void>();
+
+export function getGameData(): GameDataFiles {
+  return activeData;
+}
+
+export function isBundledGameData(): boolean {
+  return activeData === BUNDLED_GAME_DATA;
+}
+
+// A data version's files, with the ones it doesn't include taken from the bundled data
+export function withBundledGameData(files: Partial<GameDataFiles> | null): GameDataFiles {
+  return files ? { ...BUNDLED_GAME_DATA, ...files } : BUNDLED_GAME_DATA;
+}
+
+// Replace the active data
+export function setGameData(files: Partial<GameDataFiles> | null): void {
+  activeData = withBundledGameData(files);
+  listeners.forEach(listener => listener());
+}
+
+// For modules that derive lookups from the data; returns an unsubscribe function
+export function onGameDataChange(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,288 @@
+// Patch diffs: what changed between two game data versions - unit stats per rank, abilities,
+// encounters and boss strikes - with values formatted for balance-change summaries.
+import { DAMAGE_TYPE_MAP } from "@/types/battleSimulator";
+import { UnitBlockingLabels, UnitTagLabels } from "@/data/gameEnums";
+import { getEffectDisplayNameTranslated, getStatusEffectDisplayName } from "@/lib/statusEffectData";
+import type { Ability, AbilityStats } from "@/lib/abilities";
+import type { GameDataFiles } from "@/lib/gameData";
+import type { BossStrike, TierInfo } from "@/types/bossStrike";
+import type { DamageMods, IdentityConfig, StatsConfig, UnitConfig, UnitStats, WeaponsConfig } from "@/types/units";
+
+export type DiffStatus = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export interface RankChanges {
+  rank: number;
+  changes: FieldChange[];
+}
+
+export interface UnitDiff {
+  unitId: number;
+  // Localization key, from the newer version if the unit still exists
+  name?: string;
+  status: DiffStatus;
+  // Changes that apply to every rank, like weapons and blocking
+  changes: FieldChange[];
+  ranks: RankChanges[];
+}
+
+export interface AbilityDiff {
+  abilityId: number;
+  name?: string;
+  status: DiffStatus;
+  changes: FieldChange[];
+}
+
+export interface EncounterDiff {
+  encounterId: string;
+  name?: string;
+  status: Exclude<DiffStatus, "changed">;
+  level?: number;
+  enemies: number;
+}
+
+export interface BossStrikeDiff {
+  bossStrikeId: string;
+  archived: boolean;
+  name?: string;
+  status: DiffStatus;
+  changes: FieldChange[];
+}
+
+export interface GameDataDiff {
+  units: UnitDiff[];
+  abilities: AbilityDiff[];
+  encounters: EncounterDiff[];
+  bossStrikes: BossStrikeDiff[];
+}
+
+const UNIT_STAT_FIELDS: { key: keyof UnitStats; label: string }[] = [
+  { key: "hp", label: "HP" },
+  { key: "armor_hp", label: "Armor" },
+  { key: "power", label: "Power" },
+  { key: "accuracy", label: "Accuracy" },
+  { key: "defense", label: "Defense" },
+  { key: "dodge", label: "Dodge" },
+  { key: "critical", label: "Crit" },
+  { key: "bravery", label: "Bravery" },
+];
+
+const ABILITY_STAT_FIELDS: { key: keyof AbilityStats; label: string }[] = [
+  { key: "damage", label: "Damage" },
+  { key: "attack", label: "Offense" },
+  { key: "shots_per_attack", label: "Shots" },
+  { key: "damage_type", label: "Damage type" },
+  { key: "critical_hit_percent", label: "Crit %" },
+  { key: "armor_piercing_percent", label: "Armor piercing %" },
+  { key: "ability_cooldown", label: "Cooldown" },
+  { key: "ammo_required", label: "Ammo" },
+  { key: "min_range", label: "Min range" },
+  { key: "max_range", label: "Max range" },
+  { key: "line_of_fire", label: "Line of fire" },
+];
+
+const NONE = "-";
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return NONE;
+  if (typeof value === "number") return String(Math.round(value * 100) / 100);
+  if (typeof value === "string" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+// Damage mods come as either multipliers (1.5) or percentages (150); show them all as percentages
+function formatDamageMod(value: number | undefined): string {
+  if (value === undefined) return NONE;
+  return `${Math.round(value > 10 ? value : value * 100)}%`;
+}
+
+function pushChange(changes: FieldChange[], field: string, before: string, after: string) {
+  if (before !== after) changes.push({ field, before, after });
+}
+
+function diffDamageMods(changes: FieldChange[], label: string, before?: DamageMods, after?: DamageMods) {
+  for (const key of Object.values(DAMAGE_TYPE_MAP)) {
+    pushChange(changes, `${label} ${key.replace("_", " ")}`, formatDamageMod(before?.[key]), formatDamageMod(after?.[key]));
+  }
+}
+
+const formatImmunities = (families?: number[]) =>
+  families && families.length > 0 ? families.map(getStatusEffectDisplayName).join(", ") : NONE;
+
+const findConfig = <T extends UnitConfig>(configs: UnitConfig[] | undefined, type: T["_t"]) =>
+  configs?.find(c => c._t === type) as T | undefined;
+
+function diffUnit(unitId: number, before: UnitConfig[] | undefined, after: UnitConfig[] | undefined): UnitDiff | null {
+  const identity = findConfig<IdentityConfig>(after, "battle_unit_identity_config")
+    ?? findConfig<IdentityConfig>(before, "battle_unit_identity_config");
+  const diff: UnitDiff = { unitId, name: identity?.name, status: "changed", changes: [], ranks: [] };
+  if (!before) return { ...diff, status: "added" };
+  if (!after) return { ...diff, status: "removed" };
+
+  const statsBefore = findConfig<StatsConfig>(before, "battle_unit_stats_config");
+  const statsAfter = findConfig<StatsConfig>(after, "battle_unit_stats_config");
+  const ranksBefore = statsBefore?.stats ?? [];
+  const ranksAfter = statsAfter?.stats ?? [];
+
+  pushChange(diff.changes, "Ranks", String(ranksBefore.length), String(ranksAfter.length));
+  pushChange(
+    diff.changes,
+    "Blocking",
+    UnitBlockingLabels[statsBefore?.blocking ?? 0] ?? formatValue(statsBefore?.blocking),
+    UnitBlockingLabels[statsAfter?.blocking ?? 0] ?? formatValue(statsAfter?.blocking)
+  );
+  pushChange(
+    diff.changes,
+    "Immunities",
+    formatImmunities(statsBefore?.status_effect_immunities),
+    formatImmunities(statsAfter?.status_effect_immunities)
+  );
+
+  const weaponsBefore = findConfig<WeaponsConfig>(before, "battle_unit_weapons_config")?.weapons ?? {};
+  const weaponsAfter = findConfig<WeaponsConfig>(after, "battle_unit_weapons_config")?.weapons ?? {};
+  // Weapons are keyed by slot number
+  for (const slot of new Set([...Object.keys(weaponsBefore), ...Object.keys(weaponsAfter)])) {
+    const a = weaponsBefore[slot];
+    const b = weaponsAfter[slot];
+    const formatDamage = (w: typeof a) => w ? `${w.stats.base_damage_min}-${w.stats.base_damage_max}` : NONE;
+    pushChange(diff.changes, `Weapon ${slot} damage`, formatDamage(a), formatDamage(b));
+    pushChange(diff.changes, `Weapon ${slot} offense`, formatValue(a?.stats.base_atk), formatValue(b?.stats.base_atk));
+    pushChange(diff.changes, `Weapon ${slot} abilities`, a?.abilities.join(", ") ?? NONE, b?.abilities.join(", ") ?? NONE);
+  }
+
+  for (let i = 0; i < Math.max(ranksBefore.length, ranksAfter.length); i++) {
+    const changes: FieldChange[] = [];
+    for (const { key, label } of UNIT_STAT_FIELDS) {
+      pushChange(changes, label, formatValue(ranksBefore[i]?.[key]), formatValue(ranksAfter[i]?.[key]));
+    }
+    diffDamageMods(changes, "Damage taken", ranksBefore[i]?.damage_mods, ranksAfter[i]?.damage_mods);
+    diffDamageMods(changes, "Armor damage taken", ranksBefore[i]?.armor_damage_mods, ranksAfter[i]?.armor_damage_mods);
+    if (changes.length > 0) diff.ranks.push({ rank: i + 1, changes });
+  }
+
+  return diff.changes.length > 0 || diff.ranks.length > 0 ? diff : null;
+}
+
+const formatTargets = (targets?: number[]) =>
+  targets && targets.length > 0 ? targets.map(tag => UnitTagLabels[tag] ?? `Tag ${tag}`).join(", ") : NONE;
+
+const formatStatusEffects = (effects?: Record<string, number>) =>
+  effects && Object.keys(effects).length > 0
+    ? Object.entries(effects).map(([id, chance]) => `${getEffectDisplayNameTranslated(Number(id))} ${chance}%`).join(", ")
+    : NONE;
+
+function diffAbility(abilityId: number, before: Ability | undefined, after: Ability | undefined): AbilityDiff | null {
+  const diff: AbilityDiff = { abilityId, name: (after ?? before)?.name, status: "changed", changes: [] };
+  if (!before) return { ...diff, status: "added" };
+  if (!after) return { ...diff, status: "removed" };
+
+  for (const { key, label } of ABILITY_STAT_FIELDS) {
+    pushChange(diff.changes, label, formatValue(before.stats[key]), formatValue(after.stats[key]));
+  }
+  pushChange(diff.changes, "Targets", formatTargets(before.stats.targets), formatTargets(after.stats.targets));
+  pushChange(diff.changes, "Status effects", formatStatusEffects(before.stats.status_effects), formatStatusEffects(after.stats.status_effects));
+  pushChange(diff.changes, "Secondary damage %", formatValue(before.stats.secondary_damage_percent), formatValue(after.stats.secondary_damage_percent));
+
+  return diff.changes.length > 0 ? diff : null;
+}
+
+function diffTier(changes: FieldChange[], label: string, before: TierInfo | undefined, after: TierInfo | undefined) {
+  pushChange(changes, `${label} points`, formatValue(before?.required_completion_points), formatValue(after?.required_completion_points));
+  const encountersBefore = new Set(before?.encounters.map(e => e.encounter_id));
+  const encountersAfter = new Set(after?.encounters.map(e => e.encounter_id));
+  const removed = [...encountersBefore].filter(id => !encountersAfter.has(id));
+  const added = [...encountersAfter].filter(id => !encountersBefore.has(id));
+  if (removed.length > 0 || added.length > 0) {
+    changes.push({ field: `${label} encounters`, before: removed.join(", ") || NONE, after: added.join(", ") || NONE });
+  }
+  pushChange(changes, `${label} rewards`, formatValue(before?.rewards), formatValue(after?.rewards));
+}
+
+function diffBossStrike(
+  bossStrikeId: string,
+  archived: boolean,
+  before: BossStrike | undefined,
+  after: BossStrike | undefined,
+  getName: (bossStrike: BossStrike) => string | undefined
+): BossStrikeDiff | null {
+  const existing = (after ?? before)!;
+  const diff: BossStrikeDiff = { bossStrikeId, archived, name: getName(existing), status: "changed", changes: [] };
+  if (!before) return { ...diff, status: "added" };
+  if (!after) return { ...diff, status: "removed" };
+
+  const tiersBefore = before.tier_info ?? [];
+  const tiersAfter = after.tier_info ?? [];
+  pushChange(diff.changes, "Tiers", String(tiersBefore.length), String(tiersAfter.length));
+  for (let i = 0; i < Math.max(tiersBefore.length, tiersAfter.length); i++) {
+    diffTier(diff.changes, `Tier ${i + 1}`, tiersBefore[i], tiersAfter[i]);
+  }
+  pushChange(
+    diff.changes,
+    "Points per win",
+    formatValue(before.default_progress_cost?.awarded_points),
+    formatValue(after.default_progress_cost?.awarded_points)
+  );
+  pushChange(
+    diff.changes,
+    "Event encounters",
+    (before.global_event_encounters ?? []).map(e => e.encounter_id).join(", ") || NONE,
+    (after.global_event_encounters ?? []).map(e => e.encounter_id).join(", ") || NONE
+  );
+
+  return diff.changes.length > 0 ? diff : null;
+}
+
+// Diff each id present in either record, sorted numerically
+function diffRecords<T, R>(
+  before: Record<string, T>,
+  after: Record<string, T>,
+  diffEntry: (id: string, before: T | undefined, after: T | undefined) => R | null
+): R[] {
+  const ids = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort((a, b) => parseInt(a) - parseInt(b));
+  return ids.flatMap(id => {
+    const entry = diffEntry(id, before[id], after[id]);
+    return entry ? [entry] : [];
+  });
+}
+
+export function diffGameData(before: GameDataFiles, after: GameDataFiles): GameDataDiff {
+  const units = before.units === after.units
+    ? []
+    : diffRecords(before.units, after.units, (id, a, b) => diffUnit(parseInt(id), a, b));
+
+  const abilities = before.abilities === after.abilities
+    ? []
+    : diffRecords(before.abilities, after.abilities, (id, a, b) => diffAbility(parseInt(id), a, b));
+
+  // Only additions and removals - encounter tweaks are too numerous to be useful in a summary
+  const encounters = diffRecords(before.encounters.armies, after.encounters.armies, (id, a, b) => {
+    if (a && b) return null;
+    const encounter = (b ?? a)!;
+    return {
+      encounterId: id,
+      name: encounter.name,
+      status: b ? "added" : "removed",
+      level: encounter.level,
+      enemies: encounter.units?.length ?? 0,
+    } satisfies EncounterDiff;
+  });
+
+  // Boss strikes are named after their first encounter, looked up in the version they come from
+  const getName = (data: GameDataFiles) => (bossStrike: BossStrike) => {
+    const encounterId = bossStrike.tier_info?.[0]?.encounters?.[0]?.encounter_id;
+    return encounterId !== undefined ? data.encounters.armies[String(encounterId)]?.name : undefined;
+  };
+  const diffBossStrikes = (archived: boolean, a: Record<string, BossStrike>, b: Record<string, BossStrike>) =>
+    diffRecords(a, b, (id, x, y) => diffBossStrike(id, archived, x, y, getName(y ? after : before)));
+  const bossStrikes = [
+    ...diffBossStrikes(false, before.bossStrikes, after.bossStrikes),
+    ...diffBossStrikes(true, before.archivedBossStrikes, after.archivedBossStrikes),
+  ];
+
+  return { units, abilities, encounters, bossStrikes };
+}
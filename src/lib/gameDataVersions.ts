@@ -0,0 +1,275 @@
+// Game data versions: the bundled data plus snapshots imported from a folder or zip of JSON dumps
+// Imported snapshots are kept in IndexedDB so they survive reloads; the active version id is kept
+// in localStorage.
+import { BUNDLED_GAME_DATA, GAME_DATA_FILE_NAMES, withBundledGameData } from "@/lib/gameData";
+import type { GameDataFile, GameDataFiles } from "@/lib/gameData";
+import { SUPPORTED_LANGUAGES } from "@/lib/localization";
+import type { GameTextFiles } from "@/lib/localization";
+import type { LocalizedFile, SharedDataFile } from "@/types/units";
+
+export const BUNDLED_VERSION_ID = "bundled";
+
+export interface GameDataVersion {
+  id: string;
+  name: string;
+  source: "bundled" | "folder" | "zip";
+  importedAt?: number;
+  // File names the version includes; anything else comes from the bundled data
+  files: string[];
+}
+
+export interface GameDataSnapshot {
+  data: Partial<GameDataFiles>;
+  text: GameTextFiles;
+}
+
+export interface DataVersionImportResult {
+  version?: GameDataVersion;
+  error?: string;
+  // Files that were ignored because they aren't game data
+  skipped: string[];
+}
+
+const SHARED_TEXT_FILE_NAME = "GameText_Shared_Data.json";
+const getLanguageFileName = (lang: string) => `GameText_${lang}.json`;
+
+export const BUNDLED_VERSION: GameDataVersion = {
+  id: BUNDLED_VERSION_ID,
+  name: "Bundled",
+  source: "bundled",
+  files: [
+    ...Object.values(GAME_DATA_FILE_NAMES),
+    SHARED_TEXT_FILE_NAME,
+    ...SUPPORTED_LANGUAGES.map(getLanguageFileName),
+  ],
+};
+
+const ACTIVE_VERSION_KEY = "battle_nations_data_version";
+const DB_NAME = "battle_nations_data_versions";
+const DB_VERSION = 1;
+// Version metadata and snapshots are stored apart so listing versions doesn't load every snapshot
+const META_STORE = "versions";
+const SNAPSHOT_STORE = "snapshots";
+
+export function getActiveVersionId(): string {
+  try {
+    return localStorage.getItem(ACTIVE_VERSION_KEY) || BUNDLED_VERSION_ID;
+  } catch {
+    return BUNDLED_VERSION_ID;
+  }
+}
+
+export function setActiveVersionId(id: string): void {
+  if (id === BUNDLED_VERSION_ID) localStorage.removeItem(ACTIVE_VERSION_KEY);
+  else localStorage.setItem(ACTIVE_VERSION_KEY, id);
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(META_STORE, { keyPath: "id" });
+      request.result.createObjectStore(SNAPSHOT_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Imported versions, oldest first; the bundled version isn't included
+export async function listDataVersions(): Promise<GameDataVersion[]> {
+  const db = await openDatabase();
+  try {
+    const versions = await promisify<GameDataVersion[]>(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+    return versions.sort((a, b) => (a.importedAt ?? 0) - (b.importedAt ?? 0));
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadDataVersion(id: string): Promise<GameDataSnapshot | null> {
+  const db = await openDatabase();
+  try {
+    const snapshot = await promisify<GameDataSnapshot | undefined>(
+      db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(id)
+    );
+    return snapshot ?? null;
+  } finally {
+    db.close();
+  }
+}
+
+// A version's full game data, for working with versions other than the active one
+export async function loadVersionGameData(id: string): Promise<GameDataFiles | null> {
+  if (id === BUNDLED_VERSION_ID) return BUNDLED_GAME_DATA;
+  const snapshot = await loadDataVersion(id);
+  return snapshot ? withBundledGameData(snapshot.data) : null;
+}
+
+export async function deleteDataVersion(id: string): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([META_STORE, SNAPSHOT_STORE], "readwrite");
+    transaction.objectStore(META_STORE).delete(id);
+    transaction.objectStore(SNAPSHOT_STORE).delete(id);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+async function saveDataVersion(version: GameDataVersion, snapshot: GameDataSnapshot): Promise<void> {
+  const db = await openDatabase();
+  try {
+    const transaction = db.transaction([META_STORE, SNAPSHOT_STORE], "readwrite");
+    transaction.objectStore(META_STORE).put(version);
+    transaction.objectStore(SNAPSHOT_STORE).put(snapshot, version.id);
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+}
+
+const getBaseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
+function isKnownFileName(name: string): boolean {
+  return BUNDLED_VERSION.files.includes(name);
+}
+
+async function inflate(bytes: Uint8Array): Promise<string> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+// Read the known data files out of a zip archive, keyed by file name
+// Handles stored and deflated entries, which covers what zip tools produce for JSON; no zip64.
+async function readZipFiles(file: File): Promise<Map<string, string>> {
+  const buffer = await file.arrayBuffer();
+  const view = new DataView(buffer);
+  const files = new Map<string, string>();
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error(`${file.name} is not a zip file`);
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error(`${file.name} has a corrupt directory`);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = getBaseName(decoder.decode(new Uint8Array(buffer, offset + 46, nameLength)));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!isKnownFileName(name) || files.has(name)) continue;
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const bytes = new Uint8Array(buffer, dataStart, compressedSize);
+    if (method === 0) files.set(name, decoder.decode(bytes));
+    else if (method === 8) files.set(name, await inflate(bytes));
+    else throw new Error(`${name} in ${file.name} uses an unsupported compression method`);
+  }
+  return files;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Parse the known files into a snapshot; returns an error message for the first bad file
+function buildSnapshot(contents: Map<string, string>): { snapshot: GameDataSnapshot } | { error: string } {
+  const snapshot: GameDataSnapshot = { data: {}, text: {} };
+  const data = snapshot.data as Record<GameDataFile, unknown>;
+
+  for (const [name, content] of contents) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      return { error: `${name} is not valid JSON` };
+    }
+    if (!isObject(parsed)) return { error: `${name} is not a JSON object` };
+
+    const dataFile = (Object.keys(GAME_DATA_FILE_NAMES) as GameDataFile[]).find(key => GAME_DATA_FILE_NAMES[key] === name);
+    if (dataFile) {
+      if (dataFile === "encounters" && !isObject(parsed.armies)) return { error: `${name} has no armies` };
+      data[dataFile] = parsed;
+    } else if (name === SHARED_TEXT_FILE_NAME) {
+      if (!Array.isArray(parsed.m_Entries)) return { error: `${name} has no m_Entries` };
+      snapshot.text.shared = parsed as unknown as SharedDataFile;
+    } else {
+      const lang = SUPPORTED_LANGUAGES.find(l => getLanguageFileName(l) === name);
+      if (!lang) continue;
+      if (!Array.isArray(parsed.m_TableData)) return { error: `${name} has no m_TableData` };
+      snapshot.text.languages = { ...snapshot.text.languages, [lang]: parsed as unknown as LocalizedFile };
+    }
+  }
+  return { snapshot };
+}
+
+// Import a data version from the files of a dump folder, or from a single zip
+export async function importDataVersion(name: string, files: File[]): Promise<DataVersionImportResult> {
+  const contents = new Map<string, string>();
+  const skipped: string[] = [];
+  const isZip = files.length === 1 && files[0].name.toLowerCase().endsWith(".zip");
+
+  try {
+    if (isZip) {
+      for (const [fileName, content] of await readZipFiles(files[0])) contents.set(fileName, content);
+    } else {
+      for (const file of files) {
+        if (isKnownFileName(file.name)) contents.set(file.name, await file.text());
+        else skipped.push(file.name);
+      }
+    }
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : String(err), skipped };
+  }
+
+  if (contents.size === 0) {
+    return { error: "No game data files found - expected files like battle_units.json", skipped };
+  }
+
+  const built = buildSnapshot(contents);
+  if ("error" in built) return { error: built.error, skipped };
+
+  const version: GameDataVersion = {
+    id: crypto.randomUUID(),
+    name: name.trim() || (isZip ? files[0].name.replace(/\.zip$/i, "") : "Imported data"),
+    source: isZip ? "zip" : "folder",
+    importedAt: Date.now(),
+    files: [...contents.keys()].sort(),
+  };
+
+  try {
+    await saveDataVersion(version, built.snapshot);
+  } catch (err) {
+    return { error: `Couldn't save the data version: ${err instanceof Error ? err.message : String(err)}`, skipped };
+  }
+  return { version, skipped };
+}
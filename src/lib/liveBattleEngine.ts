@@ -1,12 +1,14 @@
 import { getUnitById } from "@/lib/units";
 import { UnitTag, DamageType } from "@/data/gameEnums";
 import { getAbilityById } from "@/lib/abilities";
-import { getUnitAbilities, calculateDodgeChance, calculateDamageWithArmor, canTargetUnit, getUnitImmunityReason, getDamageModifier, calculateCritChance } from "@/lib/battleCalculations";
-import { getBlockingUnits, checkLineOfFire, calculateRange } from "@/lib/battleTargeting";
-import { getStatusEffect, getEffectDisplayNameTranslated } from "@/lib/statusEffects";
+import { getUnitAbilities, calculateDodgeChance, calculateDamageWithArmor, canTargetUnit, getUnitImmunityReason, getDamageModifier, calculateCritChance, getOffenseAtRange } from "@/lib/battleCalculations";
+import { getBlockingUnits, checkLineOfFire, calculateRange, isBlockedByWall } from "@/lib/battleTargeting";
+import { getStatusEffect, getEffectDisplayNameTranslated } from "@/lib/statusEffectData";
 import { unitMatchesTargets } from "@/lib/tagHierarchy";
-import { getAffectedGridPositions, getFixedAttackPositions, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID } from "@/types/battleSimulator";
-import type { AbilityInfo, PartyUnit, TargetArea, DamageAreaPosition } from "@/types/battleSimulator";
+import { createBattleRng, generateSeed, normalizeSeed } from "@/lib/battleRng";
+import type { RandomSource } from "@/lib/battleRng";
+import { getAffectedGridPositions, getFixedAttackPositions, GRID_ID_TO_COORDS, COORDS_TO_GRID_ID, DEFAULT_BATTLE_LAYOUT, isGridCellOpen } from "@/types/battleSimulator";
+import type { AbilityInfo, PartyUnit, TargetArea, DamageAreaPosition, BattleLayout } from "@/types/battleSimulator";
 import type { EncounterUnit } from "@/types/encounters";
 import type { 
   LiveBattleUnit, 
@@ -64,12 +66,32 @@ export function hasArmorBypassingStun(unit: LiveBattleUnit, unitArmorDefenseStyl
   return unit.activeStatusEffects.some(e => e.isStun);
 }
 
+// Range from an attacker to the position it aims at, accounting for collapsed rows
+export function getAttackRange(attacker: LiveBattleUnit, targetGridId: number, state: LiveBattleState): number {
+  const attackerCollapsedRows = attacker.isEnemy ? state.enemyCollapsedRows : state.friendlyCollapsedRows;
+  const targetCollapsedRows = attacker.isEnemy ? state.friendlyCollapsedRows : state.enemyCollapsedRows;
+  return calculateRange(attacker.gridId, targetGridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows, state.layout);
+}
+
+// HP damage an ability can actually deal - non-lethal abilities stop at min_hp_percent of max HP
+export function limitHpDamage(target: LiveBattleUnit, hpDamage: number, ability: AbilityInfo): number {
+  if (ability.minHpPercent <= 0) return hpDamage;
+  const minHp = Math.ceil(target.maxHp * ability.minHpPercent / 100);
+  return Math.max(0, Math.min(hpDamage, target.currentHp - minHp));
+}
+
+// Whether a unit still has HP above an ability's min_hp_percent (always true for lethal abilities)
+export function isAboveMinHp(target: LiveBattleUnit, ability: AbilityInfo): boolean {
+  return ability.minHpPercent <= 0 || target.currentHp > Math.ceil(target.maxHp * ability.minHpPercent / 100);
+}
+
 // Initialize a live battle unit from party/encounter unit
 export function createLiveBattleUnit(
   unitId: number,
   gridId: number,
   rank: number,
-  isEnemy: boolean
+  isEnemy: boolean,
+  instanceId: number
 ): LiveBattleUnit | null {
   const unit = getUnitById(unitId);
   if (!unit) return null;
@@ -91,6 +113,7 @@ export function createLiveBattleUnit(
   }
 
   return {
+    instanceId,
     unitId,
     gridId,
     rank,
@@ -109,23 +132,54 @@ export function createLiveBattleUnit(
   };
 }
 
+// Add a unit that just died's death_spawned_unit to its side, in the dead unit's grid slot
+// The dead unit stays in the list. The spawn keeps the dead unit's rank where it has one, otherwise its highest rank
+// Self-spawning units (like the kraken arms) come back every time they die
+export function spawnUnitOnDeath(deadUnit: LiveBattleUnit, units: LiveBattleUnit[], state: LiveBattleState): BattleAction | null {
+  const deadUnitData = getUnitById(deadUnit.unitId);
+  const spawnedUnitId = deadUnitData?.statsConfig?.death_spawned_unit;
+  if (spawnedUnitId === undefined) return null;
+
+  const maxRank = getUnitById(spawnedUnitId)?.statsConfig?.stats?.length || 1;
+  const spawned = createLiveBattleUnit(spawnedUnitId, deadUnit.gridId, Math.min(deadUnit.rank, maxRank), deadUnit.isEnemy, state.nextInstanceId);
+  if (!spawned) return null;
+  state.nextInstanceId++;
+  units.push(spawned);
+
+  const deadName = deadUnitData?.identity?.name || `Unit ${deadUnit.unitId}`;
+  const spawnedName = getUnitById(spawnedUnitId)?.identity?.name || `Unit ${spawnedUnitId}`;
+  return {
+    type: "unit_spawned",
+    targetGridId: spawned.gridId,
+    targetName: spawnedName,
+    spawnedUnitId,
+    targetInstanceId: spawned.instanceId,
+    message: `emerged from ${deadName}`,
+  };
+}
+
 // Initialize battle state from encounter and party
 export function initializeBattle(
   friendlyParty: PartyUnit[],
   enemyWaves: EncounterUnit[][],
-  startingWave: number = 0
+  startingWave: number = 0,
+  seed: number = generateSeed(),
+  layout: BattleLayout = DEFAULT_BATTLE_LAYOUT
 ): LiveBattleState {
+  // Party units placed on cells this layout doesn't have sit the battle out - the battle setup and
+  // win rate simulator refuse such formations, so this only guards other callers
   const friendlyUnits = friendlyParty
-    .map(u => createLiveBattleUnit(u.unitId, u.gridId, u.rank, false))
+    .filter(u => isGridCellOpen(layout.friendly, u.gridId))
+    .map((u, index) => createLiveBattleUnit(u.unitId, u.gridId, u.rank, false, index))
     .filter((u): u is LiveBattleUnit => u !== null);
 
   const currentWaveUnits = enemyWaves[startingWave] || [];
   const enemyUnits = currentWaveUnits
     .filter(u => u.grid_id !== undefined)
-    .map(u => {
+    .map((u, index) => {
       const unit = getUnitById(u.unit_id);
       const maxRank = unit?.statsConfig?.stats?.length || 1;
-      return createLiveBattleUnit(u.unit_id, u.grid_id!, maxRank, true);
+      return createLiveBattleUnit(u.unit_id, u.grid_id!, maxRank, true, friendlyParty.length + index);
     })
     .filter((u): u is LiveBattleUnit => u !== null);
 
@@ -134,6 +188,7 @@ export function initializeBattle(
     enemyUnits,
     friendlyCollapsedRows: new Set<number>(),
     enemyCollapsedRows: new Set<number>(),
+    layout,
     currentTurn: 1,
     isPlayerTurn: true, // Player always goes first
     currentEnemyIndex: 0, // Start from first enemy
@@ -142,30 +197,34 @@ export function initializeBattle(
     isPlayerVictory: null,
     currentWave: startingWave,
     totalWaves: enemyWaves.length,
+    rngSeed: normalizeSeed(seed),
+    rngPosition: 0,
+    playerMoves: [],
+    nextInstanceId: friendlyParty.length + currentWaveUnits.length,
   };
 }
 
 // Roll random damage between min and max
-export function rollDamage(minDamage: number, maxDamage: number): number {
-  return Math.floor(Math.random() * (maxDamage - minDamage + 1)) + minDamage;
+export function rollDamage(minDamage: number, maxDamage: number, random: RandomSource): number {
+  return Math.floor(random() * (maxDamage - minDamage + 1)) + minDamage;
 }
 
 // Roll for dodge (returns true if attack misses)
-export function rollDodge(dodgeChance: number): boolean {
+export function rollDodge(dodgeChance: number, random: RandomSource): boolean {
   if (dodgeChance <= 0) return false;
-  return Math.random() * 100 < dodgeChance;
+  return random() * 100 < dodgeChance;
 }
 
 // Roll for critical hit
-export function rollCrit(critChance: number): boolean {
+export function rollCrit(critChance: number, random: RandomSource): boolean {
   if (critChance <= 0) return false;
-  return Math.random() * 100 < critChance;
+  return random() * 100 < critChance;
 }
 
 // Roll for status effect application
-export function rollStatusEffect(chance: number): boolean {
+export function rollStatusEffect(chance: number, random: RandomSource): boolean {
   if (chance <= 0) return false;
-  return Math.random() * 100 < chance;
+  return random() * 100 < chance;
 }
 
 // Check if a weapon has enough ammo for an ability
@@ -187,41 +246,34 @@ export function getAvailableAbilities(
   allEnemies: LiveBattleUnit[],
   allFriendlies: LiveBattleUnit[],
   friendlyCollapsedRows?: Set<number>,
-  enemyCollapsedRows?: Set<number>
+  enemyCollapsedRows?: Set<number>,
+  layout?: BattleLayout
 ): AbilityInfo[] {
   const abilities = getUnitAbilities(unit.unitId, unit.rank);
-  console.log(`[getAvailableAbilities] Unit ${unit.unitId} has ${abilities.length} total abilities`);
   
   const available = abilities.filter(ability => {
     // Check ability-specific cooldown
     const abilityCooldown = unit.abilityCooldowns[ability.abilityId] ?? 0;
-    console.log(`[getAvailableAbilities] Ability ${ability.abilityId} (${ability.weaponName}): abilityCooldown=${abilityCooldown} (from unit.abilityCooldowns), ability.cooldown=${ability.cooldown}`);
     if (abilityCooldown > 0) {
-      console.log(`[getAvailableAbilities] Ability ${ability.abilityId} is on cooldown (${abilityCooldown} turns remaining)`);
       return false;
     }
     
     // Check charge time (prep time) - ability needs to charge before it can be used
     if (ability.chargeTime > 0) {
       const chargeProgress = unit.abilityChargeProgress[ability.abilityId] ?? 0;
-      console.log(`[getAvailableAbilities] Ability ${ability.abilityId} has chargeTime=${ability.chargeTime}, chargeProgress=${chargeProgress}`);
       if (chargeProgress < ability.chargeTime) {
-        console.log(`[getAvailableAbilities] Ability ${ability.abilityId} is still charging (${chargeProgress}/${ability.chargeTime} turns)`);
         return false;
       }
     }
     
     // Check weapon global cooldown - blocks ALL abilities on this weapon
     const weaponCooldown = unit.weaponGlobalCooldown[ability.weaponName] ?? 0;
-    console.log(`[getAvailableAbilities] Ability ${ability.abilityId} (${ability.weaponName}): weaponGlobalCooldown=${weaponCooldown} (from unit.weaponGlobalCooldown), ability.globalCooldown=${ability.globalCooldown}`);
     if (weaponCooldown > 0) {
-      console.log(`[getAvailableAbilities] Ability ${ability.abilityId} blocked by weapon global cooldown (weapon: ${ability.weaponName}, ${weaponCooldown} turns remaining)`);
       return false;
     }
     
     // Check ammo
     if (!hasEnoughAmmo(unit, ability)) {
-      console.log(`[getAvailableAbilities] Ability ${ability.abilityId} has no ammo`);
       return false;
     }
 
@@ -238,7 +290,9 @@ export function getAvailableAbilities(
       // Find the minimum range that has valid targetable units
       let closestRange = Infinity;
       for (const target of aliveTargets) {
-        const range = calculateRange(unit.gridId, target.gridId, unit.isEnemy, attackerCollapsedRows, targetCollapsedRows);
+        if (!isAboveMinHp(target, ability)) continue;
+        if (isBlockedByWall(target.gridId, ability.lineOfFire, unit.isEnemy, layout)) continue;
+        const range = calculateRange(unit.gridId, target.gridId, unit.isEnemy, attackerCollapsedRows, targetCollapsedRows, layout);
         if (range >= ability.minRange && range <= ability.maxRange) {
           if (canTargetUnit(target.unitId, ability.targets)) {
             if (range < closestRange) {
@@ -248,10 +302,8 @@ export function getAvailableAbilities(
         }
       }
       if (closestRange === Infinity) {
-        console.log(`[getAvailableAbilities] Ability ${ability.abilityId} (Contact) has no valid targets`);
         return false;
       }
-      console.log(`[getAvailableAbilities] Ability ${ability.abilityId} (Contact) has targets at range ${closestRange}`);
       return true;
     }
 
@@ -263,20 +315,18 @@ export function getAvailableAbilities(
 
     for (const target of aliveTargets) {
       if (!canTargetUnit(target.unitId, ability.targets)) continue;
-      const range = calculateRange(unit.gridId, target.gridId, unit.isEnemy, attackerCollapsedRows, targetCollapsedRows);
+      if (!isAboveMinHp(target, ability)) continue;
+      const range = calculateRange(unit.gridId, target.gridId, unit.isEnemy, attackerCollapsedRows, targetCollapsedRows, layout);
       if (range < ability.minRange || range > ability.maxRange) continue;
-      const blockCheck = checkLineOfFire(unit.gridId, target.gridId, ability.lineOfFire, unit.isEnemy, blockingUnits);
+      const blockCheck = checkLineOfFire(unit.gridId, target.gridId, ability.lineOfFire, unit.isEnemy, blockingUnits, layout);
       if (!blockCheck.isBlocked) {
-        console.log(`[getAvailableAbilities] Ability ${ability.abilityId} has valid target ${target.unitId}`);
         return true;
       }
     }
     
-    console.log(`[getAvailableAbilities] Ability ${ability.abilityId} has no valid targets`);
     return false;
   });
   
-  console.log(`[getAvailableAbilities] Unit ${unit.unitId} has ${available.length} available abilities`);
   return available;
 }
 
@@ -290,7 +340,8 @@ export function getValidTargets(
   allFriendlies: LiveBattleUnit[],
   friendlyCollapsedRows?: Set<number>,
   enemyCollapsedRows?: Set<number>,
-  strictTagCheck: boolean = true
+  strictTagCheck: boolean = true,
+  layout?: BattleLayout
 ): LiveBattleUnit[] {
   const targets = attacker.isEnemy ? allFriendlies : allEnemies;
   const aliveTargets = targets.filter(t => !t.isDead);
@@ -308,14 +359,13 @@ export function getValidTargets(
 
   // For Contact line of fire, target the closest unit in EACH column (not overall closest)
   if (ability.lineOfFire === 0) { // Contact
-    console.log(`[getValidTargets-Contact] Attacker grid ${attacker.gridId}, isEnemy=${attacker.isEnemy}, abilityId=${ability.abilityId}`);
-
     // Group targets by column (x coordinate), find closest in each column
     const columnClosest: Map<number, { target: LiveBattleUnit; range: number }> = new Map();
 
     for (const target of aliveTargets) {
-      const range = calculateRange(attacker.gridId, target.gridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows);
+      const range = calculateRange(attacker.gridId, target.gridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows, layout);
       if (range < ability.minRange || range > ability.maxRange) continue;
+      if (isBlockedByWall(target.gridId, ability.lineOfFire, attacker.isEnemy, layout)) continue;
       // Only check tag targeting if strictTagCheck is enabled (for enemies)
       if (strictTagCheck && !canTargetUnit(target.unitId, ability.targets)) continue;
 
@@ -332,17 +382,18 @@ export function getValidTargets(
     }
 
     const validTargets = Array.from(columnClosest.values()).map(v => v.target);
-    console.log(`[getValidTargets-Contact] Returning ${validTargets.length} valid targets (closest per column):`,
-      validTargets.map(t => ({ gridId: t.gridId, range: calculateRange(attacker.gridId, t.gridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows) })));
-    return validTargets;
+    return validTargets.filter(target => isAboveMinHp(target, ability));
   }
 
   return aliveTargets.filter(target => {
     // Only check tag targeting if strictTagCheck is enabled (for enemies)
     if (strictTagCheck && !canTargetUnit(target.unitId, ability.targets)) return false;
 
+    // Non-lethal abilities can't target units already at their HP floor
+    if (!isAboveMinHp(target, ability)) return false;
+
     // Check range
-    const range = calculateRange(attacker.gridId, target.gridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows);
+    const range = calculateRange(attacker.gridId, target.gridId, attacker.isEnemy, attackerCollapsedRows, targetCollapsedRows, layout);
     if (range < ability.minRange || range > ability.maxRange) return false;
     
     // Check line of fire
@@ -351,14 +402,10 @@ export function getValidTargets(
       target.gridId,
       ability.lineOfFire,
       attacker.isEnemy,
-      blockingUnits
+      blockingUnits,
+      layout
     );
     
-    // Debug logging for blocking
-    console.log(`[getValidTargets] Attacker grid ${attacker.gridId} -> Target grid ${target.gridId}, ` +
-      `lineOfFire: ${ability.lineOfFire}, blocked: ${blockCheck.isBlocked}, ` +
-      `reason: ${blockCheck.reason || 'none'}, blockedBy: ${blockCheck.blockedBy?.unitId || 'none'}`);
-    
     return !blockCheck.isBlocked;
   });
 }
@@ -413,45 +460,32 @@ export function collapseGrid(units: LiveBattleUnit[], previousCollapsedRows?: Se
   return detectCollapsedRows(units, previousCollapsedRows);
 }
 
-// Execute an attack and return the actions
-export function executeAttack(
-  attacker: LiveBattleUnit,
-  ability: AbilityInfo,
-  targetGridId: number,
-  state: LiveBattleState,
-  environmentalDamageMods?: Record<string, number>
-): BattleAction[] {
-  const actions: BattleAction[] = [];
-  const allTargets = attacker.isEnemy ? state.friendlyUnits : state.enemyUnits;
-  const aliveTargets = allTargets.filter(t => !t.isDead);
-  
-  // Build blocking units map for line of fire checks
-  const blockingUnits = getBlockingUnits(
-    aliveTargets.map(u => ({ unit_id: u.unitId, grid_id: u.gridId })),
-    true
-  );
-  
-  // Get attacker name
-  const attackerUnit = getUnitById(attacker.unitId);
-  const attackerName = attackerUnit?.identity?.name || `Unit ${attacker.unitId}`;
-  
-  // Get affected positions (for AOE/fixed attacks)
-  let affectedPositions: { gridId: number; damagePercent: number }[];
-  
-  // Check if this is a "single-selection with splash" ability:
-  // - Has damageArea with non-center positions (splash)
-  // - targetArea is either missing, or only has center position (no movable reticle)
+// Check if this is a "single-selection with splash" ability:
+// - Has damageArea with non-center positions (splash)
+// - targetArea is either missing, or only has center position (no movable reticle)
+export function hasSingleSelectionSplash(ability: AbilityInfo): boolean {
   const hasNonCenterSplash = ability.damageArea?.some(d => d.x !== 0 || d.y !== 0) ?? false;
   const targetAreaHasOnlyCenter = !ability.targetArea || 
     (ability.targetArea.data.length === 1 && 
      ability.targetArea.data[0].x === 0 && 
      ability.targetArea.data[0].y === 0);
-  const isSingleSelectionWithSplash = hasNonCenterSplash && targetAreaHasOnlyCenter;
-  
+  return hasNonCenterSplash && targetAreaHasOnlyCenter;
+}
+
+// Get the grid positions (on the attacker's opposing grid) hit by an attack and their damage percent
+// Each position appears once, with the highest damage percent if patterns overlap
+export function getAttackAffectedPositions(
+  attacker: LiveBattleUnit,
+  ability: AbilityInfo,
+  targetGridId: number,
+  state: LiveBattleState
+): { gridId: number; damagePercent: number }[] {
+  let affectedPositions: { gridId: number; damagePercent: number }[];
+
   if (ability.isSingleTarget && !ability.damageArea) {
     // Pure single-target: only the selected target gets hit
     affectedPositions = [{ gridId: targetGridId, damagePercent: 100 }];
-  } else if (isSingleSelectionWithSplash) {
+  } else if (hasSingleSelectionSplash(ability)) {
     // Single-selection with splash damage (like Legendary Sandworm's Maul)
     // Create a synthetic targetArea with just the center point, then apply damageArea
     const syntheticTargetArea: TargetArea = {
@@ -471,11 +505,8 @@ export function executeAttack(
       attackerCollapsedRows,
       targetCollapsedRows
     );
-    console.log(`[executeAttack-fixed] Attacker gridId=${attacker.gridId}, isEnemy=${attacker.isEnemy}, isAttackerFriendly=${!attacker.isEnemy}`);
-    console.log(`[executeAttack-fixed] Raw positions:`, JSON.stringify(fixedPos.map(p => ({ gridId: p.gridId, damagePercent: p.damagePercent, isOnEnemyGrid: p.isOnEnemyGrid }))));
     // Filter to only hit positions on the ENEMY grid (from attacker's perspective)
     const enemyPositions = fixedPos.filter(p => p.isOnEnemyGrid);
-    console.log(`[executeAttack-fixed] Enemy grid positions only:`, JSON.stringify(enemyPositions.map(p => ({ gridId: p.gridId, damagePercent: p.damagePercent }))));
     affectedPositions = enemyPositions.map(p => ({ gridId: p.gridId, damagePercent: p.damagePercent }));
   } else if (ability.targetArea) {
     // AOE with movable reticle - hits positions around selected target
@@ -484,7 +515,7 @@ export function executeAttack(
     // Fallback: just the target
     affectedPositions = [{ gridId: targetGridId, damagePercent: 100 }];
   }
-  
+
   // Deduplicate: each grid position should only be hit once per attack
   // If same position appears multiple times, take the highest damage percent
   const positionMap = new Map<number, number>();
@@ -494,13 +525,41 @@ export function executeAttack(
       positionMap.set(pos.gridId, pos.damagePercent);
     }
   }
-  affectedPositions = Array.from(positionMap.entries()).map(([gridId, damagePercent]) => ({ gridId, damagePercent }));
+  return Array.from(positionMap.entries()).map(([gridId, damagePercent]) => ({ gridId, damagePercent }));
+}
+
+// Execute an attack and return the actions
+export function executeAttack(
+  attacker: LiveBattleUnit,
+  ability: AbilityInfo,
+  targetGridId: number,
+  state: LiveBattleState,
+  environmentalDamageMods?: Record<string, number>
+): BattleAction[] {
+  const actions: BattleAction[] = [];
+  const random = createBattleRng(state);
+  const allTargets = attacker.isEnemy ? state.friendlyUnits : state.enemyUnits;
+  const aliveTargets = allTargets.filter(t => !t.isDead);
+  
+  // Build blocking units map for line of fire checks
+  const blockingUnits = getBlockingUnits(
+    aliveTargets.map(u => ({ unit_id: u.unitId, grid_id: u.gridId })),
+    true
+  );
+  
+  // Get attacker name
+  const attackerUnit = getUnitById(attacker.unitId);
+  const attackerName = attackerUnit?.identity?.name || `Unit ${attacker.unitId}`;
+  
+  // Get affected positions (for AOE/fixed attacks)
+  const affectedPositions = getAttackAffectedPositions(attacker, ability, targetGridId, state);
+  const isSingleSelectionWithSplash = hasSingleSelectionSplash(ability);
+  const aimRange = getAttackRange(attacker, targetGridId, state);
 
   const abilityData = getAbilityById(ability.abilityId);
   const abilityName = abilityData?.name || `Ability ${ability.abilityId}`;
   
   const totalShots = ability.shotsPerAttack * ability.attacksPerUse;
-  console.log(`[executeAttack] Ability ${ability.abilityId}: shotsPerAttack=${ability.shotsPerAttack}, attacksPerUse=${ability.attacksPerUse}, totalShots=${totalShots}, isFixed=${ability.isFixed}, isSingleTarget=${ability.isSingleTarget}, lineOfFire=${ability.lineOfFire}, affectedPositions=${affectedPositions.length}`);
 
   // Determine if this is an AOE or splash attack that should check reticle blocking instead of per-position
   // For these attacks, blocking is checked once for the reticle/primary target, not each affected position
@@ -516,13 +575,11 @@ export function executeAttack(
       targetGridId,
       ability.lineOfFire,
       attacker.isEnemy,
-      blockingUnits
+      blockingUnits,
+      state.layout
     );
 
-    console.log(`[executeAttack-reticle] AOE/Splash attack - checking reticle blocking at grid ${targetGridId}, isBlocked: ${reticleBlockCheck.isBlocked}, reason: ${reticleBlockCheck.reason || 'none'}`);
-
     if (reticleBlockCheck.isBlocked) {
-      console.log(`[executeAttack] AOE/Splash attack blocked - reticle at grid ${targetGridId} is blocked by unit ${reticleBlockCheck.blockedBy?.unitId}`);
       return actions; // Entire AOE/splash attack is blocked
     }
   }
@@ -540,12 +597,10 @@ export function executeAttack(
       
       if (attacker.isEnemy) {
         // Enemies skip immune targets silently
-        console.log(`[executeAttack] Skipping target at grid ${target.gridId} - unit ${target.unitId} cannot be targeted by ability (tag mismatch)`);
         continue;
       } else {
         // Players get an immunity log message
         const immunityReason = getUnitImmunityReason(target.unitId, ability.targets) || "tag mismatch";
-        console.log(`[executeAttack] Target ${target.unitId} is immune: ${immunityReason}`);
         actions.push({
           type: "skip",
           attackerGridId: attacker.gridId,
@@ -567,13 +622,11 @@ export function executeAttack(
         target.gridId,
         ability.lineOfFire,
         attacker.isEnemy,
-        blockingUnits
+        blockingUnits,
+        state.layout
       );
 
-      console.log(`[executeAttack-blocking] Attacker grid ${attacker.gridId} -> Target grid ${target.gridId}, lineOfFire: ${ability.lineOfFire}, isBlocked: ${blockCheck.isBlocked}, reason: ${blockCheck.reason || 'none'}, blockedBy: ${blockCheck.blockedBy?.unitId || 'none'}`);
-
       if (blockCheck.isBlocked) {
-        console.log(`[executeAttack] Skipping target at grid ${target.gridId} - blocked by unit ${blockCheck.blockedBy?.unitId}`);
         continue; // Skip this individual target
       }
     }
@@ -586,7 +639,7 @@ export function executeAttack(
     // Reduce dodge chance if target is stunned/frozen
     const isStunned = target.activeStatusEffects.some(e => e.isStun);
     const stunDodgePenalty = isStunned ? 20 : 0; // Stunned units have reduced dodge
-    const effectiveDodgeChance = Math.max(0, calculateDodgeChance(defense, ability.offense) - stunDodgePenalty);
+    const effectiveDodgeChance = Math.max(0, calculateDodgeChance(defense, getOffenseAtRange(ability, aimRange)) - stunDodgePenalty);
     
     // Calculate crit chance with bonuses (includes unit base crit + ability crit + tag bonuses with hierarchy)
     const critChance = calculateCritChance(
@@ -597,7 +650,7 @@ export function executeAttack(
     );
     
     // Roll dodge
-    if (rollDodge(effectiveDodgeChance)) {
+    if (rollDodge(effectiveDodgeChance, random)) {
       actions.push({
         type: "dodge",
         attackerGridId: attacker.gridId,
@@ -627,13 +680,13 @@ export function executeAttack(
     
     for (let shot = 0; shot < totalShots; shot++) {
       // Roll base damage
-      const baseDamage = rollDamage(ability.minDamage, ability.maxDamage);
+      const baseDamage = rollDamage(ability.minDamage, ability.maxDamage, random);
       
       // Apply damage percent modifier
       const adjustedDamage = Math.floor(baseDamage * (pos.damagePercent / 100));
       
       // Roll crit
-      const isCrit = rollCrit(critChance);
+      const isCrit = rollCrit(critChance, random);
       const critMultiplier = isCrit ? 2 : 1;
       const finalBaseDamage = Math.floor(adjustedDamage * critMultiplier);
       
@@ -652,11 +705,12 @@ export function executeAttack(
       );
       
       // Apply damage
+      const hpDamage = limitHpDamage(target, result.hpDamage, ability);
       target.currentArmor = Math.max(0, target.currentArmor - result.armorDamage);
-      target.currentHp = Math.max(0, target.currentHp - result.hpDamage);
+      target.currentHp = Math.max(0, target.currentHp - hpDamage);
       
       totalArmorDamage += result.armorDamage;
-      totalHpDamage += result.hpDamage;
+      totalHpDamage += hpDamage;
       
       if (isCrit) {
         actions.push({
@@ -680,21 +734,37 @@ export function executeAttack(
       targetName,
       abilityId: ability.abilityId,
       abilityName,
+      attackerInstanceId: attacker.instanceId,
+      targetInstanceId: target.instanceId,
       damage: totalArmorDamage + totalHpDamage,
       armorDamage: totalArmorDamage,
       hpDamage: totalHpDamage,
       message: `Dealt ${totalHpDamage} HP damage${totalArmorDamage > 0 ? ` and ${totalArmorDamage} armor damage` : ''}`,
     });
     
-    // Check for death
-    if (target.currentHp <= 0) {
+    // Check for capture or death - a lethal hit from a capture ability takes the target out without killing it
+    if (ability.capture) {
+      const captured = target.currentHp <= 0;
+      if (captured) target.isDead = true;
+      actions.push({
+        type: "capture",
+        targetGridId: target.gridId,
+        targetName,
+        targetInstanceId: target.instanceId,
+        captured,
+        message: captured ? `${targetName} captured!` : `capture failed (${target.currentHp} HP left)`,
+      });
+    } else if (target.currentHp <= 0) {
       target.isDead = true;
       actions.push({
         type: "death",
         targetGridId: target.gridId,
         targetName,
+        targetInstanceId: target.instanceId,
         message: `${targetName} defeated!`,
       });
+      const spawnAction = spawnUnitOnDeath(target, allTargets, state);
+      if (spawnAction) actions.push(spawnAction);
     }
     
     // Apply status effects (scaled by damage percent)
@@ -710,7 +780,7 @@ export function executeAttack(
       // Scale chance by damage percent
       const adjustedChance = Math.floor(chance * (pos.damagePercent / 100));
       
-      if (rollStatusEffect(adjustedChance)) {
+      if (rollStatusEffect(adjustedChance, random)) {
         // Calculate base DoT damage: (actualDamageDealt + dot_bonus_damage) * dot_ability_damage_mult
         // Environmental modifiers will be applied via resistances when DoT ticks, not to base damage
         const actualDamageDealt = totalHpDamage + totalArmorDamage;
@@ -767,19 +837,13 @@ export function executeAttack(
   }
   
   // Set cooldowns (add +1 because cooldowns are reduced at end of turn, so we need to account for that)
-  console.log(`[executeAttack] Ability ${ability.abilityId} used. weaponName="${ability.weaponName}", ability.cooldown=${ability.cooldown}, ability.globalCooldown=${ability.globalCooldown}`);
-  console.log(`[executeAttack] Current weaponGlobalCooldowns BEFORE setting:`, JSON.stringify(attacker.weaponGlobalCooldown));
-  
   if (ability.cooldown > 0) {
     attacker.abilityCooldowns[ability.abilityId] = ability.cooldown + 1;
-    console.log(`[executeAttack] Set ability ${ability.abilityId} cooldown to ${ability.cooldown + 1}`);
   }
   // Set weapon global cooldown based on ability's globalCooldown value
   if (ability.globalCooldown > 0) {
     attacker.weaponGlobalCooldown[ability.weaponName] = ability.globalCooldown + 1;
-    console.log(`[executeAttack] Set weapon "${ability.weaponName}" cooldown to ${ability.globalCooldown + 1} for unit gridId ${attacker.gridId}`);
   }
-  console.log(`[executeAttack] Current weaponGlobalCooldowns AFTER setting:`, JSON.stringify(attacker.weaponGlobalCooldown));
   
   // Note: Charge/prep time is NOT reset after use - it only applies once at battle start
   
@@ -809,6 +873,7 @@ export function executeRandomAttack(
   environmentalDamageMods?: Record<string, number>
 ): BattleAction[] {
   const actions: BattleAction[] = [];
+  const random = createBattleRng(state);
   const allTargets = attacker.isEnemy ? state.friendlyUnits : state.enemyUnits;
   const targetArea = ability.targetArea;
   
@@ -832,7 +897,7 @@ export function executeRandomAttack(
   const emptySpotHits: Record<number, number> = {}; // Track hits on empty spots
   
   for (let i = 0; i < totalHits; i++) {
-    const roll = Math.random() * totalWeight;
+    const roll = random() * totalWeight;
     let cumulative = 0;
     let selectedIndex = 0;
     
@@ -898,7 +963,6 @@ export function executeRandomAttack(
       
       if (attacker.isEnemy) {
         // Enemies skip immune targets with a generic message
-        console.log(`[executeRandomAttack] Skipping target at grid ${target.gridId} - unit ${target.unitId} cannot be targeted by ability (tag mismatch)`);
         actions.push({
           type: "skip",
           attackerGridId: attacker.gridId,
@@ -912,7 +976,6 @@ export function executeRandomAttack(
       } else {
         // Players get an immunity log message with reason
         const immunityReason = getUnitImmunityReason(target.unitId, ability.targets) || "tag mismatch";
-        console.log(`[executeRandomAttack] Target ${target.unitId} is immune: ${immunityReason}`);
         actions.push({
           type: "skip",
           attackerGridId: attacker.gridId,
@@ -939,7 +1002,7 @@ export function executeRandomAttack(
     let totalHpDamage = 0;
     
     for (let h = 0; h < hits; h++) {
-      if (rollDodge(dodgeChance)) {
+      if (rollDodge(dodgeChance, random)) {
         actions.push({
           type: "dodge",
           attackerGridId: attacker.gridId,
@@ -952,7 +1015,7 @@ export function executeRandomAttack(
         continue;
       }
       
-      const baseDamage = rollDamage(ability.minDamage, ability.maxDamage);
+      const baseDamage = rollDamage(ability.minDamage, ability.maxDamage, random);
       // Calculate crit chance with tag bonuses and unit base crit
       const critChance = calculateCritChance(
         ability.unitBaseCrit,
@@ -960,7 +1023,7 @@ export function executeRandomAttack(
         ability.critBonuses,
         target.unitId
       );
-      const isCrit = rollCrit(critChance);
+      const isCrit = rollCrit(critChance, random);
       const finalDamage = isCrit ? Math.floor(baseDamage * 2) : baseDamage;
       
       if (isCrit) {
@@ -992,12 +1055,13 @@ export function executeRandomAttack(
         bypassArmor
       );
       
+      const hpDamage = limitHpDamage(target, damageResult.hpDamage, ability);
       target.currentArmor = Math.max(0, target.currentArmor - damageResult.armorDamage);
-      target.currentHp = Math.max(0, target.currentHp - damageResult.hpDamage);
+      target.currentHp = Math.max(0, target.currentHp - hpDamage);
       
       totalDamage += finalDamage;
       totalArmorDamage += damageResult.armorDamage;
-      totalHpDamage += damageResult.hpDamage;
+      totalHpDamage += hpDamage;
     }
     
     if (totalDamage > 0) {
@@ -1009,6 +1073,8 @@ export function executeRandomAttack(
         targetName,
         abilityId: ability.abilityId,
         abilityName,
+        attackerInstanceId: attacker.instanceId,
+        targetInstanceId: target.instanceId,
         damage: totalArmorDamage + totalHpDamage,
         armorDamage: totalArmorDamage,
         hpDamage: totalHpDamage,
@@ -1017,14 +1083,29 @@ export function executeRandomAttack(
       });
     }
     
-    if (target.currentHp <= 0) {
+    // A lethal hit from a capture ability takes the target out without killing it
+    if (ability.capture && totalDamage > 0) {
+      const captured = target.currentHp <= 0;
+      if (captured) target.isDead = true;
+      actions.push({
+        type: "capture",
+        targetGridId: target.gridId,
+        targetName,
+        targetInstanceId: target.instanceId,
+        captured,
+        message: captured ? `${targetName} captured!` : `capture failed (${target.currentHp} HP left)`,
+      });
+    } else if (target.currentHp <= 0) {
       target.isDead = true;
       actions.push({
         type: "death",
         targetGridId: target.gridId,
         targetName,
+        targetInstanceId: target.instanceId,
         message: `${targetName} defeated!`,
       });
+      const spawnAction = spawnUnitOnDeath(target, allTargets, state);
+      if (spawnAction) actions.push(spawnAction);
     }
   }
   
@@ -1047,15 +1128,17 @@ export function executeRandomAttack(
   return actions;
 }
 
-// Process status effect ticks at start of turn
+// Process status effect ticks at start of turn for one side's units
 // environmentalDamageMods: Optional damage modifiers from environmental status effects (e.g., Firemod)
 export function processStatusEffects(
   units: LiveBattleUnit[],
+  state: LiveBattleState,
   environmentalDamageMods?: Record<string, number>
 ): BattleAction[] {
   const actions: BattleAction[] = [];
   
-  for (const unit of units) {
+  // Units spawned on death during the ticks have no effects yet, so only the units present at the start tick
+  for (const unit of [...units]) {
     if (unit.isDead) continue;
     
     const unitData = getUnitById(unit.unitId);
@@ -1121,6 +1204,7 @@ export function processStatusEffects(
           type: "status_tick",
           targetGridId: unit.gridId,
           targetName: unitName,
+          targetInstanceId: unit.instanceId,
           statusEffectId: effect.effectId,
           statusEffectName: effectName,
           hpDamage: damageResult.hpDamage,
@@ -1134,9 +1218,13 @@ export function processStatusEffects(
             type: "death", 
             targetGridId: unit.gridId, 
             targetName: unitName,
+            targetInstanceId: unit.instanceId,
             statusEffectName: effectName,
             message: `defeated by ${effectName}!` 
           });
+          const spawnAction = spawnUnitOnDeath(unit, units, state);
+          if (spawnAction) actions.push(spawnAction);
+          break; // The unit's other effects don't tick once it's dead
         }
       }
     }
@@ -1178,7 +1266,7 @@ export function calculateTurnSummary(actions: BattleAction[]): TurnSummary {
     if (action.type === 'status_applied') {
       statusEffectsApplied++;
     }
-    if (action.type === 'death') {
+    if (action.type === 'death' || (action.type === 'capture' && action.captured)) {
       kills++;
     }
   }
@@ -1199,7 +1287,6 @@ export function reduceCooldowns(units: LiveBattleUnit[]): void {
     // Check if unit is stunned - stunned units don't get cooldown reduction
     const stunned = isUnitStunned(unit);
     if (stunned) {
-      console.log(`[reduceCooldowns] Unit ${unit.unitId} is stunned, skipping cooldown reduction`);
       continue;
     }
     
@@ -1240,7 +1327,6 @@ export function reduceCooldowns(units: LiveBattleUnit[]): void {
         // Only increment if not already fully charged
         if (currentProgress < ability.chargeTime) {
           unit.abilityChargeProgress[ability.abilityId] = currentProgress + 1;
-          console.log(`[reduceCooldowns] Unit ${unit.unitId} ability ${ability.abilityId} charge progress: ${currentProgress + 1}/${ability.chargeTime}`);
         }
       }
     }
@@ -1248,6 +1334,7 @@ export function reduceCooldowns(units: LiveBattleUnit[]): void {
 }
 
 // Check if battle is over
+// Units spawned on death have already taken their dead unit's place, so they count like any other unit
 export function checkBattleEnd(state: LiveBattleState): { isOver: boolean; playerWon: boolean | null } {
   // Check if any important friendly units are alive
   const friendlyImportantAlive = state.friendlyUnits.some(u => {
@@ -1281,65 +1368,3 @@ export function checkBattleEnd(state: LiveBattleState): { isOver: boolean; playe
   
   return { isOver: false, playerWon: null };
 }
-
-// AI: Pick a random ability and target
-export function aiSelectAction(
-  unit: LiveBattleUnit,
-  state: LiveBattleState
-): { ability: AbilityInfo; targetGridId: number } | null {
-  const unitData = getUnitById(unit.unitId);
-  const unitName = unitData?.identity?.name || `Unit ${unit.unitId}`;
-  
-  // Log all abilities for this unit with their cooldown states
-  const allAbilities = getUnitAbilities(unit.unitId, unit.rank);
-  console.log(`[AI] ${unitName} (grid ${unit.gridId}) - All abilities:`, allAbilities.map(a => ({
-    id: a.abilityId,
-    weapon: a.weaponName,
-    cooldown: a.cooldown,
-    globalCooldown: a.globalCooldown
-  })));
-  console.log(`[AI] ${unitName} - Current ability cooldowns:`, unit.abilityCooldowns);
-  console.log(`[AI] ${unitName} - Current weapon global cooldowns:`, unit.weaponGlobalCooldown);
-  
-  const availableAbilities = getAvailableAbilities(
-    unit,
-    state.enemyUnits,
-    state.friendlyUnits,
-    state.friendlyCollapsedRows,
-    state.enemyCollapsedRows
-  );
-
-  console.log(`[AI] ${unitName} (grid ${unit.gridId}): ${availableAbilities.length} available abilities after filtering`);
-
-  if (availableAbilities.length === 0) {
-    console.log(`[AI] ${unitName}: No available abilities`);
-    return null;
-  }
-
-  const ability = availableAbilities[Math.floor(Math.random() * availableAbilities.length)];
-  console.log(`[AI] ${unitName}: Selected ability ${ability.abilityId} (weapon: ${ability.weaponName})`);
-
-  // AI uses strict targeting - must match ability's target tags
-  const validTargets = getValidTargets(
-    unit,
-    ability,
-    state.enemyUnits,
-    state.friendlyUnits,
-    state.friendlyCollapsedRows,
-    state.enemyCollapsedRows,
-    true // AI requires valid target tags
-  );
-  console.log(`[AI] ${unitName}: ${validTargets.length} valid targets`);
-  
-  if (validTargets.length === 0) {
-    console.log(`[AI] ${unitName}: No valid targets for selected ability`);
-    return null;
-  }
-  
-  const target = validTargets[Math.floor(Math.random() * validTargets.length)];
-  const targetData = getUnitById(target.unitId);
-  const targetName = targetData?.identity?.name || `Unit ${target.unitId}`;
-  console.log(`[AI] ${unitName}: Targeting ${targetName} (grid ${target.gridId})`);
-  
-  return { ability, targetGridId: target.gridId };
-}
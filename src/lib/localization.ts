@@ -13,9 +13,9 @@ import ruData from "@/data/GameText_ru.json";
 import zhHansData from "@/data/GameText_zh-Hans.json";
 import zhHantData from "@/data/GameText_zh-Hant.json";
 
-const shared = sharedData as unknown as SharedDataFile;
+const bundledShared = sharedData as unknown as SharedDataFile;
 
-const languageFiles: Record<SupportedLanguage, LocalizedFile> = {
+const bundledLanguageFiles: Record<SupportedLanguage, LocalizedFile> = {
   en: enData as unknown as LocalizedFile,
   de: deData as unknown as LocalizedFile,
   es: esData as unknown as LocalizedFile,
@@ -28,23 +28,39 @@ const languageFiles: Record<SupportedLanguage, LocalizedFile> = {
   "zh-Hant": zhHantData as unknown as LocalizedFile,
 };
 
+// Text files from a loaded data version; languages it doesn't include fall back to the bundled ones
+export interface GameTextFiles {
+  shared?: SharedDataFile;
+  languages?: Partial<Record<SupportedLanguage, LocalizedFile>>;
+}
+
 // Build lookup maps for performance
 // Use string keys because IDs exceed Number.MAX_SAFE_INTEGER and lose precision as numbers
-const keyToIdMap = new Map<string, string>();
-shared.m_Entries.forEach((entry) => {
-  // Convert ID to string to preserve precision for large numbers
-  keyToIdMap.set(entry.m_Key, String(entry.m_Id));
-});
-
-const idToTextMaps: Record<SupportedLanguage, Map<string, string>> = {} as Record<SupportedLanguage, Map<string, string>>;
-
-Object.entries(languageFiles).forEach(([lang, file]) => {
-  const map = new Map<string, string>();
-  file.m_TableData.forEach((entry) => {
-    map.set(String(entry.m_Id), entry.m_Localized);
+let keyToIdMap = new Map<string, string>();
+let idToTextMaps: Record<SupportedLanguage, Map<string, string>> = {} as Record<SupportedLanguage, Map<string, string>>;
+
+function buildTextMaps(shared: SharedDataFile, languageFiles: Record<SupportedLanguage, LocalizedFile>) {
+  keyToIdMap = new Map<string, string>();
+  shared.m_Entries.forEach((entry) => {
+    // Convert ID to string to preserve precision for large numbers
+    keyToIdMap.set(entry.m_Key, String(entry.m_Id));
+  });
+
+  idToTextMaps = {} as Record<SupportedLanguage, Map<string, string>>;
+  Object.entries(languageFiles).forEach(([lang, file]) => {
+    const map = new Map<string, string>();
+    file.m_TableData.forEach((entry) => {
+      map.set(String(entry.m_Id), entry.m_Localized);
+    });
+    idToTextMaps[lang as SupportedLanguage] = map;
   });
-  idToTextMaps[lang as SupportedLanguage] = map;
-});
+}
+
+buildTextMaps(bundledShared, bundledLanguageFiles);
+
+export function setGameText(text: GameTextFiles | null): void {
+  buildTextMaps(text?.shared ?? bundledShared, { ...bundledLanguageFiles, ...text?.languages });
+}
 
 export function getLocalizedText(key: string, language: SupportedLanguage): string {
   const id = keyToIdMap.get(key);
@@ -0,0 +1,142 @@
+// One search index over units, abilities, encounters, boss strikes and status effects, for the
+// command palette. Entries match on their localized name as well as internal keys and IDs.
+import { getAbilityIndex } from "@/lib/abilityIndex";
+import { getAllBossStrikeIds, getBossStrikeById, getBossStrikeName } from "@/lib/bossStrikes";
+import { getAllEncounterIds, getEncounterById } from "@/lib/encounters";
+import { getAllStatusEffectFamilies, getStatusEffectDisplayName } from "@/lib/statusEffectData";
+import { allUnits } from "@/lib/units";
+import { UnitSideLabels } from "@/data/gameEnums";
+
+export type SearchEntryKind = "unit" | "ability" | "encounter" | "boss_strike" | "status_effect";
+
+export const SEARCH_ENTRY_KINDS: Record<SearchEntryKind, { label: string }> = {
+  unit: { label: "Units" },
+  ability: { label: "Abilities" },
+  encounter: { label: "Encounters" },
+  boss_strike: { label: "Boss Strikes" },
+  status_effect: { label: "Status Effects" },
+};
+
+export interface SearchEntry {
+  kind: SearchEntryKind;
+  id: string;
+  name: string;
+  detail?: string;
+  // Where selecting the entry navigates to
+  path: string;
+  // Lowercased name, internal keys and ID
+  searchText: string;
+}
+
+const MAX_RESULTS_PER_KIND = 8;
+
+function createEntry(kind: SearchEntryKind, id: string, name: string, keys: (string | undefined)[], path: string, detail?: string): SearchEntry {
+  return {
+    kind,
+    id,
+    name,
+    detail,
+    path,
+    searchText: [name, ...keys, id].filter(Boolean).join("\n").toLowerCase(),
+  };
+}
+
+// Build the index with names in the current language
+export function buildSearchIndex(t: (key: string) => string): SearchEntry[] {
+  const entries: SearchEntry[] = [];
+
+  for (const unit of allUnits) {
+    const name = t(unit.identity.name);
+    entries.push(createEntry(
+      "unit",
+      String(unit.id),
+      name,
+      [unit.identity.name, unit.identity.short_name, t(unit.identity.short_name)],
+      `/unit/${unit.id}`,
+      UnitSideLabels[unit.identity.side]
+    ));
+  }
+
+  for (const { id, ability, users } of getAbilityIndex()) {
+    entries.push(createEntry(
+      "ability",
+      String(id),
+      t(ability.name),
+      [ability.name],
+      `/ability/${id}`,
+      users.length === 1 ? "1 unit" : `${users.length} units`
+    ));
+  }
+
+  for (const id of getAllEncounterIds()) {
+    const encounter = getEncounterById(id);
+    const name = encounter?.name ? t(encounter.name) : `Encounter ${id}`;
+    entries.push(createEntry(
+      "encounter",
+      id,
+      name,
+      [encounter?.name],
+      `/?tab=encounters&encounter=${id}`,
+      encounter?.level ? `Level ${encounter.level}` : undefined
+    ));
+  }
+
+  for (const archived of [false, true]) {
+    for (const id of getAllBossStrikeIds(archived)) {
+      const nameKey = getBossStrikeName(getBossStrikeById(id, archived)!);
+      entries.push(createEntry(
+        "boss_strike",
+        archived ? `archived-${id}` : id,
+        nameKey ? t(nameKey) : `Boss Strike #${id}`,
+        [nameKey, id],
+        `/?tab=boss-strikes&bossStrike=${id}${archived ? "&archived=1" : ""}`,
+        archived ? "Archived" : "Current"
+      ));
+    }
+  }
+
+  for (const { id, family } of getAllStatusEffectFamilies()) {
+    entries.push(createEntry(
+      "status_effect",
+      String(id),
+      getStatusEffectDisplayName(id),
+      [family.display_name],
+      `/?tab=units&effect=${id}`,
+      "Units that inflict it"
+    ));
+  }
+
+  return entries;
+}
+
+// Lower is better: exact ID, then name prefix, then name substring, then keys
+function getMatchRank(entry: SearchEntry, query: string): number | null {
+  if (entry.id === query) return 0;
+  const name = entry.name.toLowerCase();
+  if (name.startsWith(query)) return 1;
+  if (name.includes(query)) return 2;
+  if (entry.searchText.includes(query)) return 3;
+  return null;
+}
+
+// Best matches for each kind, in SEARCH_ENTRY_KINDS order
+export function searchIndex(entries: SearchEntry[], query: string, maxPerKind: number = MAX_RESULTS_PER_KIND): SearchEntry[] {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return [];
+
+  const byKind = new Map<SearchEntryKind, { entry: SearchEntry; rank: number }[]>();
+  for (const entry of entries) {
+    const rank = getMatchRank(entry, normalized);
+    if (rank === null) continue;
+    const matches = byKind.get(entry.kind) ?? [];
+    matches.push({ entry, rank });
+    byKind.set(entry.kind, matches);
+  }
+
+  return (Object.keys(SEARCH_ENTRY_KINDS) as SearchEntryKind[]).flatMap(kind =>
+    (byKind.get(kind) ?? [])
+      .sort((a, b) => (a.rank - b.rank) || a.entry.name.localeCompare(b.entry.name))
+      .slice(0, maxPerKind)
+      .map(({ entry }) => entry)
+  );
+}
@@ -1,6 +1,7 @@
 import type { ParsedUnit } from "@/types/units";
 import { getAbilityById, type Ability } from "@/lib/abilities";
 import { expandTargetTags } from "@/lib/tagHierarchy";
+import { getStatusEffect } from "@/lib/statusEffectData";
 import { DamageType, UnitTag } from "@/data/gameEnums";
 
 // Key target categories for filtering
@@ -88,6 +89,13 @@ export function unitHasStatusEffects(unit: ParsedUnit): boolean {
   return false;
 }
 
+// Check if unit has an ability that inflicts a status effect of the given family
+export function unitInflictsStatusEffect(unit: ParsedUnit, familyId: number): boolean {
+  return getUnitAbilities(unit).some(({ ability }) =>
+    Object.keys(ability.stats.status_effects ?? {}).some(effectId => getStatusEffect(parseInt(effectId))?.family === familyId)
+  );
+}
+
 // Get damage resistances under 100% (vulnerabilities)
 export function getUnitVulnerabilities(unit: ParsedUnit): number[] {
   const vulnerabilities: number[] = [];
@@ -129,6 +137,7 @@ export interface AdvancedFilterCriteria {
   damageTypes: number[]; // Unit deals these damage types
   hasStatusEffects: boolean; // Unit has DoT/status effect abilities
   vulnerableTo: number[]; // Unit is vulnerable to these damage types
+  inflictsStatusEffect: number | null; // Unit inflicts this status effect family
 }
 
 export function filterUnitsByAdvancedCriteria(
@@ -166,6 +175,11 @@ export function filterUnitsByAdvancedCriteria(
       if (!hasAnyVulnerability) return false;
     }
 
+    // Filter by inflicted status effect family
+    if (typeof criteria.inflictsStatusEffect === "number") {
+      if (!unitInflictsStatusEffect(unit, criteria.inflictsStatusEffect)) return false;
+    }
+
     return true;
   });
 }
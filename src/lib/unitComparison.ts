@@ -0,0 +1,89 @@
+// Unit comparison: which units at which ranks, encoded in the URL so comparisons can be shared,
+// plus the per-row "best value" and per-ability damage helpers the compare page uses
+import { getUnitAbilities } from "@/lib/battleCalculations";
+import { getUnitById } from "@/lib/units";
+import type { ParsedUnit } from "@/types/units";
+
+export const MAX_COMPARE_UNITS = 6;
+
+export interface CompareEntry {
+  unitId: number;
+  rank: number;
+}
+
+export function getMaxRank(unit: ParsedUnit): number {
+  return Math.max(1, unit.statsConfig?.stats?.length ?? 1);
+}
+
+// "352-3,377-5": unit 352 at rank 3 and unit 377 at rank 5; a missing rank means the unit's max rank
+// Unknown units and duplicates are dropped and ranks are clamped to what the unit has
+export function parseCompareParam(value: string | null): CompareEntry[] {
+  const entries: CompareEntry[] = [];
+  for (const part of (value ?? "").split(",")) {
+    const [idText, rankText] = part.split("-");
+    const unit = getUnitById(parseInt(idText));
+    if (!unit || entries.some(e => e.unitId === unit.id)) continue;
+    const maxRank = getMaxRank(unit);
+    const rank = parseInt(rankText);
+    entries.push({ unitId: unit.id, rank: Number.isNaN(rank) ? maxRank : Math.min(Math.max(rank, 1), maxRank) });
+    if (entries.length === MAX_COMPARE_UNITS) break;
+  }
+  return entries;
+}
+
+export function formatCompareParam(entries: CompareEntry[]): string {
+  return entries.map(({ unitId, rank }) => `${unitId}-${rank}`).join(",");
+}
+
+export function getComparePath(entries: CompareEntry[]): string {
+  return `/compare?units=${formatCompareParam(entries)}`;
+}
+
+// Indexes holding the best value of a row; none when fewer than two values differ
+export function getBestIndexes(values: (number | undefined)[], higherIsBetter: boolean): Set<number> {
+  const defined = values.filter((v): v is number => v !== undefined);
+  if (defined.length < 2 || defined.every(v => v === defined[0])) return new Set();
+  const best = higherIsBetter ? Math.max(...defined) : Math.min(...defined);
+  return new Set(values.flatMap((v, i) => (v === best ? [i] : [])));
+}
+
+export interface AbilityDamage {
+  abilityId: number;
+  weaponName: string;
+  minDamage: number;
+  maxDamage: number;
+  // Average damage of one use, counting every shot and crits (which double a shot's damage)
+  damagePerUse: number;
+  // damagePerUse spread over the turns the ability is on cooldown
+  damagePerTurn: number;
+  critChance: number;
+  cooldown: number;
+  minRange: number;
+  maxRange: number;
+  damageType: number;
+}
+
+// Damage before the target's defense, armor and resistances, so units can be compared on their own
+// A cooldown of N means the ability is ready again N + 1 turns after it's used
+export function getAbilityDamageAtRank(unitId: number, rank: number): AbilityDamage[] {
+  return getUnitAbilities(unitId, rank)
+    .filter(ability => ability.maxDamage > 0)
+    .map(ability => {
+      const critChance = Math.min(100, ability.critPercent + ability.unitBaseCrit);
+      const averageShot = (ability.minDamage + ability.maxDamage) / 2 * (1 + critChance / 100);
+      const damagePerUse = averageShot * ability.shotsPerAttack * ability.attacksPerUse;
+      return {
+        abilityId: ability.abilityId,
+        weaponName: ability.weaponName,
+        minDamage: ability.minDamage,
+        maxDamage: ability.maxDamage,
+        damagePerUse: Math.round(damagePerUse),
+        damagePerTurn: Math.round(damagePerUse / (ability.cooldown + 1)),
+        critChance,
+        cooldown: ability.cooldown,
+        minRange: ability.minRange,
+        maxRange: ability.maxRange,
+        damageType: ability.damageType,
+      };
+    });
+}
@@ -1,4 +1,4 @@
-import battleConfig from "@/data/battle_config.json";
+import { getGameData } from "@/lib/gameData";
 import { getUnitById } from "@/lib/units";
 import type { PartyUnit } from "@/types/battleSimulator";
 import type { Encounter } from "@/types/encounters";
@@ -13,7 +13,7 @@ interface UnitTagMetadata {
 export function getTagDeployLimits(): Map<number, { limit: number; stringId: string }> {
   const limits = new Map<number, { limit: number; stringId: string }>();
   
-  const metadata = (battleConfig as any).settings?.unit_tag_metadata || {};
+  const metadata = (getGameData().battleConfig as any).settings?.unit_tag_metadata || {};
   
   for (const [tagIdStr, data] of Object.entries(metadata)) {
     const tagData = data as UnitTagMetadata;
@@ -98,6 +98,13 @@ export function checkEncounterUnitLimit(
   };
 }
 
+// Check if an encounter bans a unit through its exclude_tag
+export function isUnitExcludedFromEncounter(unitId: number, encounter: Encounter | null | undefined): boolean {
+  if (!encounter?.exclude_tag) return false;
+  const unit = getUnitById(unitId);
+  return !!unit && unit.identity.tags.includes(encounter.exclude_tag);
+}
+
 // Get all restriction messages for current party
 export function getRestrictionMessages(
   encounter: Encounter | null,
@@ -1,12 +1,11 @@
-import battleUnitsData from "@/data/battle_units.json";
+import { getGameData, onGameDataChange } from "@/lib/gameData";
 import type { ParsedUnit, UnitConfig, IdentityConfig, AnimationConfig, StatsConfig, RequirementsConfig, HealingConfig, WeaponsConfig } from "@/types/units";
 
-const rawData = battleUnitsData as Record<string, UnitConfig[]>;
-
 function parseUnit(id: string, configs: UnitConfig[]): ParsedUnit {
   const unit: ParsedUnit = {
     id: parseInt(id),
     identity: configs.find((c) => c._t === "battle_unit_identity_config") as IdentityConfig,
+    transformations: [],
   };
 
   unit.animation = configs.find((c) => c._t === "battle_unit_animation_config") as AnimationConfig | undefined;
@@ -14,11 +13,21 @@ function parseUnit(id: string, configs: UnitConfig[]): ParsedUnit {
   unit.requirements = configs.find((c) => c._t === "battle_unit_requirements_config") as RequirementsConfig | undefined;
   unit.healing = configs.find((c) => c._t === "battle_unit_healing_config") as HealingConfig | undefined;
   unit.weapons = configs.find((c) => c._t === "battle_unit_weapons_config") as WeaponsConfig | undefined;
+  unit.transformations = Object.entries(unit.statsConfig?.transformation_table ?? {})
+    .map(([trigger, value]) => ({ trigger, value }));
 
   return unit;
 }
 
-export const allUnits: ParsedUnit[] = Object.entries(rawData).map(([id, configs]) => parseUnit(id, configs));
+function parseAllUnits(): ParsedUnit[] {
+  return Object.entries(getGameData().units).map(([id, configs]) => parseUnit(id, configs));
+}
+
+export let allUnits: ParsedUnit[] = parseAllUnits();
+
+onGameDataChange(() => {
+  allUnits = parseAllUnits();
+});
 
 export function getUnitById(id: number): ParsedUnit | undefined {
   return allUnits.find((u) => u.id === id);
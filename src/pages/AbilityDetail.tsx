@@ -0,0 +1,318 @@
+import { useParams, Link, useLocation } from "react-router-dom";
+import { Header } from "@/components/Header";
+import { CompareBar } from "@/components/units/CompareBar";
+import { StatSection, StatRow } from "@/components/units/StatSection";
+import { TargetingPatternDiagram } from "@/components/battle/TargetingPatternDiagram";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { getAbilityTargetArea, getLineOfFireLabel } from "@/lib/abilities";
+import { getAbilityIndexEntry, ABILITY_SHAPES } from "@/lib/abilityIndex";
+import { getEffectDisplayNameTranslated, getEffectColor, getEffectIconUrl, getEffectDuration } from "@/lib/statusEffects";
+import { getAbilityImageUrl } from "@/lib/abilityImages";
+import { getDamageTypeName, getDamageTypeIconUrl } from "@/lib/damageImages";
+import { getUnitById } from "@/lib/units";
+import { getUnitImageUrl } from "@/lib/unitImages";
+import { getResourceIconUrl } from "@/lib/resourceImages";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { ArrowLeft, Swords, Crosshair, Flame, Coins, Users } from "lucide-react";
+import { UnitTagLabels } from "@/data/gameEnums";
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  const parts: string[] = [];
+  if (hours > 0) parts.push(`${hours}h`);
+  if (minutes > 0) parts.push(`${minutes}m`);
+  if (secs > 0 && hours === 0) parts.push(`${secs}s`);
+
+  return parts.join(" ") || "0s";
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
+export default function AbilityDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useLanguage();
+  const location = useLocation();
+
+  const backPath = (location.state as { from?: string; fromLabel?: string })?.from || "/?tab=abilities";
+  const backLabel = (location.state as { from?: string; fromLabel?: string })?.fromLabel || "Back to Abilities";
+
+  const entry = getAbilityIndexEntry(parseInt(id || "0"));
+
+  if (!entry) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Header />
+        <main className="container mx-auto px-4 py-12 text-center">
+          <h1 className="text-2xl font-bold mb-4">Ability Not Found</h1>
+          <p className="text-muted-foreground mb-6">The ability with ID {id} does not exist.</p>
+          <Button asChild>
+            <Link to="/?tab=abilities">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Abilities
+            </Link>
+          </Button>
+        </main>
+      </div>
+    );
+  }
+
+  const { ability, shape, users } = entry;
+  const { stats } = ability;
+  const { targetArea, isFixed } = getAbilityTargetArea(ability);
+  const abilityIconUrl = getAbilityImageUrl(ability.icon);
+  const damageTypeIconUrl = getDamageTypeIconUrl(stats.damage_type);
+  const statusEffects = Object.entries(stats.status_effects ?? {});
+  const requirements = Object.entries(ability.reqs ?? {});
+  const unitLinkState = { from: location.pathname, fromLabel: `Back to ${t(ability.name)}` };
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <Header />
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild title={backLabel}>
+            <Link to={backPath}>
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          {abilityIconUrl && (
+            <img
+              src={abilityIconUrl}
+              alt={t(ability.name)}
+              className="w-16 h-16 object-cover rounded-lg border bg-muted"
+              onError={(e) => (e.currentTarget.style.display = 'none')}
+            />
+          )}
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold">{t(ability.name)}</h1>
+            <p className="text-muted-foreground">
+              ID: {entry.id} • {ability.name}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="outline" className="gap-1">
+            {damageTypeIconUrl && (
+              <img
+                src={damageTypeIconUrl}
+                alt=""
+                className="h-4 w-4 object-contain"
+                onError={(e) => { e.currentTarget.style.display = 'none'; }}
+              />
+            )}
+            {getDamageTypeName(stats.damage_type)} Damage
+          </Badge>
+          {getLineOfFireLabel(stats.line_of_fire) && (
+            <Badge variant="outline">{getLineOfFireLabel(stats.line_of_fire)}</Badge>
+          )}
+          <Badge variant="outline">{ABILITY_SHAPES[shape].label}</Badge>
+        </div>
+
+        <div className="space-y-4">
+          <StatSection title="Targeting" icon={<Crosshair className="h-4 w-4" />} defaultOpen>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <TargetingPatternDiagram
+                targetArea={targetArea}
+                lineOfFire={stats.line_of_fire ?? 1}
+                attackDirection={stats.attack_direction || 1}
+                minRange={stats.min_range}
+                maxRange={stats.max_range}
+                isFixed={isFixed}
+              />
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">{ABILITY_SHAPES[shape].description}</p>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm text-muted-foreground">Targets:</span>
+                  {(stats.targets ?? []).length === 0 ? (
+                    <Badge variant="outline" className="text-xs">Any</Badge>
+                  ) : (
+                    stats.targets!.map(tag => (
+                      <Badge key={tag} variant="outline" className="text-xs">
+                        {UnitTagLabels[tag] || `#${tag}`}
+                      </Badge>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+          </StatSection>
+
+          <StatSection title="Stats" icon={<Swords className="h-4 w-4" />} defaultOpen>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-1 text-sm">
+              <StatRow label="Attack" value={stats.attack} highlight />
+              {stats.damage !== 0 && (
+                <StatRow label="Damage Stat" value={stats.damage} />
+              )}
+              <StatRow label="Shots per Attack" value={stats.shots_per_attack} />
+              {(stats.attacks_per_use ?? 1) > 1 && (
+                <StatRow label="Attacks per Use" value={stats.attacks_per_use} />
+              )}
+              <StatRow label="Crit %" value={`${stats.critical_hit_percent}%`} />
+              <StatRow label="Cooldown" value={stats.ability_cooldown} />
+              {(stats.global_cooldown ?? 0) > 0 && (
+                <StatRow label="Global Cooldown" value={stats.global_cooldown} />
+              )}
+              {(stats.charge_time ?? 0) > 0 && (
+                <StatRow label="Charge Time" value={stats.charge_time} />
+              )}
+              <StatRow label="Ammo Required" value={stats.ammo_required} />
+              <StatRow label="Range" value={`${stats.min_range}-${stats.max_range}`} />
+              {stats.max_range_mod_atk !== 0 && (
+                <StatRow label="Max Range Offense" value={stats.max_range_mod_atk} />
+              )}
+              {stats.armor_piercing_percent > 0 && (
+                <StatRow label="Armor Pierce" value={`${Math.round(stats.armor_piercing_percent * 100)}%`} />
+              )}
+              {(stats.secondary_damage_percent ?? 0) > 0 && (
+                <StatRow label="Secondary Damage" value={`${stats.secondary_damage_percent}%`} />
+              )}
+              {(stats.damage_distraction > 0 || stats.damage_distraction_bonus > 0) && (
+                <StatRow
+                  label="Suppression"
+                  value={`${stats.damage_distraction}x${stats.damage_distraction_bonus > 0 ? ` +${stats.damage_distraction_bonus}` : ""}`}
+                />
+              )}
+              {stats.min_hp_percent > 0 && (
+                <StatRow label="Non-lethal" value={`Stops at ${stats.min_hp_percent}% HP`} />
+              )}
+              {stats.capture && (
+                <StatRow label="Capture" value="On lethal hit" />
+              )}
+              <StatRow label="Damage from Unit" value={`${Math.round(stats.damage_from_unit * 100)}%`} />
+              <StatRow label="Damage from Weapon" value={`${Math.round(stats.damage_from_weapon * 100)}%`} />
+            </div>
+          </StatSection>
+
+          {statusEffects.length > 0 && (
+            <StatSection title="Status Effects" icon={<Flame className="h-4 w-4" />} defaultOpen>
+              <div className="flex flex-wrap gap-2">
+                {statusEffects.map(([effectId, chance]) => {
+                  const effect = parseInt(effectId);
+                  const iconUrl = getEffectIconUrl(effect);
+                  const duration = getEffectDuration(effect);
+                  return (
+                    <div
+                      key={effectId}
+                      className="flex items-center gap-1.5 px-2 py-1 rounded-md text-sm bg-muted border"
+                      style={{ borderColor: getEffectColor(effect), borderLeftWidth: 3 }}
+                    >
+                      {iconUrl && (
+                        <img
+                          src={iconUrl}
+                          alt=""
+                          className="h-4 w-4 object-contain"
+                          onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                        />
+                      )}
+                      <span className="font-medium">{getEffectDisplayNameTranslated(effect)}</span>
+                      <span className="text-muted-foreground">({chance}% chance{duration > 0 ? `, ${duration} turns` : ""})</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </StatSection>
+          )}
+
+          {requirements.length > 0 && (
+            <StatSection title="Unlock Requirements" icon={<Coins className="h-4 w-4" />} defaultOpen>
+              <div className="space-y-4">
+                {requirements.map(([unitId, req]) => {
+                  const unit = getUnitById(parseInt(unitId));
+                  const costs = Object.entries(req.cost).filter(([, amount]) => amount > 0);
+                  return (
+                    <div key={unitId} className="space-y-2">
+                      <div className="flex items-center gap-2 flex-wrap text-sm">
+                        <span className="font-medium">{unit ? t(unit.identity.name) : `Unit ${unitId}`}</span>
+                        {req.prereqs.map((prereq, i) => prereq.level !== undefined && (
+                          <Badge key={i} variant="secondary" className="text-xs">
+                            Rank {prereq.level}
+                            {prereq.unit_type !== undefined && prereq.unit_type !== parseInt(unitId) &&
+                              ` ${t(getUnitById(prereq.unit_type)?.identity.name ?? `Unit ${prereq.unit_type}`)}`}
+                          </Badge>
+                        ))}
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {costs.map(([resource, amount]) => (
+                          <div key={resource} className="flex items-center justify-between py-1">
+                            <span className="text-muted-foreground flex items-center gap-2">
+                              <img
+                                src={getResourceIconUrl(resource)}
+                                alt=""
+                                className="h-5 w-5 object-contain"
+                                onError={(e) => (e.currentTarget.style.display = 'none')}
+                              />
+                              {capitalize(resource)}
+                            </span>
+                            <span className="font-medium">{amount.toLocaleString()}</span>
+                          </div>
+                        ))}
+                        <div className="flex items-center justify-between py-1">
+                          <span className="text-muted-foreground flex items-center gap-2">
+                            <img
+                              src={getResourceIconUrl("time")}
+                              alt=""
+                              className="h-5 w-5 object-contain"
+                              onError={(e) => (e.currentTarget.style.display = 'none')}
+                            />
+                            Build Time
+                          </span>
+                          <span className="font-medium">{formatDuration(req.build_time)}</span>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </StatSection>
+          )}
+
+          <StatSection title={`Used By (${users.length})`} icon={<Users className="h-4 w-4" />} defaultOpen>
+            {users.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No unit has this ability.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2">
+                {users.map(({ unitId, weaponName }) => {
+                  const unit = getUnitById(unitId);
+                  if (!unit) return null;
+                  const weapon = unit.weapons?.weapons[weaponName];
+                  return (
+                    <Link
+                      key={`${unitId}-${weaponName}`}
+                      to={`/unit/${unitId}`}
+                      state={unitLinkState}
+                      className="flex items-center gap-2 p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors"
+                    >
+                      {unit.identity.icon && (
+                        <img
+                          src={getUnitImageUrl(unit.identity.icon) || ""}
+                          alt=""
+                          className="h-8 w-8 object-contain"
+                          onError={(e) => (e.currentTarget.style.display = 'none')}
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{t(unit.identity.name)}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {weapon ? t(weapon.name) : weaponName} • ID {unitId}
+                        </p>
+                      </div>
+                    </Link>
+                  );
+                })}
+              </div>
+            )}
+          </StatSection>
+        </div>
+      </main>
+      <CompareBar />
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import { getUnitById } from "@/lib/units";
 import { getUnitAbilities, calculateAoeDamagePreviewsForEnemy, calculateAoeDamagePreviewsForFriendly, calculateFixedDamagePreviewsForEnemy, calculateFixedDamagePreviewsForFriendly, calculateDamagePreviewsForEnemy, calculateDamagePreviewsForFriendly } from "@/lib/battleCalculations";
 import { getFixedAttackPositions } from "@/types/battleSimulator";
 import { getBlockingUnits, findFrontmostUnblockedPosition, getTargetingInfo } from "@/lib/battleTargeting";
+import { getBattleLayout } from "@/lib/battleConfig";
 import { getStatusEffect, getStatusEffectDisplayName, getStatusEffectColor, getStatusEffectIconUrl } from "@/lib/statusEffects";
 import { UnitImage } from "@/components/units/UnitImage";
 import { cn } from "@/lib/utils";
@@ -71,6 +72,12 @@ const BattleSimulator = () => {
   const waves = encounter ? getEncounterWaves(encounter) : [];
   const currentWaveUnits = waves[currentWave] || [];
 
+  // Battlefield layout (unavailable cells and defender wall) for the encounter
+  const battleLayout = useMemo(
+    () => getBattleLayout(encounter?.layout_id, encounter?.is_player_attacker !== false),
+    [encounter?.layout_id, encounter?.is_player_attacker]
+  );
+
   const tempFormation = useTempFormation({ encounter });
 
   const backPath = (location.state as any)?.from || "/";
@@ -107,7 +114,8 @@ const BattleSimulator = () => {
       selectedAbility.maxRange,
       selectedAbility.lineOfFire,
       selectedUnit.isEnemy,
-      blockingUnits
+      blockingUnits,
+      battleLayout
     );
     
     if (frontmostPosition !== null) {
@@ -163,7 +171,8 @@ const BattleSimulator = () => {
       selectedAbility.maxRange,
       selectedAbility.lineOfFire,
       selectedUnit.isEnemy,
-      targetUnits
+      targetUnits,
+      battleLayout
     );
     
     // Return set of valid grid IDs (in range and not blocked)
@@ -172,7 +181,7 @@ const BattleSimulator = () => {
         .filter(t => t.inRange && !t.isBlocked)
         .map(t => t.gridId)
     );
-  }, [selectedUnit, selectedAbility, tempFormation.units, currentWaveUnits]);
+  }, [selectedUnit, selectedAbility, tempFormation.units, currentWaveUnits, battleLayout]);
 
   // Calculate damage previews
   // - Single target: show all valid targets with damage (blocking applies)
@@ -185,24 +194,24 @@ const BattleSimulator = () => {
       // Enemy attacking friendly units
       if (selectedAbility.isSingleTarget) {
         // Single target: calculate for ALL friendly units (blocking will filter display)
-        return calculateDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, environmentalDamageMods, true);
+        return calculateDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, environmentalDamageMods, true, battleLayout);
       }
       if (selectedAbility.isFixed && fixedAttackPositions.friendlyGrid.length > 0) {
-        return calculateFixedDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, fixedAttackPositions.friendlyGrid, environmentalDamageMods, true);
+        return calculateFixedDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, fixedAttackPositions.friendlyGrid, environmentalDamageMods, true, battleLayout);
       }
-      return calculateAoeDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, friendlyReticleGridId, environmentalDamageMods, true);
+      return calculateAoeDamagePreviewsForFriendly(selectedAbility, selectedUnit.gridId, tempFormation.units, friendlyReticleGridId, environmentalDamageMods, true, battleLayout);
     } else {
       // Friendly attacking enemy units
       if (selectedAbility.isSingleTarget) {
         // Single target: calculate for ALL enemy units (blocking will filter display)
-        return calculateDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, enemyRankOverrides, environmentalDamageMods, true);
+        return calculateDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, enemyRankOverrides, environmentalDamageMods, true, battleLayout);
       }
       if (selectedAbility.isFixed && fixedAttackPositions.enemyGrid.length > 0) {
-        return calculateFixedDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, fixedAttackPositions.enemyGrid, enemyRankOverrides, environmentalDamageMods, true);
+        return calculateFixedDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, fixedAttackPositions.enemyGrid, enemyRankOverrides, environmentalDamageMods, true, battleLayout);
       }
-      return calculateAoeDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, enemyReticleGridId, enemyRankOverrides, environmentalDamageMods, true);
+      return calculateAoeDamagePreviewsForEnemy(selectedAbility, selectedUnit.gridId, currentWaveUnits, enemyReticleGridId, enemyRankOverrides, environmentalDamageMods, true, battleLayout);
     }
-  }, [selectedUnit, selectedAbility, tempFormation.units, currentWaveUnits, enemyRankOverrides, enemyReticleGridId, friendlyReticleGridId, fixedAttackPositions, environmentalDamageMods]);
+  }, [selectedUnit, selectedAbility, tempFormation.units, currentWaveUnits, enemyRankOverrides, enemyReticleGridId, friendlyReticleGridId, fixedAttackPositions, environmentalDamageMods, battleLayout]);
 
   // Handle moving the reticle on enemy grid (only for movable AOE reticles)
   const handleEnemyReticleMove = (gridId: number) => {
@@ -368,6 +377,7 @@ const BattleSimulator = () => {
             showReticle={!!selectedAbility && !selectedAbility.isFixed && !selectedAbility.isSingleTarget && !selectedUnit?.isEnemy}
             fixedAttackPositions={!selectedUnit?.isEnemy ? fixedAttackPositions.enemyGrid : fixedAttackPositions.friendlyGrid}
             validReticlePositions={!selectedUnit?.isEnemy ? validReticlePositions : undefined}
+            gridShape={battleLayout.enemy}
           />
 
           {/* Divider with selected unit info */}
@@ -429,6 +439,7 @@ const BattleSimulator = () => {
             showReticle={!!selectedAbility && !selectedAbility.isFixed && !selectedAbility.isSingleTarget && selectedUnit?.isEnemy}
             fixedAttackPositions={selectedUnit?.isEnemy ? fixedAttackPositions.friendlyGrid : []}
             validReticlePositions={selectedUnit?.isEnemy ? validReticlePositions : undefined}
+            gridShape={battleLayout.friendly}
           />
         </div>
 
@@ -1,59 +1,151 @@
-import { useParams, Link } from "react-router-dom";
+import { useState, useMemo } from "react";
+import { useParams, useSearchParams, useNavigate, Link, Navigate } from "react-router-dom";
 import { Header } from "@/components/Header";
+import { UnitImage } from "@/components/units/UnitImage";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { getUnitById } from "@/lib/units";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { allUnits, getUnitById } from "@/lib/units";
+import { getAbilityName } from "@/lib/abilities";
+import { getDamageModifier } from "@/lib/battleCalculations";
+import { getDamageTypeName } from "@/lib/damageImages";
+import {
+  MAX_COMPARE_UNITS,
+  getAbilityDamageAtRank,
+  getBestIndexes,
+  getComparePath,
+  getMaxRank,
+  parseCompareParam,
+} from "@/lib/unitComparison";
+import type { CompareEntry } from "@/lib/unitComparison";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { ArrowLeft, Heart, Zap, Shield, Target, Eye, TrendingUp, TrendingDown, Minus } from "lucide-react";
+import { DAMAGE_TYPE_MAP } from "@/types/battleSimulator";
+import type { DamageMods, UnitStats } from "@/types/units";
+import { ArrowLeft, Plus, X, Link2 } from "lucide-react";
+import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
+// Rows of the stats table; rows without a direction aren't highlighted
+const STAT_ROWS: { label: string; key: keyof UnitStats; higherIsBetter?: boolean }[] = [
+  { label: "HP", key: "hp", higherIsBetter: true },
+  { label: "Armor", key: "armor_hp", higherIsBetter: true },
+  { label: "Power", key: "power", higherIsBetter: true },
+  { label: "Accuracy", key: "accuracy", higherIsBetter: true },
+  { label: "Defense", key: "defense", higherIsBetter: true },
+  { label: "Dodge", key: "dodge", higherIsBetter: true },
+  { label: "Bravery", key: "bravery", higherIsBetter: true },
+  { label: "Critical", key: "critical", higherIsBetter: true },
+  { label: "Ability Slots", key: "ability_slots", higherIsBetter: true },
+  { label: "PV", key: "pv" },
+];
+
+const DAMAGE_TYPES = Object.keys(DAMAGE_TYPE_MAP).map(Number);
+
+const MAX_UNIT_SEARCH_RESULTS = 50;
+
+const bestCellClass = "font-semibold text-green-600 dark:text-green-400 bg-green-500/10";
+
+interface CompareColumn extends CompareEntry {
+  unit: NonNullable<ReturnType<typeof getUnitById>>;
+  stats?: UnitStats;
+}
+
+function formatModifier(mods: DamageMods | undefined, damageType: number): { value: number; label: string } {
+  const value = getDamageModifier(mods, damageType);
+  return { value, label: `${Math.round(value * 100)}%` };
+}
+
+interface ComparisonRowProps {
+  label: string;
+  values: (number | undefined)[];
+  format?: (value: number) => string;
+  higherIsBetter?: boolean;
+}
+
+function ComparisonRow({ label, values, format = String, higherIsBetter }: ComparisonRowProps) {
+  const best = higherIsBetter === undefined ? new Set<number>() : getBestIndexes(values, higherIsBetter);
+  return (
+    <TableRow>
+      <TableCell className="font-medium text-muted-foreground whitespace-nowrap">{label}</TableCell>
+      {values.map((value, i) => (
+        <TableCell key={i} className={cn("text-center", best.has(i) && bestCellClass)}>
+          {value === undefined ? "-" : format(value)}
+        </TableCell>
+      ))}
+    </TableRow>
+  );
+}
+
 export default function Compare() {
   const { id1, id2 } = useParams<{ id1: string; id2: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
   const { t } = useLanguage();
+  const [isAddOpen, setIsAddOpen] = useState(false);
+  const [unitQuery, setUnitQuery] = useState("");
 
-  const unit1 = getUnitById(parseInt(id1 || "0"));
-  const unit2 = getUnitById(parseInt(id2 || "0"));
-
-  if (!unit1 || !unit2) {
-    return (
-      <div className="min-h-screen bg-background">
-        <Header />
-        <main className="container mx-auto px-4 py-12 text-center">
-          <h1 className="text-2xl font-bold mb-4">Units Not Found</h1>
-          <p className="text-muted-foreground mb-6">One or both units do not exist.</p>
-          <Button asChild>
-            <Link to="/">
-              <ArrowLeft className="h-4 w-4 mr-2" />
-              Back to Units
-            </Link>
-          </Button>
-        </main>
-      </div>
-    );
+  const entries = useMemo(() => parseCompareParam(searchParams.get("units")), [searchParams]);
+
+  const columns: CompareColumn[] = entries.map(entry => {
+    const unit = getUnitById(entry.unitId)!;
+    return { ...entry, unit, stats: unit.statsConfig?.stats?.[entry.rank - 1] };
+  });
+
+  const abilityDamage = useMemo(
+    () => entries.map(({ unitId, rank }) => getAbilityDamageAtRank(unitId, rank)),
+    [entries]
+  );
+
+  const unitSearchResults = useMemo(() => {
+    const query = unitQuery.trim().toLowerCase();
+    if (!query) return [];
+    return allUnits
+      .filter(unit => !entries.some(e => e.unitId === unit.id))
+      .filter(unit => String(unit.id) === query || t(unit.identity.name).toLowerCase().includes(query))
+      .slice(0, MAX_UNIT_SEARCH_RESULTS);
+  }, [unitQuery, entries, t]);
+
+  // Links from before ranks were selectable: /compare/:id1/:id2
+  if (id1 && id2) {
+    return <Navigate to={getComparePath(parseCompareParam(`${id1},${id2}`))} replace />;
   }
 
-  const stats1 = unit1.statsConfig?.stats[0];
-  const stats2 = unit2.statsConfig?.stats[0];
-
-  const compareStats = [
-    { label: "HP", key: "hp", icon: Heart, iconClass: "text-destructive" },
-    { label: "Power", key: "power", icon: Zap, iconClass: "text-yellow-500" },
-    { label: "PV", key: "pv", icon: Shield, iconClass: "text-blue-500" },
-    { label: "Accuracy", key: "accuracy", icon: Target, iconClass: "" },
-    { label: "Defense", key: "defense", icon: Shield, iconClass: "" },
-    { label: "Dodge", key: "dodge", icon: Eye, iconClass: "" },
-    { label: "Bravery", key: "bravery", icon: null, iconClass: "" },
-    { label: "Critical", key: "critical", icon: null, iconClass: "" },
-  ];
-
-  const getCompareIndicator = (val1: number | undefined, val2: number | undefined) => {
-    if (val1 === undefined || val2 === undefined) return null;
-    if (val1 > val2) return <TrendingUp className="h-4 w-4 text-green-500" />;
-    if (val1 < val2) return <TrendingDown className="h-4 w-4 text-destructive" />;
-    return <Minus className="h-4 w-4 text-muted-foreground" />;
+  const updateEntries = (next: CompareEntry[]) => {
+    navigate(getComparePath(next), { replace: true });
+  };
+
+  const addUnit = (unitId: number) => {
+    const unit = getUnitById(unitId);
+    if (!unit) return;
+    updateEntries([...entries, { unitId, rank: getMaxRank(unit) }]);
+    setUnitQuery("");
+    setIsAddOpen(false);
   };
 
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success("Comparison link copied");
+    } catch {
+      toast.error("Couldn't copy the link");
+    }
+  };
+
+  const hasArmor = columns.some(({ stats }) => (stats?.armor_hp ?? 0) > 0);
+  const bestDamagePerTurn = abilityDamage.map(abilities => Math.max(0, ...abilities.map(a => a.damagePerTurn)));
+  const bestDamagePerUse = abilityDamage.map(abilities => Math.max(0, ...abilities.map(a => a.damagePerUse)));
+  const maxRange = abilityDamage.map(abilities => Math.max(0, ...abilities.map(a => a.maxRange)));
+  const topDamagePerTurn = getBestIndexes(bestDamagePerTurn, true);
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -64,122 +156,233 @@ export default function Compare() {
               <ArrowLeft className="h-4 w-4" />
             </Link>
           </Button>
-          <div>
+          <div className="flex-1">
             <h1 className="text-3xl font-bold">Compare Units</h1>
-            <p className="text-muted-foreground">Side-by-side comparison of stats</p>
+            <p className="text-muted-foreground">
+              Compare up to {MAX_COMPARE_UNITS} units at any rank. The best value in each row is highlighted.
+            </p>
           </div>
+          <Button variant="outline" className="gap-2" onClick={copyLink} disabled={entries.length === 0}>
+            <Link2 className="h-4 w-4" />
+            Copy Link
+          </Button>
         </div>
 
         {/* Unit Headers */}
-        <div className="grid grid-cols-2 gap-4">
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-lg">{t(unit1.identity.name)}</CardTitle>
-              <p className="text-sm text-muted-foreground">ID: {unit1.id}</p>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-1">
-                <Badge variant="secondary">Side {unit1.identity.side}</Badge>
-              </div>
-            </CardContent>
-          </Card>
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-lg">{t(unit2.identity.name)}</CardTitle>
-              <p className="text-sm text-muted-foreground">ID: {unit2.id}</p>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-1">
-                <Badge variant="secondary">Side {unit2.identity.side}</Badge>
-              </div>
-            </CardContent>
-          </Card>
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {columns.map(({ unit, unitId, rank }, index) => (
+            <Card key={unitId}>
+              <CardHeader className="pb-2 space-y-2">
+                <div className="flex items-start gap-2">
+                  <UnitImage iconName={unit.identity.icon} alt={t(unit.identity.name)} className="w-10 h-10 rounded shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <CardTitle className="text-base truncate">
+                      <Link to={`/unit/${unitId}`} className="hover:underline">{t(unit.identity.name)}</Link>
+                    </CardTitle>
+                    <p className="text-xs text-muted-foreground">ID: {unitId}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 shrink-0"
+                    onClick={() => updateEntries(entries.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <Select
+                  value={String(rank)}
+                  onValueChange={(v) => updateEntries(entries.map((e, i) => (i === index ? { ...e, rank: parseInt(v) } : e)))}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: getMaxRank(unit) }, (_, i) => i + 1).map(r => (
+                      <SelectItem key={r} value={String(r)}>Rank {r}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+          ))}
+
+          {entries.length < MAX_COMPARE_UNITS && (
+            <Popover open={isAddOpen} onOpenChange={setIsAddOpen}>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="h-full min-h-[120px] border-dashed gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Unit
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 p-0" align="start">
+                <Command shouldFilter={false}>
+                  <CommandInput placeholder="Search by ID or name..." value={unitQuery} onValueChange={setUnitQuery} />
+                  <CommandList>
+                    {unitQuery.trim() && <CommandEmpty>No units found.</CommandEmpty>}
+                    {unitSearchResults.map(unit => (
+                      <CommandItem key={unit.id} value={String(unit.id)} onSelect={() => addUnit(unit.id)}>
+                        <span className="truncate">{t(unit.identity.name)}</span>
+                        <span className="ml-auto text-xs text-muted-foreground font-mono">#{unit.id}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandList>
+                </Command>
+              </PopoverContent>
+            </Popover>
+          )}
         </div>
 
-        {/* Stats Comparison */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Stats Comparison</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {compareStats.map(({ label, key, icon: Icon, iconClass }) => {
-                const val1 = stats1?.[key as keyof typeof stats1] as number | undefined;
-                const val2 = stats2?.[key as keyof typeof stats2] as number | undefined;
-                
-                return (
-                  <div key={key} className="grid grid-cols-5 items-center py-2 border-b last:border-0">
-                    <div className={cn(
-                      "flex items-center gap-2 font-medium",
-                      val1 !== undefined && val2 !== undefined && val1 > val2 && "text-green-600 dark:text-green-400"
-                    )}>
-                      {getCompareIndicator(val1, val2)}
-                      <span>{val1 ?? "-"}</span>
-                    </div>
-                    <div className="col-span-3 flex items-center justify-center gap-2 text-center">
-                      {Icon && <Icon className={cn("h-4 w-4", iconClass)} />}
-                      <span className="text-muted-foreground">{label}</span>
-                    </div>
-                    <div className={cn(
-                      "flex items-center justify-end gap-2 font-medium",
-                      val1 !== undefined && val2 !== undefined && val2 > val1 && "text-green-600 dark:text-green-400"
-                    )}>
-                      <span>{val2 ?? "-"}</span>
-                      {getCompareIndicator(val2, val1)}
-                    </div>
-                  </div>
-                );
-              })}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Damage Mods Comparison */}
-        {(stats1?.damage_mods || stats2?.damage_mods) && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Damage Resistance Comparison</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2">
-                {["cold", "crushing", "explosive", "fire", "piercing"].map((elem) => {
-                  const val1 = stats1?.damage_mods?.[elem as keyof typeof stats1.damage_mods];
-                  const val2 = stats2?.damage_mods?.[elem as keyof typeof stats2.damage_mods];
-                  
-                  return (
-                    <div key={elem} className="grid grid-cols-5 items-center py-2 border-b last:border-0">
-                      <div className={cn(
-                        "font-medium",
-                        val1 !== undefined && val2 !== undefined && val1 < val2 && "text-green-600 dark:text-green-400"
-                      )}>
-                        {val1 !== undefined ? `${(val1 * 100).toFixed(0)}%` : "-"}
-                      </div>
-                      <div className="col-span-3 text-center text-muted-foreground capitalize">
-                        {elem}
-                      </div>
-                      <div className={cn(
-                        "text-right font-medium",
-                        val1 !== undefined && val2 !== undefined && val2 < val1 && "text-green-600 dark:text-green-400"
-                      )}>
-                        {val2 !== undefined ? `${(val2 * 100).toFixed(0)}%` : "-"}
-                      </div>
+        {entries.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground text-lg">Add units to start comparing.</p>
+          </div>
+        ) : (
+          <>
+            {/* Stats Comparison */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Stats Comparison</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Stat</TableHead>
+                      {columns.map(({ unit, unitId, rank }) => (
+                        <TableHead key={unitId} className="text-center">
+                          {t(unit.identity.short_name)} <span className="text-xs">(R{rank})</span>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {STAT_ROWS.filter(({ key }) => key !== "armor_hp" || hasArmor).map(({ label, key, higherIsBetter }) => (
+                      <ComparisonRow
+                        key={key}
+                        label={label}
+                        values={columns.map(({ stats }) => stats?.[key] as number | undefined)}
+                        higherIsBetter={higherIsBetter}
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Resistance Matrices */}
+            {[
+              { title: "Damage Resistance", mods: (stats?: UnitStats) => stats?.damage_mods, show: true },
+              { title: "Armor Resistance", mods: (stats?: UnitStats) => stats?.armor_damage_mods, show: hasArmor },
+            ].filter(({ show }) => show).map(({ title, mods }) => (
+              <Card key={title}>
+                <CardHeader>
+                  <CardTitle>{title}</CardTitle>
+                  <p className="text-sm text-muted-foreground">Damage taken from each type; lower is better</p>
+                </CardHeader>
+                <CardContent className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Damage Type</TableHead>
+                        {columns.map(({ unit, unitId }) => (
+                          <TableHead key={unitId} className="text-center">{t(unit.identity.short_name)}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {DAMAGE_TYPES.map(damageType => {
+                        const cells = columns.map(({ stats }) => formatModifier(mods(stats), damageType));
+                        const best = getBestIndexes(cells.map(c => c.value), false);
+                        return (
+                          <TableRow key={damageType}>
+                            <TableCell className="font-medium text-muted-foreground">{getDamageTypeName(damageType)}</TableCell>
+                            {cells.map((cell, i) => (
+                              <TableCell
+                                key={i}
+                                className={cn(
+                                  "text-center",
+                                  cell.value < 1 && "text-green-600 dark:text-green-400",
+                                  cell.value > 1 && "text-destructive",
+                                  best.has(i) && bestCellClass
+                                )}
+                              >
+                                {cell.label}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+
+            {/* Ability Damage */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Ability Damage</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Average damage including shots and crits, before the target's defense and resistances.
+                  Per turn spreads each use over its cooldown.
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Summary</TableHead>
+                        {columns.map(({ unit, unitId }) => (
+                          <TableHead key={unitId} className="text-center">{t(unit.identity.short_name)}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <ComparisonRow label="Best Damage / Turn" values={bestDamagePerTurn} higherIsBetter />
+                      <ComparisonRow label="Best Damage / Use" values={bestDamagePerUse} higherIsBetter />
+                      <ComparisonRow label="Max Range" values={maxRange} higherIsBetter />
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                  {columns.map(({ unit, unitId, rank }, index) => (
+                    <div key={unitId} className={cn("rounded-lg border p-3 space-y-2", topDamagePerTurn.has(index) && "border-green-500/50")}>
+                      <h4 className="font-medium">{t(unit.identity.name)} <span className="text-xs text-muted-foreground">(Rank {rank})</span></h4>
+                      {abilityDamage[index].length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No damaging abilities.</p>
+                      ) : (
+                        abilityDamage[index].map(ability => (
+                          <div key={`${ability.weaponName}-${ability.abilityId}`} className="text-sm space-y-0.5">
+                            <div className="flex items-baseline justify-between gap-2">
+                              <Link to={`/ability/${ability.abilityId}`} className="truncate hover:underline">
+                                {getAbilityName(ability.abilityId, t)}
+                              </Link>
+                              <span className={cn(
+                                "font-medium shrink-0",
+                                ability.damagePerTurn === bestDamagePerTurn[index] && "text-green-600 dark:text-green-400"
+                              )}>
+                                {ability.damagePerTurn}/turn
+                              </span>
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                              {getDamageTypeName(ability.damageType)} • {ability.minDamage}-{ability.maxDamage} • {ability.damagePerUse}/use
+                              • CD {ability.cooldown} • Range {ability.minRange}-{ability.maxRange} • Crit {ability.critChance}%
+                            </p>
+                          </div>
+                        ))
+                      )}
                     </div>
-                  );
-                })}
-              </div>
-            </CardContent>
-          </Card>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </>
         )}
-
-        {/* Quick Links */}
-        <div className="flex justify-center gap-4">
-          <Button asChild variant="outline">
-            <Link to={`/unit/${unit1.id}`}>View {t(unit1.identity.short_name)} Details</Link>
-          </Button>
-          <Button asChild variant="outline">
-            <Link to={`/unit/${unit2.id}`}>View {t(unit2.identity.short_name)} Details</Link>
-          </Button>
-        </div>
       </main>
     </div>
   );
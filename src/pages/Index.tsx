@@ -1,4 +1,5 @@
 import { useState, useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Header } from "@/components/Header";
 import { UnitFilters } from "@/components/units/UnitFilters";
 import { UnitGrid } from "@/components/units/UnitGrid";
@@ -8,16 +9,23 @@ import { allUnits, getAllTags, filterUnits } from "@/lib/units";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { EncounterLookup } from "@/components/encounters/EncounterLookup";
 import { BossStrikeLookup } from "@/components/bossStrikes/BossStrikeLookup";
-import { Users, Crosshair, Trophy } from "lucide-react";
+import { AbilityBrowser } from "@/components/abilities/AbilityBrowser";
+import { Badge } from "@/components/ui/badge";
+import { Users, Crosshair, Trophy, Swords, X } from "lucide-react";
 import { UnitSide } from "@/data/gameEnums";
 import { filterUnitsByAdvancedCriteria } from "@/lib/unitAbilityFilters";
+import { getStatusEffectDisplayName } from "@/lib/statusEffectData";
 
 const Index = () => {
   const { t } = useLanguage();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedTags, setSelectedTags] = useState<number[]>([]);
   const [nanopodFilter, setNanopodFilter] = useState<"all" | "nanopod" | "non-nanopod">("all");
-  const [mainTab, setMainTab] = useState("units");
+  // The tab and what it opens come from the URL so search results can link straight to them
+  const [searchParams, setSearchParams] = useSearchParams();
+  const mainTab = searchParams.get("tab") || "units";
+  const effectParam = searchParams.get("effect");
+  const inflictsStatusEffect = effectParam ? parseInt(effectParam) : null;
   
   // Advanced filters
   const [targetCategories, setTargetCategories] = useState<number[]>([]);
@@ -44,10 +52,11 @@ const Index = () => {
       damageTypes,
       hasStatusEffects: hasStatusEffects || undefined,
       vulnerableTo,
+      inflictsStatusEffect,
     });
     
     return units;
-  }, [searchQuery, selectedTags, nanopodFilter, targetCategories, damageTypes, hasStatusEffects, vulnerableTo, t]);
+  }, [searchQuery, selectedTags, nanopodFilter, targetCategories, damageTypes, hasStatusEffects, vulnerableTo, inflictsStatusEffect, t]);
 
   const unitsBySide = useMemo(() => ({
     player: filteredUnits.filter(u => u.identity.side === UnitSide.Player),
@@ -58,6 +67,18 @@ const Index = () => {
     test: filteredUnits.filter(u => u.identity.side === UnitSide.Test),
   }), [filteredUnits]);
 
+  const setMainTab = (tab: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set("tab", tab);
+    setSearchParams(next, { replace: true });
+  };
+
+  const clearEffectFilter = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete("effect");
+    setSearchParams(next, { replace: true });
+  };
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <Header />
@@ -68,6 +89,10 @@ const Index = () => {
               <Users className="h-4 w-4" />
               Units
             </TabsTrigger>
+            <TabsTrigger value="abilities" className="gap-2">
+              <Swords className="h-4 w-4" />
+              Abilities
+            </TabsTrigger>
             <TabsTrigger value="encounters" className="gap-2">
               <Crosshair className="h-4 w-4" />
               Encounters
@@ -104,8 +129,16 @@ const Index = () => {
               setVulnerableTo={setVulnerableTo}
             />
 
-            <div className="text-sm text-muted-foreground">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
               Showing {filteredUnits.length} of {allUnits.length} units
+              {inflictsStatusEffect !== null && (
+                <Badge variant="secondary" className="gap-1">
+                  Inflicts {getStatusEffectDisplayName(inflictsStatusEffect)}
+                  <button type="button" onClick={clearEffectFilter} aria-label="Clear status effect filter">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              )}
             </div>
 
             <Tabs defaultValue="player" className="w-full">
@@ -158,6 +191,16 @@ const Index = () => {
             </Tabs>
           </TabsContent>
 
+          <TabsContent value="abilities" className="space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Ability Browser</h1>
+              <p className="text-muted-foreground">
+                Filter every ability by damage, line of fire, range, targets, status effects and area. Click any ability to view details.
+              </p>
+            </div>
+            <AbilityBrowser />
+          </TabsContent>
+
           <TabsContent value="encounters" className="space-y-6">
             <div>
               <h1 className="text-3xl font-bold mb-2">Encounter Viewer</h1>
@@ -165,7 +208,7 @@ const Index = () => {
                 Search and visualize battle encounters with their unit grids.
               </p>
             </div>
-            <EncounterLookup />
+            <EncounterLookup initialEncounterId={searchParams.get("encounter")} />
           </TabsContent>
 
           <TabsContent value="boss-strikes" className="space-y-6">
@@ -175,7 +218,10 @@ const Index = () => {
                 View boss strike tiers, rewards, encounters, and guild weight scaling.
               </p>
             </div>
-            <BossStrikeLookup />
+            <BossStrikeLookup
+              initialBossStrikeId={searchParams.get("bossStrike")}
+              initialArchived={searchParams.get("archived") === "1"}
+            />
           </TabsContent>
         </Tabs>
       </main>
@@ -1,9 +1,19 @@
-import { useState, useEffect, useRef, useMemo } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { useParams, useNavigate, useLocation } from "react-router-dom";
-import { ArrowLeft, Play, SkipForward, RotateCcw, Swords, Trophy, Skull } from "lucide-react";
+import { ArrowLeft, Play, SkipForward, RotateCcw, Swords, Trophy, Skull, Copy, Dices, Undo2, Redo2, Upload, Download, Film, Lightbulb } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Header } from "@/components/Header";
 import { LiveBattleGrid } from "@/components/battle/LiveBattleGrid";
 import { BattleGrid } from "@/components/battle/BattleGrid";
@@ -12,13 +22,28 @@ import { BattleLog } from "@/components/battle/BattleLog";
 import { UnitSelector } from "@/components/battle/UnitSelector";
 import { PartyManager } from "@/components/battle/PartyManager";
 import { UnitInfoPanel } from "@/components/battle/UnitInfoPanel";
+import { ReplayControls } from "@/components/battle/ReplayControls";
+import { WinRateSimulator } from "@/components/battle/WinRateSimulator";
+import { FormationOptimizer } from "@/components/battle/FormationOptimizer";
+import { RedeployPanel } from "@/components/battle/RedeployPanel";
+import { MoveSuggestions } from "@/components/battle/MoveSuggestions";
+import { WallNote } from "@/components/battle/WallNote";
+import { isGridCellOpen } from "@/types/battleSimulator";
 import type { PartyUnit } from "@/types/battleSimulator";
+import type { RedeployMove } from "@/types/liveBattle";
 import { useParties } from "@/hooks/useParties";
 import { useTempFormation } from "@/hooks/useTempFormation";
 import { useLiveBattle } from "@/hooks/useLiveBattle";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { getBattleLayout } from "@/lib/battleConfig";
 import { getEncounterById, getEncounterWaves } from "@/lib/encounters";
 import { getUnitById } from "@/lib/units";
+import { generateSeed, parseSeed } from "@/lib/battleRng";
+import { ENEMY_AI_STRATEGIES, getEncounterEnemyAi } from "@/lib/enemyAi";
+import type { EnemyAiTypeId } from "@/lib/enemyAi";
+import { parseBattleReplay, serializeBattleReplay, getReplayFilename } from "@/lib/battleReplay";
+import type { BattleReplay } from "@/lib/battleReplay";
+import type { MoveSuggestion } from "@/lib/battlePlanner";
 import { UnitImage } from "@/components/units/UnitImage";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
@@ -35,14 +60,39 @@ interface KillFeedEntry {
   statusEffectName?: string; // Name of the status effect that killed
 }
 
+// Number of moves the turn planner suggests
+const SUGGESTION_COUNT = 3;
+
+// Enemy AI picker value that follows the encounter's own AI type
+const ENCOUNTER_ENEMY_AI = "encounter";
+
+// Router state passed when navigating to this page
+interface LiveBattleLocationState {
+  formation?: PartyUnit[];
+  from?: string;
+  // Replay file opened on another encounter's page
+  replay?: BattleReplay;
+}
+
 const LiveBattleSimulator = () => {
   const { encounterId } = useParams();
   const navigate = useNavigate();
   const location = useLocation();
+  const locationState = location.state as LiveBattleLocationState | null;
   const { t } = useLanguage();
 
   const encounter = encounterId ? getEncounterById(parseInt(encounterId)) : null;
   const waves = encounter ? getEncounterWaves(encounter) : [];
+  // Battlefield layout (unavailable cells and defender wall) for the encounter
+  const battleLayout = useMemo(
+    () => getBattleLayout(encounter?.layout_id, encounter?.is_player_attacker !== false),
+    [encounter?.layout_id, encounter?.is_player_attacker]
+  );
+
+  // How enemies pick their actions - the encounter's AI type unless the player overrides it
+  const encounterEnemyAi = getEncounterEnemyAi(encounter);
+  const [enemyAiOverride, setEnemyAiOverride] = useState<EnemyAiTypeId | null>(null);
+  const enemyAi = enemyAiOverride ?? encounterEnemyAi;
 
   const {
     parties,
@@ -55,12 +105,30 @@ const LiveBattleSimulator = () => {
     renameParty,
   } = useParties();
   // Load formation from battle simulator if passed via state
-  const initialFormation = (location.state as any)?.formation as PartyUnit[] | undefined;
+  const initialFormation = locationState?.formation;
   
   const tempFormation = useTempFormation({ encounter, initialUnits: initialFormation });
 
+  // Formation units on cells this layout doesn't have - the battle can't start until they're moved
+  const closedCellUnits = tempFormation.units.filter(u => !isGridCellOpen(battleLayout.friendly, u.gridId));
+
+  // Selected party units left out of the formation, matched by unit id so duplicates count separately
+  // These are the reinforcements available between waves
+  const partyReserve = useMemo(() => {
+    if (!selectedParty) return [];
+    const fielded = tempFormation.units.map(u => u.unitId);
+    return selectedParty.units.filter(u => {
+      const index = fielded.indexOf(u.unitId);
+      if (index === -1) return true;
+      fielded.splice(index, 1);
+      return false;
+    });
+  }, [selectedParty, tempFormation.units]);
+
   const {
     battleState,
+    battleEnemyAi,
+    reserveUnits,
     selectedUnit,
     selectedUnitGridId,
     selectedUnitIsEnemy,
@@ -78,8 +146,24 @@ const LiveBattleSimulator = () => {
     playerTurnStartProcessed,
     executeEnemyTurn,
     advanceWave,
+    redeployAndAdvanceWave,
+    unitLimit,
     skipTurn,
     checkWaveAdvance,
+    getMoveSuggestions,
+    executeSuggestedMove,
+    history,
+    undoMove,
+    redoMove,
+    canUndoMove,
+    canRedoMove,
+    rewindToTurn,
+    createReplay,
+    loadReplay,
+    replayPlayback,
+    seekReplay,
+    setReplayPlaying,
+    exitReplay,
     damagePreviews,
     enemyReticleGridId,
     setEnemyReticleGridId,
@@ -90,20 +174,113 @@ const LiveBattleSimulator = () => {
     encounter,
     waves,
     friendlyParty: tempFormation.units,
+    enemyAi,
+    reserve: partyReserve,
   });
 
-  const backPath = (location.state as any)?.from || `/battle/${encounterId}`;
+  const backPath = locationState?.from || `/battle/${encounterId}`;
+
+  // RNG seed input - empty means a fresh random seed for each battle
+  const [seedInput, setSeedInput] = useState("");
+
+  // Pause between waves to rearrange survivors and bring in reserves
+  const [redeployBetweenWaves, setRedeployBetweenWaves] = useState(false);
+
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
+
+  // Turn planner suggestions for the current position - null when the panel is closed
+  const [moveSuggestions, setMoveSuggestions] = useState<MoveSuggestion[] | null>(null);
+  const [hoveredSuggestionIndex, setHoveredSuggestionIndex] = useState<number | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+
+  // Suggestions only apply to the position they were computed for
+  useEffect(() => {
+    setMoveSuggestions(null);
+    setHoveredSuggestionIndex(null);
+  }, [battleState]);
+
+  const handleSuggestMoves = async () => {
+    setIsSuggesting(true);
+    const suggestions = await getMoveSuggestions(SUGGESTION_COUNT, unitId => {
+      const unitData = getUnitById(unitId);
+      return unitData ? t(unitData.identity.name) : `Unit ${unitId}`;
+    });
+    setIsSuggesting(false);
+    // null when the battle moved on while planning
+    if (suggestions) setMoveSuggestions(suggestions);
+  };
+
+  const startReplay = useCallback((replay: BattleReplay) => {
+    const error = loadReplay(replay);
+    if (error) {
+      toast.error(error);
+    } else {
+      toast.success(`Replay loaded (${replay.moves.length} moves)`);
+    }
+  }, [loadReplay]);
+
+  // Replays for another encounter are opened on that encounter's page
+  const pendingReplay = locationState?.replay;
+  useEffect(() => {
+    if (!pendingReplay || !encounter) return;
+    startReplay(pendingReplay);
+    navigate(location.pathname, { replace: true, state: { ...locationState, replay: undefined } });
+  }, [pendingReplay, encounter, startReplay, navigate, location.pathname, locationState]);
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (replayFileInputRef.current) replayFileInputRef.current.value = "";
+    if (!file) return;
+
+    const { replay, error } = parseBattleReplay(await file.text());
+    if (!replay) {
+      toast.error(error || "Invalid replay file");
+      return;
+    }
+
+    if (String(replay.encounterId) !== encounterId) {
+      if (!getEncounterById(replay.encounterId)) {
+        toast.error(`Replay is for unknown encounter ${replay.encounterId}`);
+        return;
+      }
+      navigate(`/live-battle/${replay.encounterId}`, { state: { ...locationState, replay } });
+      return;
+    }
+    startReplay(replay);
+  };
+
+  const handleExportReplay = () => {
+    const replay = createReplay(parseInt(encounterId || "0"));
+    if (!replay) return;
+    const blob = new Blob([serializeBattleReplay(replay)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = getReplayFilename(replay);
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success("Replay saved");
+  };
+
+  const isRedeployPhase = !!battleState && redeployBetweenWaves && !replayPlayback && checkWaveAdvance();
+
+  const handleRedeploy = (moves: RedeployMove[], reinforcements: PartyUnit[]) => {
+    if (!battleState) return;
+    if (redeployAndAdvanceWave(moves, reinforcements)) {
+      toast.success(`Wave ${battleState.currentWave + 2} begins!`);
+    }
+  };
 
   // Auto-advance wave when all enemies are dead
   useEffect(() => {
-    if (battleState && checkWaveAdvance() && !isProcessing) {
+    if (battleState && checkWaveAdvance() && !isProcessing && !isRedeployPhase) {
       const timer = setTimeout(() => {
         advanceWave();
         toast.success(`Wave ${battleState.currentWave + 2} begins!`);
       }, 1000);
       return () => clearTimeout(timer);
     }
-  }, [battleState?.enemyUnits, checkWaveAdvance, advanceWave, isProcessing]);
+  }, [battleState?.enemyUnits, checkWaveAdvance, advanceWave, isProcessing, isRedeployPhase]);
 
   // Auto-execute player turn start when it becomes player's turn
   useEffect(() => {
@@ -149,10 +326,49 @@ const LiveBattleSimulator = () => {
       toast.error("Add units to your party first");
       return;
     }
-    startBattle();
+    if (closedCellUnits.length > 0) {
+      toast.error("Move units off the cells this battlefield doesn't have first");
+      return;
+    }
+    let seed: number | undefined;
+    if (seedInput.trim()) {
+      const parsedSeed = parseSeed(seedInput);
+      if (parsedSeed === null) {
+        toast.error("Invalid seed - use a whole number between 0 and 4294967295");
+        return;
+      }
+      seed = parsedSeed;
+    }
+    startBattle(seed);
     toast.success("Battle started!");
   };
 
+  // Restart with the current battle's seed to replay the exact same rolls
+  const handleReplaySeed = () => {
+    if (!battleState) return;
+    setSeedInput(String(battleState.rngSeed));
+    startBattle(battleState.rngSeed);
+    toast.success(`Battle restarted with seed ${battleState.rngSeed}`);
+  };
+
+  const handleCopySeed = async () => {
+    if (!battleState) return;
+    try {
+      await navigator.clipboard.writeText(String(battleState.rngSeed));
+      toast.success("Seed copied to clipboard");
+    } catch {
+      toast.error("Could not copy seed");
+    }
+  };
+
+  const handleRewindToTurn = (turnIndex: number) => {
+    if (rewindToTurn(turnIndex)) {
+      toast.success(`Rewound to before turn ${battleState?.battleLog[turnIndex]?.turnNumber ?? turnIndex + 1}`);
+    } else {
+      toast.error("That turn is too far back to rewind");
+    }
+  };
+
   const handleTargetClick = (unit: { gridId: number }) => {
     if (!battleState?.isPlayerTurn || !selectedAbility) return;
     
@@ -189,6 +405,11 @@ const LiveBattleSimulator = () => {
     targets: lastActionGridIds.targetsAreEnemies ? [] : lastActionGridIds.targets,
   } : undefined;
 
+  // Highlight the suggestion being hovered in the planner
+  const hoveredSuggestion = hoveredSuggestionIndex !== null ? moveSuggestions?.[hoveredSuggestionIndex] : undefined;
+  const enemySuggestedGridIds = hoveredSuggestion ? { targets: hoveredSuggestion.affectedGridIds } : undefined;
+  const friendlySuggestedGridIds = hoveredSuggestion ? { attacker: hoveredSuggestion.command.attackerGridId } : undefined;
+
   // Get last attack info for summary display
   const lastAttackAction = lastTurn?.actions.find(a => a.type === 'attack' || a.type === 'status_tick');
   const lastAttackInfo = lastAttackAction ? {
@@ -213,9 +434,16 @@ const LiveBattleSimulator = () => {
   const [killFeed, setKillFeed] = useState<KillFeedEntry[]>([]);
   const killFeedIdRef = useRef(0);
 
+  // Battle log length last seen by the death tracker - rewinding shortens the log
+  const seenLogLengthRef = useRef(0);
+
   // Track deaths from battle log
   useEffect(() => {
-    if (!battleState?.battleLog.length) return;
+    const logLength = battleState?.battleLog.length ?? 0;
+    const isNewTurn = logLength > seenLogLengthRef.current;
+    seenLogLengthRef.current = logLength;
+    // Only react to newly logged turns, not to turns restored by undo/rewind
+    if (!battleState || !isNewTurn) return;
     
     const lastTurnData = battleState.battleLog[battleState.battleLog.length - 1];
     const deathActions = lastTurnData.actions.filter(a => a.type === 'death');
@@ -234,10 +462,9 @@ const LiveBattleSimulator = () => {
             newFriendlyDeadIds.add(action.targetGridId);
           }
           
-          // Find victim unit info
-          const victimUnit = lastTurnData.isPlayerTurn
-            ? battleState.enemyUnits.find(u => u.gridId === action.targetGridId)
-            : battleState.friendlyUnits.find(u => u.gridId === action.targetGridId);
+          // Find victim unit info (a unit spawned on death may have taken the slot since)
+          const victimUnit = [...battleState.enemyUnits, ...battleState.friendlyUnits]
+            .find(u => u.instanceId === action.targetInstanceId);
           
           const victimData = victimUnit ? getUnitById(victimUnit.unitId) : null;
           
@@ -323,11 +550,29 @@ const LiveBattleSimulator = () => {
               >
                 {battleState.isPlayerTurn ? "Your Turn" : "Enemy Turn"}
               </Badge>
+              <Badge variant="outline" className="text-sm" title={ENEMY_AI_STRATEGIES[battleEnemyAi].description}>
+                Enemy AI: {ENEMY_AI_STRATEGIES[battleEnemyAi].label}
+              </Badge>
+              {replayPlayback && (
+                <Badge variant="secondary" className="text-sm">
+                  <Film className="h-3 w-3 mr-1" />
+                  Replay
+                </Badge>
+              )}
               {battleState.totalWaves > 1 && (
                 <Badge variant="secondary">
                   Wave {battleState.currentWave + 1}/{battleState.totalWaves}
                 </Badge>
               )}
+              <Badge
+                variant="outline"
+                className="font-mono cursor-pointer"
+                onClick={handleCopySeed}
+                title="Copy seed"
+              >
+                Seed {battleState.rngSeed}
+                <Copy className="h-3 w-3 ml-1" />
+              </Badge>
             </div>
           )}
         </div>
@@ -395,7 +640,9 @@ const LiveBattleSimulator = () => {
                   selectedUnit={null}
                   onUnitClick={() => {}}
                   damagePreviews={[]}
+                  gridShape={battleLayout.enemy}
                 />
+                <WallNote gridShape={battleLayout.enemy} isEnemy={true} />
 
                 <div className="border-t my-4" />
 
@@ -411,17 +658,147 @@ const LiveBattleSimulator = () => {
                   damagePreviews={[]}
                   onMoveUnit={tempFormation.moveUnit}
                   onRemoveUnit={tempFormation.removeUnit}
+                  gridShape={battleLayout.friendly}
                 />
+                <WallNote gridShape={battleLayout.friendly} isEnemy={false} />
+                {closedCellUnits.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    {closedCellUnits.length} unit{closedCellUnits.length === 1 ? " stands" : "s stand"} on cells this battlefield doesn't have.
+                    Move {closedCellUnits.length === 1 ? "it" : "them"} to an open cell to start the battle.
+                  </p>
+                )}
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="battle-seed" className="text-sm">Seed (optional)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="battle-seed"
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                      placeholder="Random"
+                      className="font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      onClick={() => setSeedInput(String(generateSeed()))}
+                      title="Generate random seed"
+                    >
+                      <Dices className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    The same seed, party and encounter always produce the same battle.
+                  </p>
+                </div>
+
+                <div className="space-y-1.5">
+                  <Label htmlFor="enemy-ai" className="text-sm">Enemy AI</Label>
+                  <Select
+                    value={enemyAiOverride ?? ENCOUNTER_ENEMY_AI}
+                    onValueChange={(v) => setEnemyAiOverride(v === ENCOUNTER_ENEMY_AI ? null : v as EnemyAiTypeId)}
+                  >
+                    <SelectTrigger id="enemy-ai">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ENCOUNTER_ENEMY_AI}>
+                        Encounter default ({ENEMY_AI_STRATEGIES[encounterEnemyAi].label})
+                      </SelectItem>
+                      {(Object.keys(ENEMY_AI_STRATEGIES) as EnemyAiTypeId[]).map(id => (
+                        <SelectItem key={id} value={id}>
+                          {ENEMY_AI_STRATEGIES[id].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {ENEMY_AI_STRATEGIES[enemyAi].description}. Also used by the win rate simulator and formation optimizer.
+                  </p>
+                </div>
+
+                {waves.length > 1 && (
+                  <div className="flex items-center justify-between gap-2">
+                    <div>
+                      <Label htmlFor="redeploy-between-waves" className="text-sm">Redeploy between waves</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Rearrange survivors and deploy reserves from the selected party before each new wave.
+                      </p>
+                    </div>
+                    <Switch
+                      id="redeploy-between-waves"
+                      checked={redeployBetweenWaves}
+                      onCheckedChange={setRedeployBetweenWaves}
+                    />
+                  </div>
+                )}
 
                 <Button
                   className="w-full"
                   size="lg"
                   onClick={handleStartBattle}
-                  disabled={tempFormation.units.length === 0}
+                  disabled={tempFormation.units.length === 0 || closedCellUnits.length > 0}
                 >
                   <Play className="h-5 w-5 mr-2" />
                   Start Battle
                 </Button>
+
+                <input
+                  ref={replayFileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={handleReplayFile}
+                  className="hidden"
+                />
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => replayFileInputRef.current?.click()}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Load Replay
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Automated win-rate simulation */}
+            <Card className="md:col-span-3">
+              <CardHeader>
+                <CardTitle className="text-lg">Win Rate Simulator</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <WinRateSimulator
+                  party={tempFormation.units}
+                  encounter={encounter}
+                  waves={waves}
+                  seed={parseSeed(seedInput)}
+                  enemyAi={enemyAi}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Search for the best formations from the available units */}
+            <Card className="md:col-span-3">
+              <CardHeader>
+                <CardTitle className="text-lg">Formation Optimizer</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <FormationOptimizer
+                  parties={parties}
+                  formation={tempFormation.units}
+                  encounter={encounter}
+                  waves={waves}
+                  seed={parseSeed(seedInput)}
+                  enemyAi={enemyAi}
+                  onUseFormation={(units) => {
+                    tempFormation.loadFromParty(units);
+                    toast.success("Formation loaded");
+                  }}
+                  onSaveParty={(party) => {
+                    updateParty(party);
+                    setSelectedPartyId(party.id);
+                  }}
+                />
               </CardContent>
             </Card>
           </div>
@@ -536,6 +913,19 @@ const LiveBattleSimulator = () => {
               </div>
             )}
 
+            {/* Between-wave redeployment */}
+            {isRedeployPhase && (
+              <RedeployPanel
+                key={battleState.currentWave}
+                units={battleState.friendlyUnits}
+                reserveUnits={reserveUnits}
+                unitLimit={unitLimit}
+                gridShape={battleState.layout.friendly}
+                nextWave={battleState.currentWave + 2}
+                onConfirm={handleRedeploy}
+              />
+            )}
+
             {/* Battle grids and controls */}
             <div className="grid lg:grid-cols-3 gap-6">
               {/* Main battle area */}
@@ -554,6 +944,7 @@ const LiveBattleSimulator = () => {
                   }}
                   highlightedGridIds={battleState.isPlayerTurn && selectedAbility ? highlightedGridIds : undefined}
                   lastActionGridIds={enemyLastActionGridIds}
+                  suggestedGridIds={enemySuggestedGridIds}
                   damagePreviews={damagePreviews}
                   reticleGridId={enemyReticleGridId}
                   onReticleMove={setEnemyReticleGridId}
@@ -572,7 +963,9 @@ const LiveBattleSimulator = () => {
                   attackAnimationTrigger={attackAnimationTrigger}
                   recentlyDeadGridIds={recentlyDeadGridIds.enemy}
                   collapsedRows={battleState.enemyCollapsedRows}
+                  gridShape={battleState.layout.enemy}
                 />
+                <WallNote gridShape={battleState.layout.enemy} isEnemy={true} />
 
                 {/* Unit info and ability selector */}
                 <div className="border-y py-4">
@@ -590,7 +983,7 @@ const LiveBattleSimulator = () => {
                           {selectedUnit.maxArmor > 0 && ` | Armor: ${selectedUnit.currentArmor}/${selectedUnit.maxArmor}`}
                         </p>
                       </div>
-                      {!selectedUnit.isEnemy && battleState.isPlayerTurn && (
+                      {!selectedUnit.isEnemy && battleState.isPlayerTurn && !replayPlayback && (
                         <LiveAbilitySelector
                           abilities={allAbilities}
                           selectedAbilityId={selectedAbilityId}
@@ -624,11 +1017,14 @@ const LiveBattleSimulator = () => {
                     }
                   }}
                   lastActionGridIds={friendlyLastActionGridIds}
+                  suggestedGridIds={friendlySuggestedGridIds}
                   damagePreviews={[]}
                   attackAnimationTrigger={attackAnimationTrigger}
                   recentlyDeadGridIds={recentlyDeadGridIds.friendly}
                   collapsedRows={battleState.friendlyCollapsedRows}
+                  gridShape={battleState.layout.friendly}
                 />
+                <WallNote gridShape={battleState.layout.friendly} isEnemy={false} />
               </div>
 
               {/* Side panel */}
@@ -648,36 +1044,112 @@ const LiveBattleSimulator = () => {
                   />
                 )}
 
-                {/* Controls */}
-                <Card>
-                  <CardHeader className="py-3">
-                    <CardTitle className="text-sm">Controls</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-2">
-                    <Button
-                      variant="outline"
-                      className="w-full"
-                      onClick={skipTurn}
-                      disabled={!battleState.isPlayerTurn || battleState.isBattleOver || isProcessing}
-                    >
-                      <SkipForward className="h-4 w-4 mr-2" />
-                      Skip Turn
-                    </Button>
-                    <Button
-                      variant="outline"
-                      className="w-full"
-                      onClick={handleStartBattle}
-                    >
-                      <RotateCcw className="h-4 w-4 mr-2" />
-                      Restart Battle
-                    </Button>
-                  </CardContent>
-                </Card>
+                {/* Replay playback or battle controls */}
+                {replayPlayback ? (
+                  <ReplayControls
+                    frameIndex={replayPlayback.frameIndex}
+                    frameCount={replayPlayback.frames.length}
+                    isPlaying={replayPlayback.isPlaying}
+                    command={replayPlayback.frames[replayPlayback.frameIndex].command}
+                    moveCount={replayPlayback.replay.moves.length}
+                    seed={replayPlayback.replay.seed}
+                    onSeek={seekReplay}
+                    onPlayingChange={setReplayPlaying}
+                    onContinue={() => exitReplay(true)}
+                    onClose={() => exitReplay(false)}
+                  />
+                ) : (
+                  <Card>
+                    <CardHeader className="py-3">
+                      <CardTitle className="text-sm">Controls</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={skipTurn}
+                        disabled={!battleState.isPlayerTurn || battleState.isBattleOver || isProcessing}
+                      >
+                        <SkipForward className="h-4 w-4 mr-2" />
+                        Skip Turn
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={handleSuggestMoves}
+                        disabled={!battleState.isPlayerTurn || battleState.isBattleOver || isProcessing || !playerTurnStartProcessed || isSuggesting}
+                        title="Rank your available attacks by expected outcome"
+                      >
+                        <Lightbulb className="h-4 w-4 mr-2" />
+                        {isSuggesting ? "Planning..." : "Suggest Move"}
+                      </Button>
+                      <div className="grid grid-cols-2 gap-2">
+                        <Button
+                          variant="outline"
+                          onClick={undoMove}
+                          disabled={!canUndoMove}
+                          title="Undo your last move"
+                        >
+                          <Undo2 className="h-4 w-4 mr-2" />
+                          Undo
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={redoMove}
+                          disabled={!canRedoMove}
+                          title="Redo an undone move"
+                        >
+                          <Redo2 className="h-4 w-4 mr-2" />
+                          Redo
+                        </Button>
+                      </div>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={handleStartBattle}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restart Battle
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={handleReplaySeed}
+                      >
+                        <Dices className="h-4 w-4 mr-2" />
+                        Restart With Same Seed
+                      </Button>
+                      <Button
+                        variant="outline"
+                        className="w-full"
+                        onClick={handleExportReplay}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        Save Replay
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+
+                {/* Turn planner suggestions */}
+                {moveSuggestions && !replayPlayback && (
+                  <MoveSuggestions
+                    suggestions={moveSuggestions}
+                    units={battleState.friendlyUnits}
+                    hoveredIndex={hoveredSuggestionIndex}
+                    onHover={setHoveredSuggestionIndex}
+                    onUse={executeSuggestedMove}
+                    onClose={() => setMoveSuggestions(null)}
+                    disabled={!battleState.isPlayerTurn || isProcessing}
+                  />
+                )}
 
                 {/* Battle log */}
                 <BattleLog
                   turns={battleState.battleLog}
                   currentTurn={battleState.currentTurn}
+                  onRewindToTurn={handleRewindToTurn}
+                  earliestRewindableTurn={history?.checkpoints[0]?.logLength ?? 0}
                 />
               </div>
             </div>
@@ -0,0 +1,308 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useLocation, useSearchParams } from "react-router-dom";
+import { ArrowLeft, ArrowRight, GitCompare, Search } from "lucide-react";
+import { Header } from "@/components/Header";
+import { EncounterViewer } from "@/components/encounters/EncounterViewer";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useGameData } from "@/hooks/useGameData";
+import { useLanguage } from "@/contexts/LanguageContext";
+import type { GameDataFiles } from "@/lib/gameData";
+import { diffGameData } from "@/lib/gameDataDiff";
+import type { DiffStatus, FieldChange, GameDataDiff } from "@/lib/gameDataDiff";
+import { BUNDLED_VERSION_ID, loadVersionGameData } from "@/lib/gameDataVersions";
+import { cn } from "@/lib/utils";
+
+const STATUS_STYLES: Record<DiffStatus, { label: string; className: string }> = {
+  added: { label: "New", className: "bg-green-500/20 text-green-700 dark:text-green-300 border-green-500/50" },
+  removed: { label: "Removed", className: "bg-red-500/20 text-red-700 dark:text-red-300 border-red-500/50" },
+  changed: { label: "Changed", className: "bg-yellow-500/20 text-yellow-700 dark:text-yellow-300 border-yellow-500/50" },
+};
+
+function StatusBadge({ status }: { status: DiffStatus }) {
+  return (
+    <Badge variant="outline" className={cn("text-xs", STATUS_STYLES[status].className)}>
+      {STATUS_STYLES[status].label}
+    </Badge>
+  );
+}
+
+function ChangeList({ changes }: { changes: FieldChange[] }) {
+  return (
+    <div className="grid grid-cols-[minmax(120px,auto)_1fr] gap-x-4 gap-y-0.5 text-sm">
+      {changes.map(change => (
+        <div key={change.field} className="contents">
+          <span className="text-muted-foreground">{change.field}</span>
+          <span className="flex flex-wrap items-center gap-1 font-mono text-xs">
+            <span className="text-red-600 dark:text-red-400">{change.before}</span>
+            <ArrowRight className="h-3 w-3 text-muted-foreground shrink-0" />
+            <span className="text-green-600 dark:text-green-400">{change.after}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function EmptyState({ children }: { children: string }) {
+  return <p className="text-sm text-muted-foreground py-8 text-center">{children}</p>;
+}
+
+export default function PatchDiff() {
+  const { t } = useLanguage();
+  const location = useLocation();
+  const { versions, activeVersion } = useGameData();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [diff, setDiff] = useState<GameDataDiff | null>(null);
+  const [dataAfter, setDataAfter] = useState<GameDataFiles | null>(null);
+  const [dataBefore, setDataBefore] = useState<GameDataFiles | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedEncounterId, setExpandedEncounterId] = useState<string | null>(null);
+
+  // Default to the bundled data against the active version, or the newest import if the bundled one is active
+  const defaultTo = activeVersion.id !== BUNDLED_VERSION_ID
+    ? activeVersion.id
+    : versions[versions.length - 1].id;
+  const fromId = searchParams.get("from") || BUNDLED_VERSION_ID;
+  const toId = searchParams.get("to") || defaultTo;
+
+  const setVersionParam = (key: "from" | "to", id: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set(key, id);
+    setSearchParams(next, { replace: true });
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [before, after] = await Promise.all([loadVersionGameData(fromId), loadVersionGameData(toId)]);
+        if (cancelled) return;
+        if (!before || !after) {
+          setError("One of the selected data versions no longer exists.");
+          setDiff(null);
+          return;
+        }
+        setDataBefore(before);
+        setDataAfter(after);
+        setDiff(diffGameData(before, after));
+      } catch (err) {
+        console.error("Failed to diff data versions:", err);
+        if (!cancelled) setError("Failed to load the selected data versions.");
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [fromId, toId]);
+
+  const filtered = useMemo(() => {
+    if (!diff) return null;
+    const query = searchQuery.toLowerCase();
+    const matches = (id: string | number, name?: string) =>
+      !query || String(id).includes(query) || (name ? t(name).toLowerCase().includes(query) : false);
+    return {
+      units: diff.units.filter(u => matches(u.unitId, u.name)),
+      abilities: diff.abilities.filter(a => matches(a.abilityId, a.name)),
+      encounters: diff.encounters.filter(e => matches(e.encounterId, e.name)),
+      bossStrikes: diff.bossStrikes.filter(b => matches(b.bossStrikeId, b.name)),
+    };
+  }, [diff, searchQuery, t]);
+
+  const backPath = `${location.pathname}${location.search}`;
+  const linkState = { from: backPath, fromLabel: "Back to Patch Diff" };
+  const versionName = (id: string) => versions.find(v => v.id === id)?.name ?? id;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <GitCompare className="h-6 w-6" />
+              Patch Diff
+            </h1>
+            <p className="text-muted-foreground">Balance changes between two game data versions</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6 flex flex-wrap items-end gap-3">
+            {(["from", "to"] as const).map(key => (
+              <div key={key} className="space-y-1.5">
+                <div className="text-sm font-medium">{key === "from" ? "Old Version" : "New Version"}</div>
+                <Select value={key === "from" ? fromId : toId} onValueChange={(id) => setVersionParam(key, id)}>
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.id} value={version.id}>
+                        {version.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Filter by name or ID..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {versions.length < 2 && (
+          <p className="text-sm text-muted-foreground">
+            Only the bundled data is available. Import another version from the data version menu in the header to compare patches.
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {isLoading && <p className="text-sm text-muted-foreground">Comparing {versionName(fromId)} with {versionName(toId)}...</p>}
+
+        {!isLoading && filtered && (
+          <Tabs defaultValue="units">
+            <TabsList className="flex flex-wrap h-auto gap-1">
+              <TabsTrigger value="units">Units ({filtered.units.length})</TabsTrigger>
+              <TabsTrigger value="abilities">Abilities ({filtered.abilities.length})</TabsTrigger>
+              <TabsTrigger value="encounters">Encounters ({filtered.encounters.length})</TabsTrigger>
+              <TabsTrigger value="boss-strikes">Boss Strikes ({filtered.bossStrikes.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="units" className="space-y-3 mt-4">
+              {filtered.units.length === 0 && <EmptyState>No unit changes.</EmptyState>}
+              {filtered.units.map(unit => (
+                <Card key={unit.unitId}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      {unit.status === "removed" ? (
+                        <span>{unit.name ? t(unit.name) : `Unit ${unit.unitId}`}</span>
+                      ) : (
+                        <Link to={`/unit/${unit.unitId}`} state={linkState} className="hover:underline">
+                          {unit.name ? t(unit.name) : `Unit ${unit.unitId}`}
+                        </Link>
+                      )}
+                      <span className="text-xs text-muted-foreground font-normal">ID: {unit.unitId}</span>
+                      <StatusBadge status={unit.status} />
+                    </CardTitle>
+                  </CardHeader>
+                  {(unit.changes.length > 0 || unit.ranks.length > 0) && (
+                    <CardContent className="space-y-3">
+                      {unit.changes.length > 0 && <ChangeList changes={unit.changes} />}
+                      {unit.ranks.map(rank => (
+                        <div key={rank.rank} className="space-y-1">
+                          <div className="text-xs font-semibold uppercase text-muted-foreground">Rank {rank.rank}</div>
+                          <ChangeList changes={rank.changes} />
+                        </div>
+                      ))}
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="abilities" className="space-y-3 mt-4">
+              {filtered.abilities.length === 0 && <EmptyState>No ability changes.</EmptyState>}
+              {filtered.abilities.map(ability => (
+                <Card key={ability.abilityId}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <span>{ability.name ? t(ability.name) : `Ability ${ability.abilityId}`}</span>
+                      <span className="text-xs text-muted-foreground font-normal">ID: {ability.abilityId}</span>
+                      <StatusBadge status={ability.status} />
+                    </CardTitle>
+                  </CardHeader>
+                  {ability.changes.length > 0 && (
+                    <CardContent>
+                      <ChangeList changes={ability.changes} />
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="encounters" className="space-y-2 mt-4">
+              {filtered.encounters.length === 0 && <EmptyState>No encounters were added or removed.</EmptyState>}
+              {filtered.encounters.map(entry => {
+                const isExpanded = expandedEncounterId === entry.encounterId;
+                const encounter = (entry.status === "added" ? dataAfter : dataBefore)?.encounters.armies[entry.encounterId];
+                return (
+                  <div key={entry.encounterId} className="space-y-2">
+                    <button
+                      className="w-full flex items-center gap-2 rounded-md border p-3 text-left hover:bg-muted transition-colors"
+                      onClick={() => setExpandedEncounterId(isExpanded ? null : entry.encounterId)}
+                    >
+                      <span className="font-medium">{entry.name ? t(entry.name) : `Encounter ${entry.encounterId}`}</span>
+                      <span className="text-xs text-muted-foreground">ID: {entry.encounterId}</span>
+                      {entry.level !== undefined && <span className="text-xs text-muted-foreground">Level {entry.level}</span>}
+                      <span className="text-xs text-muted-foreground">{entry.enemies} enemies</span>
+                      <span className="ml-auto"><StatusBadge status={entry.status} /></span>
+                    </button>
+                    {isExpanded && encounter && (
+                      <EncounterViewer
+                        encounter={encounter}
+                        encounterId={entry.encounterId}
+                        backPath={backPath}
+                        backLabel="Back to Patch Diff"
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </TabsContent>
+
+            <TabsContent value="boss-strikes" className="space-y-3 mt-4">
+              {filtered.bossStrikes.length === 0 && <EmptyState>No boss strike changes.</EmptyState>}
+              {filtered.bossStrikes.map(bossStrike => (
+                <Card key={`${bossStrike.archived}-${bossStrike.bossStrikeId}`}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base flex items-center gap-2">
+                      <span>{bossStrike.name ? t(bossStrike.name) : `Boss Strike ${bossStrike.bossStrikeId}`}</span>
+                      <span className="text-xs text-muted-foreground font-normal">
+                        ID: {bossStrike.bossStrikeId}{bossStrike.archived && " (archived)"}
+                      </span>
+                      <StatusBadge status={bossStrike.status} />
+                    </CardTitle>
+                  </CardHeader>
+                  {bossStrike.changes.length > 0 && (
+                    <CardContent>
+                      <ChangeList changes={bossStrike.changes} />
+                    </CardContent>
+                  )}
+                </Card>
+              ))}
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+}
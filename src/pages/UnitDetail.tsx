@@ -13,6 +13,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { getUnitById } from "@/lib/units";
+import { MAX_COMPARE_UNITS } from "@/lib/unitComparison";
 import { getAbilityById, getLineOfFireLabel } from "@/lib/abilities";
 import { getStatusEffectDisplayName, getStatusEffectColor, getStatusEffectIconUrl, getEffectDisplayNameTranslated, getEffectColor, getEffectIconUrl, getEffectDuration } from "@/lib/statusEffects";
 import { getClassDisplayName } from "@/lib/battleConfig";
@@ -25,7 +26,7 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { useCompare } from "@/contexts/CompareContext";
 import { cn } from "@/lib/utils";
 import { 
-  ArrowLeft, Swords, Clock, Coins, Wrench, Plus, Check, Activity, Shield
+  ArrowLeft, Swords, Clock, Coins, Wrench, Plus, Check, Activity, Shield, RefreshCw
 } from "lucide-react";
 import { UnitTag, UnitTagLabels } from "@/data/gameEnums";
 import { expandTargetTags } from "@/lib/tagHierarchy";
@@ -159,7 +160,7 @@ export default function UnitDetail() {
   const stats = allStats[selectedRank - 1];
   const prevStats = selectedRank > 1 ? allStats[selectedRank - 2] : undefined;
   const inCompare = isInCompare(unit.id);
-  const canAddToCompare = compareUnits.length < 2;
+  const canAddToCompare = compareUnits.length < MAX_COMPARE_UNITS;
 
   const classDisplayName = t(getClassDisplayName(unit.identity.class_name));
   const sideLabels: Record<number, string> = {
@@ -311,6 +312,20 @@ export default function UnitDetail() {
             </StatSection>
           )}
 
+          {/* Transformations - raw table entries, the values aren't unit IDs */}
+          {unit.transformations.length > 0 && (
+            <StatSection title="Transformations" icon={<RefreshCw className="h-4 w-4" />} defaultOpen>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                {unit.transformations.map(({ trigger, value }) => (
+                  <div key={trigger} className="flex items-center justify-between py-1">
+                    <span className="text-muted-foreground font-mono text-sm">{trigger}</span>
+                    <span className="font-medium">{value}</span>
+                  </div>
+                ))}
+              </div>
+            </StatSection>
+          )}
+
           {/* Abilities */}
           {unit.weapons && Object.keys(unit.weapons.weapons).length > 0 && (
             <StatSection title="Abilities" icon={<Swords className="h-4 w-4" />} defaultOpen>
@@ -347,7 +362,15 @@ export default function UnitDetail() {
                             />
                           )}
                           <div className="flex-1">
-                            <h4 className="font-medium">{t(ability.name)}</h4>
+                            <h4 className="font-medium">
+                              <Link
+                                to={`/ability/${abilId}`}
+                                state={{ from: location.pathname, fromLabel: `Back to ${t(unit.identity.name)}` }}
+                                className="hover:underline"
+                              >
+                                {t(ability.name)}
+                              </Link>
+                            </h4>
                             <div className="flex items-center gap-1 text-sm text-muted-foreground">
                               {damageTypeIconUrl && (
                                 <img 
@@ -384,6 +407,18 @@ export default function UnitDetail() {
                           {ability.stats.armor_piercing_percent > 0 && (
                             <StatRow label="Armor Pierce" value={`${Math.round(ability.stats.armor_piercing_percent * 100)}%`} />
                           )}
+                          {(ability.stats.damage_distraction > 0 || ability.stats.damage_distraction_bonus > 0) && (
+                            <StatRow
+                              label="Suppression"
+                              value={`${ability.stats.damage_distraction}x${ability.stats.damage_distraction_bonus > 0 ? ` +${ability.stats.damage_distraction_bonus}` : ""}`}
+                            />
+                          )}
+                          {ability.stats.min_hp_percent > 0 && (
+                            <StatRow label="Non-lethal" value={`Stops at ${ability.stats.min_hp_percent}% HP`} />
+                          )}
+                          {ability.stats.capture && (
+                            <StatRow label="Capture" value="On lethal hit" />
+                          )}
                         </div>
                         
                         {/* Targets */}
@@ -77,15 +77,18 @@ export interface AbilityInfo {
   damageType: number;
   minRange: number;
   maxRange: number;
+  maxRangeOffenseMod: number; // Offense modifier against targets at max range
   cooldown: number;
   globalCooldown: number;
   armorPiercing: number;
-  critPercent: number; // Ability's base critical hit percent
-  unitBaseCrit: number; // Unit's base critical stat from statsConfig
+  critPercent: number; // Ability crit plus the weapon's share of its base crit
+  unitBaseCrit: number; // Unit's share of its base critical stat from statsConfig
   critBonuses: Record<number, number>; // tag_id -> bonus crit %
   chargeTime: number;
-  suppressionMultiplier: number;
-  suppressionBonus: number;
+  suppressionMultiplier: number; // damage_distraction (0 = none) - shown, not simulated
+  suppressionBonus: number; // damage_distraction_bonus
+  minHpPercent: number; // Can't take targets below this % of max HP (0 = lethal)
+  capture: boolean; // A lethal hit captures the target instead of killing it
   statusEffects: Record<string, number>; // effect_id -> chance %
   targetArea?: TargetArea; // AOE targeting data
   damageArea?: DamageAreaPosition[]; // Splash damage pattern around each impact point
@@ -167,6 +170,21 @@ export interface DamagePreview {
   expectedHits?: number;
   // Damage type for breakdown display
   damageType: number;
+  // Sampled outcome of the whole attack on this target
+  distribution?: DamageDistribution;
+}
+
+// Outcome of an attack on one target, combining shots, dodge, crits, armor depletion and status procs
+export interface DamageDistribution {
+  samples: number;
+  expectedHpLoss: number;
+  expectedArmorLoss: number;
+  // Chance the attack leaves the target at 0 HP this turn (0-1)
+  killChance: number;
+  // HP loss ranges (inclusive) and how likely each is
+  buckets: { from: number; to: number; probability: number }[];
+  // Chance each status effect lands (0-1): the attack must connect, then the effect must proc
+  statusProcChances: { effectId: number; name: string; color: string; chance: number }[];
 }
 
 // Row mapping: preferred_row 1 = front (row 1), 2 = middle (row 2), 3 = back (row 3)
@@ -206,6 +224,59 @@ export const COORDS_TO_GRID_ID: Record<string, number> = {
   "1,2": 11, "2,2": 12, "3,2": 13,
 };
 
+// Battlefield cell values used by battle_config layouts
+export const LayoutCell = {
+  Open: 1,
+  Unavailable: 2,
+  Wall: 3,
+} as const;
+
+// One side of a battlefield layout
+// cells[y][x] uses the same coordinates as GRID_ID_TO_COORDS (y=0 is the front row)
+// wall[x] is a row of wall cells standing in front of the front row (defender side only)
+export interface BattleGridShape {
+  cells: number[][];
+  wall?: number[];
+}
+
+export interface BattleLayout {
+  layoutId: number;
+  friendly: BattleGridShape;
+  enemy: BattleGridShape;
+}
+
+// The fixed 5/5/3 grid without walls, used when an encounter has no layout
+export const DEFAULT_BATTLE_LAYOUT: BattleLayout = {
+  layoutId: 0,
+  friendly: { cells: [[1, 1, 1, 1, 1], [1, 1, 1, 1, 1], [2, 1, 1, 1, 2]] },
+  enemy: { cells: [[1, 1, 1, 1, 1], [1, 1, 1, 1, 1], [2, 1, 1, 1, 2]] },
+};
+
+export function getGridShape(layout: BattleLayout, isEnemy: boolean): BattleGridShape {
+  return isEnemy ? layout.enemy : layout.friendly;
+}
+
+// Whether a unit can stand on (and be targeted at) a grid position
+export function isGridCellOpen(shape: BattleGridShape, gridId: number): boolean {
+  const coords = GRID_ID_TO_COORDS[gridId];
+  if (!coords) return false;
+  return (shape.cells[coords.y]?.[coords.x] ?? LayoutCell.Open) === LayoutCell.Open;
+}
+
+// Rows with no open cells at all - they take no space, so they don't count toward range
+export function isGridRowOpen(shape: BattleGridShape, row: number): boolean {
+  return shape.cells[row]?.some(cell => cell === LayoutCell.Open) ?? true;
+}
+
+export function hasWallInColumn(shape: BattleGridShape, x: number): boolean {
+  return shape.wall?.[x] === LayoutCell.Wall;
+}
+
+// Columns (x) covered by the defender wall
+export function getWallColumns(shape: BattleGridShape): number[] {
+  return [0, 1, 2, 3, 4].filter(x => hasWallInColumn(shape, x));
+}
+
 // Get grid positions affected by an AOE ability centered on a target position
 // Coordinate system from data: x: -1=left, 0=same, 1=right; y: -1=down(toward front), 0=same, 1=up(toward back)
 // Now supports overlapping splash damage from damageArea
@@ -1,8 +1,10 @@
-import type { AbilityInfo, PartyUnit, DamageResult } from "./battleSimulator";
+import type { AbilityInfo, PartyUnit, DamageResult, BattleLayout } from "./battleSimulator";
 import type { EncounterUnit } from "./encounters";
 
 // Live battle unit with current HP/armor state
 export interface LiveBattleUnit {
+  // Identifies the unit for the whole battle - grid positions are reused when units die and spawn
+  instanceId: number;
   unitId: number;
   gridId: number;
   rank: number;
@@ -41,7 +43,7 @@ export interface ActiveStatusEffect {
 }
 
 // Battle action types
-export type BattleActionType = "attack" | "skip" | "dodge" | "crit" | "status_applied" | "status_tick" | "death";
+export type BattleActionType = "attack" | "skip" | "dodge" | "crit" | "status_applied" | "status_tick" | "death" | "unit_spawned" | "capture";
 
 export interface BattleAction {
   type: BattleActionType;
@@ -61,6 +63,13 @@ export interface BattleAction {
   message: string;
   // For multi-hit random attacks: how many times this position was hit
   hitCount?: number;
+  // For capture: whether the target was captured
+  captured?: boolean;
+  // For unit_spawned: the unit that appeared in the dead unit's slot
+  spawnedUnitId?: number;
+  // instanceId of the units involved, on attack, status_tick, death, capture and unit_spawned actions
+  attackerInstanceId?: number;
+  targetInstanceId?: number;
 }
 
 // Turn summary stats
@@ -81,14 +90,28 @@ export interface BattleTurn {
   summary?: TurnSummary;
 }
 
+// A surviving unit moved to another slot between waves
+export interface RedeployMove {
+  fromGridId: number;
+  toGridId: number;
+}
+
+// A move made by the player, recorded so the battle can be replayed from its seed
+export type PlayerMove =
+  | { type: "attack"; attackerGridId: number; abilityId: number; targetGridId: number }
+  | { type: "skip" }
+  | { type: "redeploy"; moves: RedeployMove[]; reinforcements: PartyUnit[] };
+
 export interface LiveBattleState {
-  // Unit states
+  // Unit states - dead units stay listed, and units spawned on death are added after them
   friendlyUnits: LiveBattleUnit[];
   enemyUnits: LiveBattleUnit[];
   // Collapsed rows (rows with no alive units) - affects range calculation
   // Row 0 = front, Row 1 = middle, Row 2 = back
   friendlyCollapsedRows: Set<number>;
   enemyCollapsedRows: Set<number>;
+  // Battlefield layout: unavailable cells and the defender's wall
+  layout: BattleLayout;
   // Turn tracking
   currentTurn: number;
   isPlayerTurn: boolean;
@@ -102,6 +125,14 @@ export interface LiveBattleState {
   // Current wave
   currentWave: number;
   totalWaves: number;
+  // Seeded RNG: the same seed, party and encounter always replay the same battle
+  rngSeed: number;
+  // Number of random draws consumed so far
+  rngPosition: number;
+  // Player moves made so far, in order
+  playerMoves: PlayerMove[];
+  // instanceId for the next unit to enter the battle
+  nextInstanceId: number;
 }
 
 // Roll result for damage calculation
@@ -82,10 +82,22 @@ export interface StatsConfig {
   stats: UnitStats[];
   unimportant: boolean;
   status_effect_immunities?: number[];
+  // Unit that takes this unit's grid slot when it dies
+  death_spawned_unit?: number;
+  // Trigger -> value, e.g. {"zombie_candidate": 29}; the values aren't unit IDs and point into
+  // data the game files don't include, so transformations are shown but not simulated
+  transformation_table?: Record<string, number>;
   preferred_row: number;
   size: number;
 }
 
+export interface UnitTransformation {
+  // Condition that starts the transformation, e.g. "zombie_candidate"
+  trigger: string;
+  // Raw table value for the trigger
+  value: number;
+}
+
 export interface RequirementsConfig {
   _t: "battle_unit_requirements_config";
   cost: Record<string, number>;
@@ -117,6 +129,8 @@ export interface ParsedUnit {
   requirements?: RequirementsConfig;
   healing?: HealingConfig;
   weapons?: WeaponsConfig;
+  // Parsed from statsConfig.transformation_table (empty for most units)
+  transformations: UnitTransformation[];
 }
 
 export type SupportedLanguage = "en" | "de" | "es" | "fr" | "it" | "ja" | "ko" | "ru" | "zh-Hans" | "zh-Hant";
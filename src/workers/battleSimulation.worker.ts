@@ -0,0 +1,81 @@
+// Web Worker entry for batch battle simulation
+// Runs one shard at a time, posting outcomes every few milliseconds and yielding between
+// chunks so cancel messages are picked up while a shard is still running.
+// Planner requests are short and run in one go.
+import { simulateBattle } from "@/lib/battleMonteCarlo";
+import type { BattleOutcome } from "@/lib/battleMonteCarlo";
+import { suggestMoves } from "@/lib/battlePlanner";
+import { normalizeSeed } from "@/lib/battleRng";
+import { setGameData } from "@/lib/gameData";
+import type { PlanningTask, SimulationShard, SimulationWorkerRequest, SimulationWorkerResponse } from "@/lib/battleSimulationPool";
+
+// Time budget per chunk before outcomes are posted and the worker yields
+const CHUNK_BUDGET_MS = 50;
+
+const cancelledJobs = new Set<number>();
+
+const post = (message: SimulationWorkerResponse) => self.postMessage(message);
+
+function runShard(shard: SimulationShard) {
+  let index = 0;
+
+  const runChunk = () => {
+    if (cancelledJobs.has(shard.jobId)) {
+      post({ type: "shard_done", jobId: shard.jobId });
+      return;
+    }
+
+    const chunkStart = index;
+    const outcomes: BattleOutcome[] = [];
+    const deadline = performance.now() + CHUNK_BUDGET_MS;
+
+    try {
+      do {
+        outcomes.push(simulateBattle(
+          shard.party,
+          shard.context,
+          shard.policy,
+          normalizeSeed(shard.baseSeed + shard.startIndex + index),
+          shard.maxTurns,
+          shard.startingWave
+        ));
+        index++;
+      } while (index < shard.count && performance.now() < deadline);
+    } catch (err) {
+      post({ type: "error", jobId: shard.jobId, message: err instanceof Error ? err.message : String(err) });
+      return;
+    }
+
+    post({ type: "outcomes", jobId: shard.jobId, startIndex: shard.startIndex + chunkStart, outcomes });
+
+    if (index < shard.count) {
+      setTimeout(runChunk, 0);
+    } else {
+      post({ type: "shard_done", jobId: shard.jobId });
+    }
+  };
+
+  runChunk();
+}
+
+function runPlanning(task: PlanningTask) {
+  try {
+    const suggestions = suggestMoves(task.state, task.context, task.count, unitId => task.unitNames[unitId] ?? `Unit ${unitId}`);
+    post({ type: "suggestions", jobId: task.jobId, suggestions });
+  } catch (err) {
+    post({ type: "error", jobId: task.jobId, message: err instanceof Error ? err.message : String(err) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "data") {
+    setGameData(message.files);
+  } else if (message.type === "cancel") {
+    cancelledJobs.add(message.jobId);
+  } else if (message.type === "run") {
+    runShard(message.shard);
+  } else if (message.type === "plan") {
+    runPlanning(message.task);
+  }
+};